@@ -1,30 +1,72 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Navbar from '@/components/Navbar';
 import { useAccount } from 'wagmi';
-import { formatEther, parseEther } from 'viem';
+import { formatEther, formatUnits, parseEther, isAddress } from 'viem';
 import {
-  useAdmin,
-  useContractBalance,
+  useRoles,
+  useRoleMembers,
+  useGrantRole,
+  useRevokeRole,
+  useFreezeAccount,
+  useUnfreezeAccount,
+  usePoolStats,
+  useProtocolLiquidity,
   useLoanCount,
   useCircleCount,
-  useLoanDetails,
   useApproveLoan,
-  useDisburseLoan,
   useDepositLiquidity,
-  useWithdraw,
+  useTimelockConfig,
+  useTimelockOperations,
+  useProposeWithdraw,
+  useProposeTransferAdmin,
+  useTimelockAction,
+  TimelockOperationStatus,
+  useMerchant,
+  useRegisterMerchant,
+  useSetMerchantActive,
+  useAvailableLiquidity,
+  useCanTriggerDefault,
+  usePenalizeDefault,
+  useDefaultHistory,
+  usePauseStatus,
+  usePauseHistory,
+  usePauseProtocol,
+  useRiskTiers,
+  useRiskParams,
+  useSetRiskTiers,
+  useSetRiskParams,
+  RiskTier,
+  RiskParams,
+  useAssets,
+  useLoanAsset,
+  useTokenDecimals,
+  useAddAsset,
+  useSetAssetEnabled,
+  useSetAssetLimits,
 } from '@/hooks/useContract';
+import { useLoanApproval } from '@/hooks/useFraudDetection';
+import { useIndexedLoans } from '@/hooks/useIndexer';
+import { useBlocklist, useUpdateBlocklist } from '@/hooks/useScreening';
+import { useMerchantReturnOrigin, useSetMerchantReturnOrigin } from '@/hooks/useMerchants';
+import { ROLES, RoleName } from '@/lib/contract';
+import { ListedAsset, formatAmount, isNativeAsset, parseAmount } from '@/lib/assets';
+import { LoanApprovalResult } from '@/lib/types/fraud';
+import { IndexedLoan, IndexedLoanStatus } from '@/lib/types/indexer';
 
 export default function AdminPage() {
   const [isMounted, setIsMounted] = useState(false);
   const { address, isConnected } = useAccount();
-  const { data: adminAddress } = useAdmin();
-  const { data: contractBalance, refetch: refetchBalance } = useContractBalance();
+  const roles = useRoles(address);
+  const { data: poolStats, refetch: refetchBalance } = usePoolStats();
+  const { data: protocolLiquidity, refetch: refetchProtocolLiquidity } = useProtocolLiquidity();
+  const { data: availableLiquidity, refetch: refetchLiquidity } = useAvailableLiquidity();
   const { data: loanCount, refetch: refetchCount } = useLoanCount();
   const { data: circleCount } = useCircleCount();
 
-  const isAdmin = address && adminAddress && address.toLowerCase() === adminAddress.toLowerCase();
+  // Every panel is gated by the on-chain role it needs
+  const { isAdmin, isLoanOfficer, isTreasurer, isRiskManager, isPauser, hasAnyRole } = roles;
 
   useEffect(() => {
     setIsMounted(true);
@@ -35,12 +77,23 @@ export default function AdminPage() {
     const interval = setInterval(() => {
       refetchCount();
       refetchBalance();
+      refetchLiquidity();
+      refetchProtocolLiquidity();
     }, 5000);
     return () => clearInterval(interval);
-  }, [refetchCount, refetchBalance]);
+  }, [refetchCount, refetchBalance, refetchLiquidity, refetchProtocolLiquidity]);
 
-  // Generate loan IDs for iteration
-  const loanIds = loanCount ? Array.from({ length: Number(loanCount) }, (_, i) => i + 1) : [];
+  const handleDefaultSuccess = useCallback(() => {
+    refetchBalance();
+    refetchLiquidity();
+  }, [refetchBalance, refetchLiquidity]);
+
+  const { refetch: refetchRoles } = roles;
+  const handleTreasuryExecuted = useCallback(() => {
+    refetchBalance();
+    refetchProtocolLiquidity();
+    refetchRoles();
+  }, [refetchBalance, refetchProtocolLiquidity, refetchRoles]);
 
   if (!isConnected) {
     return (
@@ -72,7 +125,7 @@ export default function AdminPage() {
     );
   }
 
-  if (!isAdmin) {
+  if (!hasAnyRole) {
     return (
       <div className="min-h-screen bg-black relative overflow-hidden">
         {/* Orange Glow from Upper Left */}
@@ -272,9 +325,9 @@ export default function AdminPage() {
         {/* Contract Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           <StatCard 
-            title="Contract Balance" 
-            value={contractBalance ? `${formatEther(contractBalance)} POL` : '0 POL'}
-            description="Available liquidity"
+            title="Lending Pool" 
+            value={poolStats ? `${formatEther(poolStats[0])} POL` : '0 POL'}
+            description={`${availableLiquidity !== undefined ? formatEther(availableLiquidity) : '0'} POL available to lend · protocol share ${protocolLiquidity !== undefined ? formatEther(protocolLiquidity) : '0'} POL`}
           />
           <StatCard 
             title="Total Loans" 
@@ -288,23 +341,93 @@ export default function AdminPage() {
           />
         </div>
 
+        {/* Emergency Pause */}
+        {isPauser && (
+          <div className="mb-6">
+            <PauseControl />
+          </div>
+        )}
+
         {/* Liquidity Management */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
-          <DepositLiquidityForm onSuccess={() => refetchBalance()} />
-          <WithdrawForm onSuccess={() => refetchBalance()} />
-        </div>
+        {isTreasurer && (
+          <div className="mb-6">
+            <DepositLiquidityForm onSuccess={() => {
+              refetchBalance();
+              refetchProtocolLiquidity();
+            }} />
+          </div>
+        )}
 
-        {/* Loan Management */}
+        {/* Treasury Operations (multisig + timelock) */}
         <div className="mb-6">
-          <PendingApprovals loanIds={loanIds} onSuccess={() => {
-            refetchCount();
-            refetchBalance();
-          }} />
+          <TreasuryOperations
+            protocolLiquidity={protocolLiquidity ?? BigInt(0)}
+            onExecuted={handleTreasuryExecuted}
+          />
         </div>
 
+        {/* Role Management */}
+        {isAdmin && (
+          <div className="mb-6">
+            <RoleManagement />
+          </div>
+        )}
+
+        {/* Merchant Registry */}
+        {isAdmin && (
+          <div className="mb-6">
+            <MerchantRegistry />
+          </div>
+        )}
+
+        {/* Loan Management */}
+        {isLoanOfficer && (
+          <div className="mb-6">
+            <PendingApprovals onSuccess={() => {
+              refetchCount();
+              refetchBalance();
+            }} />
+          </div>
+        )}
+
+        {/* Account Controls */}
+        {isRiskManager && (
+          <div className="mb-6">
+            <AccountControls />
+          </div>
+        )}
+
+        {/* Address Screening */}
+        {(isAdmin || isRiskManager) && (
+          <div className="mb-6">
+            <AddressScreening />
+          </div>
+        )}
+
+        {/* Risk Parameters */}
+        {isRiskManager && (
+          <div className="mb-6">
+            <RiskParametersPanel />
+          </div>
+        )}
+
+        {/* Asset Registry */}
+        {(isAdmin || isRiskManager) && (
+          <div className="mb-6">
+            <AssetRegistryPanel isAdmin={isAdmin} isRiskManager={isRiskManager} />
+          </div>
+        )}
+
+        {/* Defaults & Bond Slashing */}
+        {isRiskManager && (
+          <div className="mb-6">
+            <DefaultHistory />
+          </div>
+        )}
+
         {/* All Loans Table */}
         <div className="mb-[100px]">
-          <AllLoansTable loanIds={loanIds} />
+          <AllLoansTable onSuccess={handleDefaultSuccess} />
         </div>
 
       </main>
@@ -317,7 +440,7 @@ export default function AdminPage() {
 function StatCard({ title, value, description }: { title: string; value: string; description: string }) {
   // Map each card to a color
   const colorMap: { [key: string]: string } = {
-    'Contract Balance': 'from-blue-500/20 to-blue-600/20 border-blue-500/30',
+    'Lending Pool': 'from-blue-500/20 to-blue-600/20 border-blue-500/30',
     'Total Loans': 'from-purple-500/20 to-purple-600/20 border-purple-500/30',
     'Trust Circles': 'from-orange-500/20 to-orange-600/20 border-orange-500/30',
   };
@@ -342,7 +465,6 @@ function DepositLiquidityForm({ onSuccess }: { onSuccess: () => void }) {
     if (isSuccess) {
       setAmount('');
       onSuccess();
-      alert('Liquidity deposited!');
     }
   }, [isSuccess, onSuccess]);
 
@@ -381,16 +503,197 @@ function DepositLiquidityForm({ onSuccess }: { onSuccess: () => void }) {
   );
 }
 
-// Withdraw Form
-function WithdrawForm({ onSuccess }: { onSuccess: () => void }) {
+// Treasury Operations: withdrawals and admin transfers need M-of-N signer
+// approval and then wait out the timelock before anyone can execute them
+const OPERATION_STATUS_STYLES: Record<TimelockOperationStatus, string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  queued: 'bg-blue-500/20 text-blue-300',
+  executed: 'bg-green-500/20 text-green-300',
+  cancelled: 'bg-red-500/20 text-red-300',
+};
+
+type TimelockOperation = NonNullable<ReturnType<typeof useTimelockOperations>['data']>[number];
+
+function formatDelay(seconds: number) {
+  if (seconds >= 86400) return `${+(seconds / 86400).toFixed(1)} days`;
+  if (seconds >= 3600) return `${+(seconds / 3600).toFixed(1)} hours`;
+  return `${Math.ceil(seconds / 60)} minutes`;
+}
+
+function TreasuryOperations({ protocolLiquidity, onExecuted }: { protocolLiquidity: bigint; onExecuted: () => void }) {
+  const { address } = useAccount();
+  const { timelockAddress, signers, threshold, delay } = useTimelockConfig();
+  const { data: operations, refetch } = useTimelockOperations();
+  const [showClosed, setShowClosed] = useState(false);
+
+  const isSigner = !!address && !!signers?.some(signer => signer.toLowerCase() === address.toLowerCase());
+
+  const handleActionSuccess = useCallback(() => {
+    refetch();
+    onExecuted();
+  }, [refetch, onExecuted]);
+
+  if (!timelockAddress) {
+    return (
+      <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+        <h3 className="text-xl font-bold text-white mb-2">Treasury Operations</h3>
+        <p className="text-white/60 text-sm">
+          No timelock is linked yet. Withdrawals and admin transfers stay disabled until one is set with setTreasuryTimelock.
+        </p>
+      </div>
+    );
+  }
+
+  const queued = operations?.filter(op => op.status === 'pending' || op.status === 'queued') ?? [];
+  const closed = operations?.filter(op => op.status === 'executed' || op.status === 'cancelled') ?? [];
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">Treasury Operations</h3>
+          <p className="text-white/60 text-sm">
+            {threshold !== undefined && signers ? `${threshold.toString()} of ${signers.length} signers` : 'Loading signers...'}
+            {delay !== undefined && ` · ${formatDelay(Number(delay))} timelock`}
+          </p>
+        </div>
+        {!isSigner && <span className="text-white/40 text-xs">View only · you are not a signer</span>}
+      </div>
+
+      {isSigner && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+          <ProposeWithdrawForm protocolLiquidity={protocolLiquidity} onSuccess={refetch} />
+          <ProposeTransferAdminForm onSuccess={refetch} />
+        </div>
+      )}
+
+      <h4 className="text-white font-semibold mb-2">Queued ({queued.length})</h4>
+      {queued.length === 0 ? (
+        <p className="text-white/40 text-sm mb-4">No operations waiting</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {queued.map(op => (
+            <OperationRow
+              key={op.id.toString()}
+              operation={op}
+              threshold={threshold ?? BigInt(0)}
+              isSigner={isSigner}
+              onSuccess={handleActionSuccess}
+            />
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowClosed(!showClosed)}
+        className="text-white/60 hover:text-white text-sm transition"
+      >
+        {showClosed ? 'Hide' : 'Show'} executed & cancelled ({closed.length})
+      </button>
+      {showClosed && (
+        <div className="space-y-2 mt-2">
+          {closed.map(op => (
+            <OperationRow
+              key={op.id.toString()}
+              operation={op}
+              threshold={threshold ?? BigInt(0)}
+              isSigner={false}
+              onSuccess={handleActionSuccess}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function OperationRow({
+  operation,
+  threshold,
+  isSigner,
+  onSuccess,
+}: {
+  operation: TimelockOperation;
+  threshold: bigint;
+  isSigner: boolean;
+  onSuccess: () => void;
+}) {
+  const { address } = useAccount();
+  const { approve, execute, cancel, isPending, isConfirming, isSuccess } = useTimelockAction();
+
+  useEffect(() => {
+    if (isSuccess) {
+      onSuccess();
+    }
+  }, [isSuccess, onSuccess]);
+
+  const { id, opType, target, amount, approvers, eta, status, cancelledBy, executedBy } = operation;
+  const hasApproved = !!address && approvers.some(signer => signer.toLowerCase() === address.toLowerCase());
+  const isReady = status === 'queued' && eta !== undefined && Date.now() / 1000 >= Number(eta);
+  const isBusy = isPending || isConfirming;
+  const short = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+
+  return (
+    <div className="flex flex-wrap justify-between items-center gap-2 bg-white/5 p-3 rounded-lg border border-white/10">
+      <div>
+        <p className="text-white text-sm font-semibold">
+          #{id.toString()} · {opType === 0 ? `Withdraw ${formatEther(amount)} POL to ${short(target)}` : `Transfer admin to ${short(target)}`}
+        </p>
+        <p className="text-white/50 text-xs">
+          {approvers.length}/{threshold.toString()} approvals
+          {status === 'queued' && eta !== undefined && ` · executable ${new Date(Number(eta) * 1000).toLocaleString()}`}
+          {cancelledBy && ` · cancelled by ${short(cancelledBy)}`}
+          {executedBy && ` · executed by ${short(executedBy)}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${OPERATION_STATUS_STYLES[status]}`}>
+          {status}
+        </span>
+        {isSigner && status === 'pending' && !hasApproved && (
+          <button
+            onClick={() => approve(id)}
+            disabled={isBusy}
+            className="px-3 py-1 bg-green-500/80 hover:bg-green-500 text-white rounded text-xs font-medium transition disabled:opacity-50"
+          >
+            Approve
+          </button>
+        )}
+        {isSigner && isReady && (
+          <button
+            onClick={() => execute(id)}
+            disabled={isBusy}
+            className="px-3 py-1 bg-white/90 hover:bg-white text-black rounded text-xs font-medium transition disabled:opacity-50"
+          >
+            Execute
+          </button>
+        )}
+        {isSigner && (
+          <button
+            onClick={() => cancel(id)}
+            disabled={isBusy}
+            className="px-3 py-1 bg-red-500/80 hover:bg-red-500 text-white rounded text-xs font-medium transition disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ProposeWithdrawForm({ protocolLiquidity, onSuccess }: { protocolLiquidity: bigint; onSuccess: () => void }) {
+  const { address } = useAccount();
   const [amount, setAmount] = useState('');
-  const { withdraw, isPending, isSuccess } = useWithdraw();
+  const [recipient, setRecipient] = useState('');
+  const { proposeWithdraw, isPending, isConfirming, isSuccess } = useProposeWithdraw();
 
   useEffect(() => {
     if (isSuccess) {
       setAmount('');
+      setRecipient('');
       onSuccess();
-      alert('Withdrawal successful!');
+      alert('Withdrawal proposed. Other signers can now approve it.');
     }
   }, [isSuccess, onSuccess]);
 
@@ -400,155 +703,1348 @@ function WithdrawForm({ onSuccess }: { onSuccess: () => void }) {
       alert('Please enter a valid amount');
       return;
     }
-    withdraw(amount);
+    if (parseEther(amount) > protocolLiquidity) {
+      alert(`Protocol liquidity is only ${formatEther(protocolLiquidity)} POL`);
+      return;
+    }
+    const to = recipient || address;
+    if (!to || !isAddress(to)) {
+      alert('Please enter a valid recipient address');
+      return;
+    }
+    proposeWithdraw(amount, to);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white/5 p-4 rounded-lg border border-white/10 space-y-3">
+      <p className="text-white font-semibold text-sm">Propose Withdrawal</p>
+      <input
+        type="number"
+        step="0.01"
+        min="0"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="Enter POL amount"
+        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+      />
+      <input
+        type="text"
+        value={recipient}
+        onChange={(e) => setRecipient(e.target.value)}
+        placeholder="Recipient (defaults to you)"
+        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+      />
+      <button
+        type="submit"
+        disabled={isPending || isConfirming}
+        className="w-full bg-red-500/90 hover:bg-red-500 text-white py-3 rounded-lg font-semibold transition disabled:opacity-50"
+      >
+        {isPending || isConfirming ? 'Proposing...' : 'Propose Withdrawal'}
+      </button>
+    </form>
+  );
+}
+
+function ProposeTransferAdminForm({ onSuccess }: { onSuccess: () => void }) {
+  const [newAdmin, setNewAdmin] = useState('');
+  const { proposeTransferAdmin, isPending, isConfirming, isSuccess } = useProposeTransferAdmin();
+
+  useEffect(() => {
+    if (isSuccess) {
+      setNewAdmin('');
+      onSuccess();
+      alert('Admin transfer proposed. Other signers can now approve it.');
+    }
+  }, [isSuccess, onSuccess]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isAddress(newAdmin)) {
+      alert('Please enter a valid address');
+      return;
+    }
+    proposeTransferAdmin(newAdmin);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white/5 p-4 rounded-lg border border-white/10 space-y-3">
+      <p className="text-white font-semibold text-sm">Propose Admin Transfer</p>
+      <input
+        type="text"
+        value={newAdmin}
+        onChange={(e) => setNewAdmin(e.target.value)}
+        placeholder="New admin address (0x...)"
+        className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+      />
+      <button
+        type="submit"
+        disabled={isPending || isConfirming}
+        className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+      >
+        {isPending || isConfirming ? 'Proposing...' : 'Propose Admin Transfer'}
+      </button>
+    </form>
+  );
+}
+
+// Merchant Registry
+function MerchantRegistry() {
+  const [merchantAddress, setMerchantAddress] = useState('');
+  const [merchantName, setMerchantName] = useState('');
+  const [returnOrigin, setReturnOrigin] = useState('');
+  const validAddress = isAddress(merchantAddress) ? merchantAddress : undefined;
+
+  const { data: savedOrigin, refetch: refetchOrigin } = useMerchantReturnOrigin(validAddress);
+  const { setReturnOrigin: saveReturnOrigin, isSaving, error: originError } = useSetMerchantReturnOrigin();
+
+  const { data: merchant, refetch } = useMerchant(validAddress);
+  const { registerMerchant, isPending: isRegistering, isSuccess: registerSuccess } = useRegisterMerchant();
+  const { setMerchantActive, isPending: isUpdating, isSuccess: updateSuccess } = useSetMerchantActive();
+
+  const isRegistered = !!merchant && merchant[0].length > 0;
+
+  useEffect(() => {
+    if (registerSuccess || updateSuccess) {
+      refetch();
+    }
+  }, [registerSuccess, updateSuccess, refetch]);
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validAddress) {
+      alert('Please enter a valid merchant address');
+      return;
+    }
+    if (!merchantName.trim()) {
+      alert('Please enter a merchant name');
+      return;
+    }
+    registerMerchant(validAddress, merchantName.trim());
+  };
+
+  const handleSaveOrigin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validAddress) return;
+    if (await saveReturnOrigin(validAddress, returnOrigin.trim())) {
+      setReturnOrigin('');
+      refetchOrigin();
+    }
   };
 
   return (
     <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
-      <h3 className="text-xl font-bold text-white mb-4">Withdraw Funds</h3>
-      
-      <form onSubmit={handleSubmit} className="space-y-3">
+      <h3 className="text-xl font-bold text-white mb-4">Merchants</h3>
+
+      <form onSubmit={handleRegister} className="grid grid-cols-1 md:grid-cols-3 gap-3">
         <input
-          type="number"
-          step="0.01"
-          min="0"
-          value={amount}
-          onChange={(e) => setAmount(e.target.value)}
-          placeholder="Enter POL amount"
+          type="text"
+          value={merchantAddress}
+          onChange={(e) => setMerchantAddress(e.target.value)}
+          placeholder="Merchant address (0x...)"
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={merchantName}
+          onChange={(e) => setMerchantName(e.target.value)}
+          placeholder="Merchant name"
           className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
         />
         <button
           type="submit"
-          disabled={isPending}
-          className="w-full bg-red-500/90 hover:bg-red-500 text-white py-3 rounded-lg font-semibold transition disabled:opacity-50"
+          disabled={isRegistering}
+          className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
         >
-          {isPending ? 'Withdrawing...' : 'Withdraw'}
+          {isRegistering ? 'Registering...' : isRegistered ? 'Rename' : 'Register'}
         </button>
       </form>
+
+      {isRegistered && validAddress && (
+        <div className="bg-white/5 p-3 rounded-lg border border-white/10 mt-4 flex justify-between items-center">
+          <div>
+            <p className="text-white font-semibold">{merchant[0]}</p>
+            <p className="text-white/60 text-sm">
+              {merchant[1] ? '● Active' : '○ Disabled'} · {Number(merchant[3])} purchases
+            </p>
+          </div>
+          <button
+            onClick={() => setMerchantActive(validAddress, !merchant[1])}
+            disabled={isUpdating}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm font-semibold transition border border-white/20 disabled:opacity-50"
+          >
+            {isUpdating ? 'Updating...' : merchant[1] ? 'Disable' : 'Enable'}
+          </button>
+        </div>
+      )}
+
+      {isRegistered && validAddress && (
+        <form onSubmit={handleSaveOrigin} className="mt-4">
+          <p className="text-white/60 text-sm mb-2">
+            Return origin: <span className="font-mono">{savedOrigin ?? 'none (intents cannot redirect shoppers)'}</span>
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <input
+              type="text"
+              value={returnOrigin}
+              onChange={(e) => setReturnOrigin(e.target.value)}
+              placeholder="https://shop.example"
+              className="md:col-span-2 w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 font-mono text-sm"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !returnOrigin.trim()}
+              className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+            >
+              {isSaving ? 'Signing...' : 'Save Origin'}
+            </button>
+          </div>
+          {originError && <p className="text-red-400 text-sm mt-3">{originError}</p>}
+        </form>
+      )}
+    </div>
+  );
+}
+
+// Page controls for indexed lists
+function Pagination({ page, pageSize, total, onChange }: { page: number; pageSize: number; total: number; onChange: (page: number) => void }) {
+  const pages = Math.max(1, Math.ceil(total / pageSize));
+  if (pages === 1) return null;
+
+  return (
+    <div className="flex justify-between items-center mt-4 text-sm">
+      <button
+        onClick={() => onChange(page - 1)}
+        disabled={page <= 1}
+        className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white rounded-lg transition disabled:opacity-40"
+      >
+        ← Newer
+      </button>
+      <p className="text-white/60">Page {page} of {pages} · {total} loans</p>
+      <button
+        onClick={() => onChange(page + 1)}
+        disabled={page >= pages}
+        className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white rounded-lg transition disabled:opacity-40"
+      >
+        Older →
+      </button>
     </div>
   );
 }
 
 // Pending Approvals
-function PendingApprovals({ loanIds, onSuccess }: { loanIds: number[]; onSuccess: () => void }) {
+function PendingApprovals({ onSuccess }: { onSuccess: () => void }) {
+  const [page, setPage] = useState(1);
+  const { data: loans, refetch } = useIndexedLoans({ status: 'pending', page, pageSize: 10 });
+
+  const handleApproved = useCallback(() => {
+    refetch();
+    onSuccess();
+  }, [refetch, onSuccess]);
+
   return (
     <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
       <h3 className="text-xl font-bold text-white mb-4">Pending Approvals</h3>
       
       <div className="space-y-3 max-h-96 overflow-y-auto">
-        {loanIds.length === 0 ? (
-          <p className="text-white/60 text-center py-8 text-sm">No loans yet</p>
+        {!loans || loans.items.length === 0 ? (
+          <p className="text-white/60 text-center py-8 text-sm">{loans ? 'No pending loans' : 'Loading loans...'}</p>
         ) : (
-          loanIds.map(id => <PendingLoanCard key={id} loanId={id} onSuccess={onSuccess} />)
+          loans.items.map(loan => <PendingLoanCard key={loan.id} loan={loan} onSuccess={handleApproved} />)
         )}
       </div>
+
+      {loans && <Pagination page={page} pageSize={loans.pageSize} total={loans.total} onChange={setPage} />}
     </div>
   );
 }
 
-function PendingLoanCard({ loanId, onSuccess }: { loanId: number; onSuccess: () => void }) {
-  const { data: loanDetails, refetch } = useLoanDetails(BigInt(loanId));
+function PendingLoanCard({ loan, onSuccess }: { loan: IndexedLoan; onSuccess: () => void }) {
+  const loanId = loan.id;
   const { approveLoan, isPending, isSuccess, isConfirming } = useApproveLoan();
+  const { getApproval } = useLoanApproval();
+  const [oracleResult, setOracleResult] = useState<LoanApprovalResult | null>(null);
 
   useEffect(() => {
     if (isSuccess) {
-      // Wait a bit before refreshing to let blockchain update
-      setTimeout(() => {
-        refetch();
-        onSuccess();
-      }, 2000);
+      onSuccess();
     }
-  }, [isSuccess, onSuccess, refetch]);
+  }, [isSuccess, onSuccess]);
 
-  if (!loanDetails || loanDetails[4]) return null; // Skip if approved
+  // The risk oracle scores loans when the borrower opens their dashboard
+  useEffect(() => {
+    getApproval(loanId).then(setOracleResult);
+  }, [loanId, getApproval]);
+
+  // Oracle-approved loans are claimed by the borrower and blocked ones stay closed;
+  // only loans sent to review (or not scored yet) need a loan officer
+  const needsReview = !oracleResult || oracleResult.decision === 'review';
 
   const handleApprove = () => {
     approveLoan(BigInt(loanId));
   };
 
   // Show approved state temporarily before component unmounts
-  const showApproved = isSuccess || loanDetails[4];
+  const showApproved = isSuccess;
 
   return (
     <div className="bg-white/5 p-3 rounded-lg border border-white/10">
       <div className="flex justify-between items-center mb-2">
         <p className="text-white font-semibold text-base">Loan {loanId}</p>
-        <p className="text-white text-base">{formatEther(loanDetails[1])} POL</p>
+        <p className="text-white text-base">{formatAmount(BigInt(loan.amount), loan.asset)}</p>
       </div>
-      <p className="text-white/60 text-sm mb-3 truncate">{loanDetails[7]}</p>
-      <button
-        onClick={handleApprove}
-        disabled={isPending || isConfirming || showApproved}
-        className={`w-full py-2 rounded-lg font-medium text-sm transition ${
-          showApproved 
-            ? 'bg-gray-500 text-white cursor-not-allowed' 
-            : 'bg-green-500/90 hover:bg-green-500 text-white disabled:opacity-50'
-        }`}
-      >
-        {showApproved ? '✓ Approved & Disbursed' : isPending || isConfirming ? 'Approving...' : 'Approve & Send'}
-      </button>
+      <p className="text-white/60 text-sm mb-1 truncate">{loan.purpose}</p>
+      <p className={`text-xs mb-3 ${
+        !oracleResult ? 'text-white/40' : oracleResult.decision === 'approve' ? 'text-green-400' : oracleResult.decision === 'block' ? 'text-red-400' : 'text-yellow-400'
+      }`}>
+        {!oracleResult
+          ? 'Not scored by risk oracle yet'
+          : `Risk oracle: ${oracleResult.decision} · trust score ${oracleResult.trustScore}/60`}
+      </p>
+      {needsReview ? (
+        <button
+          onClick={handleApprove}
+          disabled={isPending || isConfirming || showApproved}
+          className={`w-full py-2 rounded-lg font-medium text-sm transition ${
+            showApproved 
+              ? 'bg-gray-500 text-white cursor-not-allowed' 
+              : 'bg-green-500/90 hover:bg-green-500 text-white disabled:opacity-50'
+          }`}
+        >
+          {showApproved ? '✓ Approved & Disbursed' : isPending || isConfirming ? 'Approving...' : 'Approve & Send'}
+        </button>
+      ) : (
+        <p className="text-white/60 text-sm text-center py-2">
+          {oracleResult?.decision === 'approve' ? 'Auto-approved · waiting for the borrower to claim' : 'Declined by risk oracle'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Emergency Pause
+function PauseControl() {
+  const [reason, setReason] = useState('');
+  const { isPaused, reason: activeReason, refetch } = usePauseStatus();
+  const { data: history, refetch: refetchHistory } = usePauseHistory();
+  const { pause, unpause, isPending, isConfirming, isSuccess } = usePauseProtocol();
+
+  useEffect(() => {
+    if (isSuccess) {
+      setReason('');
+      refetch();
+      refetchHistory();
+    }
+  }, [isSuccess, refetch, refetchHistory]);
+
+  const handleToggle = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      alert('Please enter a reason');
+      return;
+    }
+    if (isPaused) {
+      unpause(reason.trim());
+    } else {
+      pause(reason.trim());
+    }
+  };
+
+  return (
+    <div className={`backdrop-blur-md rounded-lg p-6 border ${isPaused ? 'bg-red-500/10 border-red-500/40' : 'bg-white/10 border-white/20'}`}>
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">Emergency Pause</h3>
+          <p className="text-white/60 text-sm">
+            Blocks new circles, joins, loan requests and approvals. Repayments stay open.
+          </p>
+        </div>
+        <span className={`px-3 py-1 rounded text-sm font-semibold ${isPaused ? 'bg-red-500/30 text-red-200' : 'bg-green-500/20 text-green-300'}`}>
+          {isPaused ? 'Paused' : 'Live'}
+        </span>
+      </div>
+
+      {isPaused && activeReason && (
+        <p className="text-red-200 text-sm mb-3">Reason: {activeReason}</p>
+      )}
+
+      <form onSubmit={handleToggle} className="flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder={isPaused ? 'Why is it safe to resume?' : 'Why are you pausing?'}
+          className="flex-1 px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <button
+          type="submit"
+          disabled={isPending || isConfirming}
+          className={`px-6 py-3 rounded-lg font-semibold transition disabled:opacity-50 ${
+            isPaused ? 'bg-green-500/90 hover:bg-green-500 text-white' : 'bg-red-500/90 hover:bg-red-500 text-white'
+          }`}
+        >
+          {isPending || isConfirming ? 'Confirming...' : isPaused ? 'Unpause Protocol' : 'Pause Protocol'}
+        </button>
+      </form>
+
+      {history && history.length > 0 && (
+        <div className="mt-4 space-y-1">
+          {history.slice(0, 5).map(entry => (
+            <p key={entry.txHash} className="text-white/50 text-xs">
+              {entry.paused ? 'Paused' : 'Unpaused'} by {entry.account.slice(0, 6)}...{entry.account.slice(-4)}: {entry.reason}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Risk Parameters: edit tiers and scoring parameters, review a diff, then submit
+type TierDraft = { minScore: string; maxAmount: string; interestRate: string };
+type ParamKey = keyof RiskParams;
+
+const SECONDS_PER_DAY = 86400;
+
+type ParamUnit = 'days' | '%' | 'pts' | '% APR';
+
+const RISK_PARAM_FIELDS: { key: ParamKey; label: string; unit: ParamUnit }[] = [
+  { key: 'installmentInterval', label: 'Installment interval', unit: 'days' },
+  { key: 'defaultGracePeriod', label: 'Default grace period', unit: 'days' },
+  { key: 'onTimeWindow', label: 'On-time window', unit: 'days' },
+  { key: 'lateWindow', label: 'Late window', unit: 'days' },
+  { key: 'individualWeight', label: 'Individual score weight', unit: '%' },
+  { key: 'circleWeight', label: 'Circle score weight', unit: '%' },
+  { key: 'earlyBonus', label: 'Early repayment bonus', unit: 'pts' },
+  { key: 'onTimeBonus', label: 'On-time bonus', unit: 'pts' },
+  { key: 'latePenalty', label: 'Late repayment bonus', unit: 'pts' },
+  { key: 'defaultPenalty', label: 'Default penalty', unit: 'pts' },
+  { key: 'circleDefaultPenalty', label: 'Circle default penalty', unit: 'pts' },
+  { key: 'penaltyRate', label: 'Overdue penalty rate', unit: '% APR' },
+];
+
+// Rates are stored on-chain in basis points
+const formatRate = (bps: bigint) => (Number(bps) / 100).toString();
+const parseRate = (percent: string) => BigInt(Math.round(Number(percent) * 100));
+
+function toTierDrafts(tiers: readonly RiskTier[]): TierDraft[] {
+  return tiers.map(tier => ({
+    minScore: tier.minScore.toString(),
+    maxAmount: formatEther(tier.maxAmount),
+    interestRate: formatRate(tier.interestRate),
+  }));
+}
+
+function toParamDrafts(params: RiskParams): Record<ParamKey, string> {
+  return Object.fromEntries(
+    RISK_PARAM_FIELDS.map(({ key, unit }) => [
+      key,
+      unit === 'days'
+        ? (Number(params[key]) / SECONDS_PER_DAY).toString()
+        : unit === '% APR' ? formatRate(params[key]) : params[key].toString(),
+    ])
+  ) as Record<ParamKey, string>;
+}
+
+function parseTierDrafts(drafts: TierDraft[]): RiskTier[] {
+  return drafts.map(draft => ({
+    minScore: BigInt(Math.floor(Number(draft.minScore))),
+    maxAmount: parseEther(draft.maxAmount || '0'),
+    interestRate: parseRate(draft.interestRate),
+  }));
+}
+
+function parseParamDrafts(drafts: Record<ParamKey, string>): RiskParams {
+  return Object.fromEntries(
+    RISK_PARAM_FIELDS.map(({ key, unit }) => [
+      key,
+      unit === 'days'
+        ? BigInt(Math.round(Number(drafts[key]) * SECONDS_PER_DAY))
+        : unit === '% APR' ? parseRate(drafts[key]) : BigInt(Math.floor(Number(drafts[key]))),
+    ])
+  ) as RiskParams;
+}
+
+function formatParam(value: bigint, unit: ParamUnit) {
+  if (unit === 'days') return `${+(Number(value) / SECONDS_PER_DAY).toFixed(4)} days`;
+  if (unit === '% APR') return `${formatRate(value)}% APR`;
+  return unit === '%' ? `${value.toString()}%` : `${value.toString()} pts`;
+}
+
+function RiskParametersPanel() {
+  const { data: tiers, refetch: refetchTiers } = useRiskTiers();
+  const { data: params, refetch: refetchParams } = useRiskParams();
+  const { setTiers, isPending: isSettingTiers, isConfirming: isConfirmingTiers, isSuccess: tiersSuccess } = useSetRiskTiers();
+  const { setParams, isPending: isSettingParams, isConfirming: isConfirmingParams, isSuccess: paramsSuccess } = useSetRiskParams();
+
+  const [tierDrafts, setTierDrafts] = useState<TierDraft[] | null>(null);
+  const [paramDrafts, setParamDrafts] = useState<Record<ParamKey, string> | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  // Start editing from the on-chain values
+  useEffect(() => {
+    if (tiers && !tierDrafts) setTierDrafts(toTierDrafts(tiers));
+  }, [tiers, tierDrafts]);
+
+  useEffect(() => {
+    if (params && !paramDrafts) setParamDrafts(toParamDrafts(params));
+  }, [params, paramDrafts]);
+
+  useEffect(() => {
+    if (tiersSuccess) {
+      refetchTiers();
+      setTierDrafts(null);
+      setIsReviewing(false);
+    }
+  }, [tiersSuccess, refetchTiers]);
+
+  useEffect(() => {
+    if (paramsSuccess) {
+      refetchParams();
+      setParamDrafts(null);
+      setIsReviewing(false);
+    }
+  }, [paramsSuccess, refetchParams]);
+
+  if (!tiers || !params || !tierDrafts || !paramDrafts) {
+    return (
+      <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+        <h3 className="text-xl font-bold text-white mb-2">Risk Parameters</h3>
+        <p className="text-white/60 text-sm">Loading current parameters...</p>
+      </div>
+    );
+  }
+
+  const newTiers = parseTierDrafts(tierDrafts);
+  const newParams = parseParamDrafts(paramDrafts);
+
+  const tiersChanged = newTiers.length !== tiers.length || newTiers.some((tier, i) =>
+    tier.minScore !== tiers[i].minScore ||
+    tier.maxAmount !== tiers[i].maxAmount ||
+    tier.interestRate !== tiers[i].interestRate
+  );
+  const paramChanges = RISK_PARAM_FIELDS.filter(({ key }) => newParams[key] !== params[key]);
+
+  const updateTier = (index: number, field: keyof TierDraft, value: string) => {
+    setTierDrafts(tierDrafts.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const handleReview = () => {
+    if (newTiers[0]?.minScore !== BigInt(0)) {
+      alert('The first tier must start at score 0');
+      return;
+    }
+    if (newTiers.some((tier, i) => i > 0 && tier.minScore <= newTiers[i - 1].minScore)) {
+      alert('Score bands must be in ascending order');
+      return;
+    }
+    if (newParams.individualWeight + newParams.circleWeight !== BigInt(100)) {
+      alert('Individual and circle weights must add up to 100%');
+      return;
+    }
+    setIsReviewing(true);
+  };
+
+  const handleReset = () => {
+    setTierDrafts(toTierDrafts(tiers));
+    setParamDrafts(toParamDrafts(params));
+    setIsReviewing(false);
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm';
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Risk Parameters</h3>
+
+      {!isReviewing ? (
+        <>
+          {/* Tier table */}
+          <h4 className="text-white font-semibold mb-2">Credit Tiers</h4>
+          <p className="text-white/50 text-xs mb-2">
+            Max loans apply in each circle&apos;s asset (10 here means 10 POL or 10 USDC), capped per asset in the Asset Registry.
+          </p>
+          <div className="grid grid-cols-4 gap-2 text-white/60 text-xs mb-1">
+            <span>Min trust score</span>
+            <span>Max loan (POL)</span>
+            <span>APR (%)</span>
+            <span />
+          </div>
+          <div className="space-y-2 mb-2">
+            {tierDrafts.map((tier, i) => (
+              <div key={i} className="grid grid-cols-4 gap-2">
+                <input type="number" min="0" max="100" value={tier.minScore} disabled={i === 0}
+                  onChange={(e) => updateTier(i, 'minScore', e.target.value)} className={`${inputClass} disabled:opacity-50`} />
+                <input type="number" min="0" step="0.01" value={tier.maxAmount}
+                  onChange={(e) => updateTier(i, 'maxAmount', e.target.value)} className={inputClass} />
+                <input type="number" min="0" max="100" step="0.01" value={tier.interestRate}
+                  onChange={(e) => updateTier(i, 'interestRate', e.target.value)} className={inputClass} />
+                {i > 0 && (
+                  <button
+                    onClick={() => setTierDrafts(tierDrafts.filter((_, j) => j !== i))}
+                    className="px-3 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-xs transition border border-white/20"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setTierDrafts([...tierDrafts, { minScore: '', maxAmount: '', interestRate: '' }])}
+            className="text-white/60 hover:text-white text-sm transition mb-6"
+          >
+            + Add tier
+          </button>
+
+          {/* Other parameters */}
+          <h4 className="text-white font-semibold mb-2">Timing, Penalty Rate, Weights & Score Adjustments</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3 mb-6">
+            {RISK_PARAM_FIELDS.map(({ key, label, unit }) => (
+              <label key={key} className="block">
+                <span className="text-white/60 text-xs">{label} ({unit})</span>
+                <input
+                  type="number"
+                  min="0"
+                  step={unit === 'days' ? '0.0001' : unit === '% APR' ? '0.01' : '1'}
+                  value={paramDrafts[key]}
+                  onChange={(e) => setParamDrafts({ ...paramDrafts, [key]: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleReview}
+              disabled={!tiersChanged && paramChanges.length === 0}
+              className="flex-1 bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+            >
+              Review Changes
+            </button>
+            <button
+              onClick={handleReset}
+              className="px-6 bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-semibold transition border border-white/20"
+            >
+              Reset
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {/* Diff preview */}
+          {tiersChanged && (
+            <div className="mb-6">
+              <h4 className="text-white font-semibold mb-2">Credit Tiers</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-white/60 text-xs mb-1">Current</p>
+                  {tiers.map((tier, i) => (
+                    <p key={i} className="text-red-300/80 text-sm font-mono">
+                      {tier.minScore.toString()}+ · {formatEther(tier.maxAmount)} POL · {formatRate(tier.interestRate)}% APR
+                    </p>
+                  ))}
+                </div>
+                <div>
+                  <p className="text-white/60 text-xs mb-1">New</p>
+                  {newTiers.map((tier, i) => {
+                    const old = tiers[i];
+                    const same = old && old.minScore === tier.minScore && old.maxAmount === tier.maxAmount && old.interestRate === tier.interestRate;
+                    return (
+                      <p key={i} className={`text-sm font-mono ${same ? 'text-white/60' : 'text-green-300'}`}>
+                        {tier.minScore.toString()}+ · {formatEther(tier.maxAmount)} POL · {formatRate(tier.interestRate)}% APR
+                      </p>
+                    );
+                  })}
+                </div>
+              </div>
+              <button
+                onClick={() => setTiers(newTiers)}
+                disabled={isSettingTiers || isConfirmingTiers}
+                className="mt-3 w-full bg-white/90 hover:bg-white text-black py-2 rounded-lg font-semibold transition disabled:opacity-50"
+              >
+                {isSettingTiers || isConfirmingTiers ? 'Submitting...' : 'Submit Tier Changes'}
+              </button>
+            </div>
+          )}
+
+          {paramChanges.length > 0 && (
+            <div className="mb-6">
+              <h4 className="text-white font-semibold mb-2">Parameters</h4>
+              <div className="space-y-1">
+                {paramChanges.map(({ key, label, unit }) => (
+                  <p key={key} className="text-sm">
+                    <span className="text-white/80">{label}: </span>
+                    <span className="text-red-300/80 line-through">{formatParam(params[key], unit)}</span>
+                    <span className="text-white/60"> → </span>
+                    <span className="text-green-300">{formatParam(newParams[key], unit)}</span>
+                  </p>
+                ))}
+              </div>
+              <button
+                onClick={() => setParams(newParams)}
+                disabled={isSettingParams || isConfirmingParams}
+                className="mt-3 w-full bg-white/90 hover:bg-white text-black py-2 rounded-lg font-semibold transition disabled:opacity-50"
+              >
+                {isSettingParams || isConfirmingParams ? 'Submitting...' : 'Submit Parameter Changes'}
+              </button>
+            </div>
+          )}
+
+          <button
+            onClick={() => setIsReviewing(false)}
+            className="w-full bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-semibold transition border border-white/20"
+          >
+            Back to Editing
+          </button>
+        </>
+      )}
     </div>
   );
 }
 
-// Approved Loans
-function ApprovedLoans({ loanIds, onSuccess }: { loanIds: number[]; onSuccess: () => void }) {
+// Asset Registry
+function AssetRegistryPanel({ isAdmin, isRiskManager }: { isAdmin: boolean; isRiskManager: boolean }) {
+  const { data: assets, refetch } = useAssets();
+
   return (
     <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
-      <h3 className="text-xl font-bold text-white mb-4">Ready to Disburse</h3>
-      
-      <div className="space-y-3 max-h-96 overflow-y-auto">
-        {loanIds.length === 0 ? (
-          <p className="text-white/60 text-center py-8 text-sm">No loans yet</p>
-        ) : (
-          loanIds.map(id => <ApprovedLoanCard key={id} loanId={id} onSuccess={onSuccess} />)
+      <h3 className="text-xl font-bold text-white mb-2">Asset Registry</h3>
+      <p className="text-white/60 text-sm mb-4">
+        Tokens circles can stake and borrow. Each has its own liquidity pool, minimum bond and per-loan cap.
+      </p>
+
+      {!assets ? (
+        <p className="text-white/60 text-sm">Loading assets...</p>
+      ) : (
+        <div className="space-y-3 mb-6">
+          {assets.map(asset => (
+            <AssetRow
+              key={asset.address}
+              asset={asset}
+              isAdmin={isAdmin}
+              isRiskManager={isRiskManager}
+              onSuccess={refetch}
+            />
+          ))}
+        </div>
+      )}
+
+      {isAdmin && <AddAssetForm onSuccess={refetch} />}
+    </div>
+  );
+}
+
+function AssetRow({
+  asset,
+  isAdmin,
+  isRiskManager,
+  onSuccess,
+}: {
+  asset: ListedAsset;
+  isAdmin: boolean;
+  isRiskManager: boolean;
+  onSuccess: () => void;
+}) {
+  const { data: poolStats } = usePoolStats(asset.address);
+  const { setAssetEnabled, isPending: isToggling, isConfirming: isConfirmingToggle, isSuccess: toggleSuccess } = useSetAssetEnabled();
+  const { setAssetLimits, isPending: isSaving, isConfirming: isConfirmingLimits, isSuccess: limitsSuccess } = useSetAssetLimits();
+  const [isEditing, setIsEditing] = useState(false);
+  const [minStake, setMinStake] = useState('');
+  const [maxLoan, setMaxLoan] = useState('');
+
+  const native = isNativeAsset(asset);
+
+  useEffect(() => {
+    if (toggleSuccess || limitsSuccess) {
+      setIsEditing(false);
+      onSuccess();
+    }
+  }, [toggleSuccess, limitsSuccess, onSuccess]);
+
+  const startEditing = () => {
+    setMinStake(formatUnits(asset.minStake, asset.decimals));
+    setMaxLoan(formatUnits(asset.maxLoanAmount ?? BigInt(0), asset.decimals));
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    try {
+      const newMinStake = parseAmount(minStake, asset);
+      if (newMinStake === BigInt(0)) {
+        alert('Minimum stake must be above 0');
+        return;
+      }
+      setAssetLimits(asset.address, newMinStake, parseAmount(maxLoan, asset));
+    } catch (error) {
+      console.error('Error updating limits:', error);
+      alert('Enter valid amounts');
+    }
+  };
+
+  const handleToggle = () => {
+    const action = asset.enabled ? 'Disable' : 'Enable';
+    if (!window.confirm(`${action} ${asset.symbol}? ${asset.enabled ? 'Existing loans can still be repaid.' : ''}`)) return;
+    setAssetEnabled(asset.address, !asset.enabled);
+  };
+
+  return (
+    <div className="bg-white/5 p-3 rounded-lg border border-white/10">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <p className="text-white font-semibold text-base">
+            {asset.symbol}
+            <span className={`ml-2 text-xs ${asset.enabled ? 'text-green-300' : 'text-red-300'}`}>
+              {asset.enabled ? '● Enabled' : '○ Disabled'}
+            </span>
+          </p>
+          {!native && (
+            <p className="text-white/60 text-xs font-mono">
+              Token {asset.address.slice(0, 6)}...{asset.address.slice(-4)} · pool {asset.pool.slice(0, 6)}...{asset.pool.slice(-4)}
+            </p>
+          )}
+          <p className="text-white/80 text-sm mt-1">
+            Pool {poolStats ? formatAmount(poolStats[0], asset) : '...'} · min bond {formatAmount(asset.minStake, asset)}
+            {asset.maxLoanAmount !== undefined && <> · max loan {formatAmount(asset.maxLoanAmount, asset)}</>}
+          </p>
+        </div>
+        {!native && (
+          <div className="flex gap-2 shrink-0">
+            {isRiskManager && !isEditing && (
+              <button
+                onClick={startEditing}
+                className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white rounded-lg text-xs transition border border-white/20"
+              >
+                Edit Limits
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                onClick={handleToggle}
+                disabled={isToggling || isConfirmingToggle}
+                className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white rounded-lg text-xs transition border border-white/20 disabled:opacity-50"
+              >
+                {isToggling || isConfirmingToggle ? 'Updating...' : asset.enabled ? 'Disable' : 'Enable'}
+              </button>
+            )}
+          </div>
         )}
       </div>
+
+      {isEditing && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mt-3">
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={minStake}
+            onChange={(e) => setMinStake(e.target.value)}
+            placeholder={`Min bond (${asset.symbol})`}
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={maxLoan}
+            onChange={(e) => setMaxLoan(e.target.value)}
+            placeholder={`Max loan (${asset.symbol})`}
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isConfirmingLimits}
+              className="flex-1 bg-white/90 hover:bg-white text-black py-2 rounded-lg font-semibold text-sm transition disabled:opacity-50"
+            >
+              {isSaving || isConfirmingLimits ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-3 bg-white/10 hover:bg-white/20 text-white py-2 rounded-lg text-sm transition border border-white/20"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
-function ApprovedLoanCard({ loanId, onSuccess }: { loanId: number; onSuccess: () => void }) {
-  const { data: loanDetails } = useLoanDetails(BigInt(loanId));
-  const { disburseLoan, isPending, isSuccess } = useDisburseLoan();
+function AddAssetForm({ onSuccess }: { onSuccess: () => void }) {
+  const [token, setToken] = useState('');
+  const [pool, setPool] = useState('');
+  const [minStake, setMinStake] = useState('');
+  const [maxLoan, setMaxLoan] = useState('');
+  const { addAsset, isPending, isConfirming, isSuccess } = useAddAsset();
+
+  const tokenAddress = isAddress(token) ? token : undefined;
+  const { data: decimals } = useTokenDecimals(tokenAddress);
 
   useEffect(() => {
     if (isSuccess) {
+      setToken('');
+      setPool('');
+      setMinStake('');
+      setMaxLoan('');
       onSuccess();
-      alert(`Loan ${loanId} disbursed!`);
     }
-  }, [isSuccess, onSuccess, loanId]);
+  }, [isSuccess, onSuccess]);
 
-  if (!loanDetails || !loanDetails[4] || loanDetails[5]) return null; // Skip if not approved or already disbursed
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tokenAddress || !isAddress(pool)) {
+      alert('Enter valid token and pool addresses');
+      return;
+    }
+    if (decimals === undefined) {
+      alert('Could not read token decimals');
+      return;
+    }
 
-  const amount = formatEther(loanDetails[1]);
+    try {
+      const asset = { address: tokenAddress, symbol: '', decimals };
+      addAsset(tokenAddress, pool, parseAmount(minStake, asset), parseAmount(maxLoan, asset));
+    } catch (error) {
+      console.error('Error adding asset:', error);
+      alert('Enter valid amounts');
+    }
+  };
 
   return (
-    <div className="bg-white/5 p-3 rounded-lg border border-white/10">
-      <div className="flex justify-between items-center mb-2">
-        <p className="text-white font-semibold text-sm">Loan {loanId}</p>
-        <p className="text-white text-sm">{amount} POL</p>
+    <form onSubmit={handleSubmit} className="border-t border-white/10 pt-4">
+      <h4 className="text-white font-semibold mb-1">Add Asset</h4>
+      <p className="text-white/60 text-xs mb-3">
+        Deploy a LiquidityPool for the token first. Amounts are in whole tokens{decimals !== undefined && ` (${decimals} decimals)`}.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-3">
+        <input
+          type="text"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Token address (0x...)"
+          className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm font-mono"
+          required
+        />
+        <input
+          type="text"
+          value={pool}
+          onChange={(e) => setPool(e.target.value)}
+          placeholder="Pool address (0x...)"
+          className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm font-mono"
+          required
+        />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={minStake}
+          onChange={(e) => setMinStake(e.target.value)}
+          placeholder="Min bond"
+          className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          required
+        />
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={maxLoan}
+          onChange={(e) => setMaxLoan(e.target.value)}
+          placeholder="Max loan"
+          className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm"
+          required
+        />
       </div>
-      <p className="text-white/60 text-xs mb-3 truncate">{loanDetails[7]}</p>
       <button
-        onClick={() => disburseLoan(BigInt(loanId), amount)}
-        disabled={isPending}
-        className="w-full bg-blue-500/90 hover:bg-blue-500 text-white py-2 rounded-lg font-medium text-sm transition disabled:opacity-50"
+        type="submit"
+        disabled={isPending || isConfirming}
+        className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
       >
-        {isPending ? 'Disbursing...' : 'Disburse'}
+        {isPending || isConfirming ? 'Adding...' : 'Add Asset'}
       </button>
+    </form>
+  );
+}
+
+// Role Management
+const ROLE_LABELS: Record<RoleName, string> = {
+  LOAN_OFFICER: 'Loan Officer',
+  TREASURER: 'Treasurer',
+  RISK_MANAGER: 'Risk Manager',
+  PAUSER: 'Pauser',
+};
+
+function RoleManagement() {
+  const [account, setAccount] = useState('');
+  const [role, setRole] = useState<RoleName>('LOAN_OFFICER');
+  const { data: roleMembers, refetch } = useRoleMembers();
+  const { grantRole, isPending: isGranting, isSuccess: grantSuccess } = useGrantRole();
+  const { revokeRole, isPending: isRevoking, isSuccess: revokeSuccess } = useRevokeRole();
+
+  useEffect(() => {
+    if (grantSuccess || revokeSuccess) {
+      refetch();
+      setAccount('');
+    }
+  }, [grantSuccess, revokeSuccess, refetch]);
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isAddress(account)) {
+      alert('Please enter a valid address');
+      return;
+    }
+    grantRole(role, account);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Roles</h3>
+
+      <form onSubmit={handleGrant} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <input
+          type="text"
+          value={account}
+          onChange={(e) => setAccount(e.target.value)}
+          placeholder="Account address (0x...)"
+          className="md:col-span-2 px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as RoleName)}
+          className="px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white"
+        >
+          {(Object.keys(ROLES) as RoleName[]).map(name => (
+            <option key={name} value={name} className="bg-black">{ROLE_LABELS[name]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isGranting}
+          className="bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {isGranting ? 'Granting...' : 'Grant Role'}
+        </button>
+      </form>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {roleMembers?.map(({ role: name, accounts }) => (
+          <div key={name} className="bg-white/5 p-3 rounded-lg border border-white/10">
+            <p className="text-white font-semibold text-sm mb-2">{ROLE_LABELS[name]}</p>
+            {accounts.length === 0 ? (
+              <p className="text-white/40 text-xs">No holders</p>
+            ) : (
+              accounts.map(holder => (
+                <div key={holder} className="flex justify-between items-center py-1">
+                  <span className="text-white/80 text-xs font-mono">{holder.slice(0, 6)}...{holder.slice(-4)}</span>
+                  <button
+                    onClick={() => revokeRole(name, holder)}
+                    disabled={isRevoking}
+                    className="px-2 py-0.5 bg-red-500/80 hover:bg-red-500 text-white rounded text-xs font-medium transition disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Account Controls (freeze / unfreeze)
+function AccountControls() {
+  const [account, setAccount] = useState('');
+  const [reason, setReason] = useState('');
+  const { freezeAccount, isPending: isFreezing, isSuccess: freezeSuccess } = useFreezeAccount();
+  const { unfreezeAccount, isPending: isUnfreezing, isSuccess: unfreezeSuccess } = useUnfreezeAccount();
+
+  useEffect(() => {
+    if (freezeSuccess || unfreezeSuccess) {
+      setAccount('');
+      setReason('');
+    }
+  }, [freezeSuccess, unfreezeSuccess]);
+
+  const handleFreeze = () => {
+    if (!isAddress(account)) {
+      alert('Please enter a valid address');
+      return;
+    }
+    if (!reason.trim()) {
+      alert('Please enter a reason');
+      return;
+    }
+    freezeAccount(account, reason.trim());
+  };
+
+  const handleUnfreeze = () => {
+    if (!isAddress(account)) {
+      alert('Please enter a valid address');
+      return;
+    }
+    unfreezeAccount(account);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Account Controls</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <input
+          type="text"
+          value={account}
+          onChange={(e) => setAccount(e.target.value)}
+          placeholder="Member address (0x...)"
+          className="px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (for freezing)"
+          className="px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <button
+          onClick={handleFreeze}
+          disabled={isFreezing}
+          className="bg-red-500/90 hover:bg-red-500 text-white py-3 rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {isFreezing ? 'Freezing...' : 'Freeze'}
+        </button>
+        <button
+          onClick={handleUnfreeze}
+          disabled={isUnfreezing}
+          className="bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-semibold transition border border-white/20 disabled:opacity-50"
+        >
+          {isUnfreezing ? 'Unfreezing...' : 'Unfreeze'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Address Screening: blocklist managed here, mixer and sanctions lists loaded from files
+function AddressScreening() {
+  const [account, setAccount] = useState('');
+  const [reason, setReason] = useState('');
+  const { data, isLoading, refetch, signed, unlock, signError } = useBlocklist();
+  const { blockAddress, unblockAddress, isUpdating, error } = useUpdateBlocklist();
+
+  const handleBlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isAddress(account)) {
+      alert('Please enter a valid address');
+      return;
+    }
+    if (!reason.trim()) {
+      alert('Please enter a reason');
+      return;
+    }
+    if (await blockAddress(account, reason.trim())) {
+      setAccount('');
+      setReason('');
+      refetch();
+    }
+  };
+
+  const handleUnblock = async (address: string) => {
+    if (await unblockAddress(address)) refetch();
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-2">Address Screening</h3>
+      <p className="text-white/60 text-sm mb-4">
+        The app refuses listed addresses when they join circles, borrow or deposit liquidity, and the risk oracle will not approve their loans. Viewing and changing the list is signed with your wallet.
+      </p>
+
+      <form onSubmit={handleBlock} className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input
+          type="text"
+          value={account}
+          onChange={(e) => setAccount(e.target.value)}
+          placeholder="Address to block (0x...)"
+          className="px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40 font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason"
+          className="px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <button
+          type="submit"
+          disabled={isUpdating}
+          className="bg-red-500/90 hover:bg-red-500 text-white py-3 rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {isUpdating ? 'Signing...' : 'Block Address'}
+        </button>
+      </form>
+
+      {error && <p className="text-red-400 text-sm mt-3">{error}</p>}
+
+      {!signed ? (
+        <div className="mt-6">
+          <button
+            onClick={unlock}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm font-semibold transition border border-white/20"
+          >
+            Sign to View Blocklist
+          </button>
+          {signError && <p className="text-red-400 text-sm mt-3">{signError}</p>}
+        </div>
+      ) : (
+        <>
+          <div className="mt-6">
+            <h4 className="text-white font-semibold mb-2">Blocklist</h4>
+            {isLoading ? (
+              <p className="text-white/60 text-sm">Loading...</p>
+            ) : !data?.entries.length ? (
+              <p className="text-white/60 text-sm">No blocked addresses</p>
+            ) : (
+              <div className="space-y-2">
+                {data.entries.map(entry => (
+                  <div key={entry.address} className="bg-white/5 p-3 rounded-lg border border-white/10 flex justify-between items-center">
+                    <div>
+                      <p className="text-white font-mono text-sm">{entry.address}</p>
+                      <p className="text-white/60 text-sm">
+                        {entry.reason} · by {entry.addedBy.slice(0, 6)}...{entry.addedBy.slice(-4)}
+                        {entry.createdAt && ` · ${new Date(entry.createdAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleUnblock(entry.address)}
+                      disabled={isUpdating}
+                      className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm font-semibold transition border border-white/20 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6">
+            <h4 className="text-white font-semibold mb-2">List Files</h4>
+            {!data?.lists.length ? (
+              <p className="text-white/60 text-sm">No list files loaded (see SCREENING_LISTS_DIR)</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {data.lists.map(list => (
+                  <div key={list.file} className="bg-white/5 p-3 rounded-lg border border-white/10">
+                    <p className="text-white font-mono text-sm">{list.file}</p>
+                    <p className="text-white/60 text-sm capitalize">{list.list} · {list.count} addresses</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Defaults & Bond Slashing
+function DefaultHistory() {
+  const { data: defaults, isLoading } = useDefaultHistory();
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Defaults & Bond Slashing</h3>
+
+      {isLoading ? (
+        <p className="text-white/60 text-center py-8 text-sm">Loading defaults...</p>
+      ) : !defaults || defaults.length === 0 ? (
+        <p className="text-white/60 text-center py-8 text-sm">No defaults</p>
+      ) : (
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {defaults.map(item => (
+            <DefaultCard key={item.txHash} item={item} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type DefaultRecord = NonNullable<ReturnType<typeof useDefaultHistory>['data']>[number];
+
+// Amounts are in the defaulted loan's asset
+function DefaultCard({ item }: { item: DefaultRecord }) {
+  const asset = useLoanAsset(item.loanId);
+  if (!asset) return null;
+
+  return (
+    <div className="bg-white/5 p-3 rounded-lg border border-white/10">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-white font-semibold text-base">Loan {Number(item.loanId)}</p>
+        <p className="text-white text-sm">
+          {formatUnits(item.recovered, asset.decimals)} / {formatAmount(item.outstandingPrincipal, asset)} recovered
+        </p>
+      </div>
+      <p className="text-white/60 text-xs font-mono mb-2">
+        Borrower {item.borrower.slice(0, 6)}...{item.borrower.slice(-4)} · triggered by {item.triggeredBy.slice(0, 6)}...{item.triggeredBy.slice(-4)}
+      </p>
+      {item.slashes.map(slash => (
+        <div key={slash.member} className="flex justify-between text-sm text-white/80">
+          <span className="font-mono">
+            {slash.member.slice(0, 6)}...{slash.member.slice(-4)}
+            {slash.member === item.borrower && ' (defaulter)'}
+          </span>
+          <span>-{formatAmount(slash.amount, asset)} (bond left {formatUnits(slash.remainingBond, asset.decimals)})</span>
+        </div>
+      ))}
     </div>
   );
 }
 
 // All Loans Table
-function AllLoansTable({ loanIds }: { loanIds: number[] }) {
+const LOAN_STATUS_LABELS: Record<IndexedLoanStatus, string> = {
+  pending: '○ Pending',
+  approved: '✓ Approved',
+  disbursed: '● Disbursed',
+  repaid: '✓ Repaid',
+  defaulted: '✕ Defaulted',
+};
+
+function AllLoansTable({ onSuccess }: { onSuccess: () => void }) {
+  const [status, setStatus] = useState<IndexedLoanStatus | ''>('');
+  const [page, setPage] = useState(1);
+  const { data: loans, refetch } = useIndexedLoans({ status: status || undefined, page, pageSize: 20 });
+
+  const handleDefault = useCallback(() => {
+    refetch();
+    onSuccess();
+  }, [refetch, onSuccess]);
+
   return (
     <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
-      <h3 className="text-xl font-bold text-white mb-4">All Loans</h3>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold text-white">All Loans</h3>
+        <select
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as IndexedLoanStatus | '');
+            setPage(1);
+          }}
+          className="px-3 py-1 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none focus:border-white/40"
+        >
+          <option value="" className="bg-gray-900">All statuses</option>
+          {(Object.keys(LOAN_STATUS_LABELS) as IndexedLoanStatus[]).map(value => (
+            <option key={value} value={value} className="bg-gray-900">{LOAN_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
       
-      {loanIds.length === 0 ? (
-        <p className="text-white/60 text-center py-8">No loans yet</p>
+      {!loans || loans.items.length === 0 ? (
+        <p className="text-white/60 text-center py-8">{loans ? 'No loans yet' : 'Loading loans...'}</p>
       ) : (
         <div className="overflow-x-auto">
           <table className="w-full text-base">
@@ -558,34 +2054,55 @@ function AllLoansTable({ loanIds }: { loanIds: number[] }) {
                 <th className="text-left text-white/60 pb-3">Borrower</th>
                 <th className="text-left text-white/60 pb-3">Amount</th>
                 <th className="text-left text-white/60 pb-3">Status</th>
+                <th className="text-left text-white/60 pb-3">Action</th>
               </tr>
             </thead>
             <tbody>
-              {loanIds.map(id => (
-                <LoanRow key={id} loanId={id} />
+              {loans.items.map(loan => (
+                <LoanRow key={loan.id} loan={loan} onSuccess={handleDefault} />
               ))}
             </tbody>
           </table>
         </div>
       )}
+
+      {loans && <Pagination page={page} pageSize={loans.pageSize} total={loans.total} onChange={setPage} />}
     </div>
   );
 }
 
-function LoanRow({ loanId }: { loanId: number }) {
-  const { data: loanDetails } = useLoanDetails(BigInt(loanId));
+function LoanRow({ loan, onSuccess }: { loan: IndexedLoan; onSuccess: () => void }) {
+  const loanId = loan.id;
+  // Only outstanding loans can go into default, so only they need a chain read
+  const { data: canTriggerDefault } = useCanTriggerDefault(loan.status === 'disbursed' ? BigInt(loanId) : undefined);
+  const { penalizeDefault, isPending, isConfirming, isSuccess } = usePenalizeDefault();
 
-  if (!loanDetails) return null;
+  useEffect(() => {
+    if (isSuccess) {
+      onSuccess();
+    }
+  }, [isSuccess, onSuccess]);
 
   return (
     <tr className="border-b border-white/10">
       <td className="py-3 text-white">{loanId}</td>
       <td className="py-3 text-white font-mono text-sm">
-        {loanDetails[0].slice(0, 6)}...{loanDetails[0].slice(-4)}
+        {loan.borrower.slice(0, 6)}...{loan.borrower.slice(-4)}
       </td>
-      <td className="py-3 text-white">{formatEther(loanDetails[1])} POL</td>
+      <td className="py-3 text-white">{formatAmount(BigInt(loan.amount), loan.asset)}</td>
       <td className="py-3 text-white text-sm">
-        {loanDetails[6] ? '✓ Repaid' : loanDetails[5] ? '● Disbursed' : loanDetails[4] ? '✓ Approved' : '○ Pending'}
+        {LOAN_STATUS_LABELS[loan.status]}
+      </td>
+      <td className="py-3">
+        {canTriggerDefault && !isSuccess && (
+          <button
+            onClick={() => penalizeDefault(BigInt(loanId))}
+            disabled={isPending || isConfirming}
+            className="px-3 py-1 bg-red-500/90 hover:bg-red-500 text-white rounded-lg text-sm font-medium transition disabled:opacity-50"
+          >
+            {isPending || isConfirming ? 'Slashing...' : 'Trigger Default'}
+          </button>
+        )}
       </td>
     </tr>
   );
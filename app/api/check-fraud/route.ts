@@ -1,10 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzeFraudWithGemini } from '@/lib/fraudDetection';
+import { analyzeLoanRisk } from '@/lib/riskModel';
+import { applyFraudSignals, evaluateFraudSignals } from '@/lib/fraudSignals';
 import { 
   getUserFraudProfile, 
-  createUserFraudProfile,
-  updateFraudScore,
-  saveLoanFraudCheck 
+  createUserFraudProfile
 } from '@/lib/fraudDatabase';
 
 export async function POST(request: NextRequest) {
@@ -20,8 +19,7 @@ export async function POST(request: NextRequest) {
       loanPurpose,
       previousLoans,
       successfulRepayments,
-      circleCount,
-      loanRequestId
+      circleCount
     } = body;
 
     // Validate required fields
@@ -39,10 +37,10 @@ export async function POST(request: NextRequest) {
       userProfile = await getUserFraudProfile(walletAddress);
     }
 
-    // Prepare data for Gemini analysis
+    // Prepare data for the risk model
     const loanData = {
       walletAddress,
-      walletAge: walletAge || 0,
+      walletAge: typeof walletAge === 'number' ? walletAge : undefined,
       totalTransactions: totalTransactions || 0,
       requestedAmount: Number(requestedAmount),
       maxEligible: Number(maxEligible),
@@ -53,42 +51,29 @@ export async function POST(request: NextRequest) {
       circleCount: circleCount || 0,
     };
 
-    // Analyze with Gemini AI
-    const fraudAnalysis = await analyzeFraudWithGemini(loanData);
+    // Score with the configured risk model and the fraud rules. Always a
+    // preview: fraud events are only logged for on-chain loans the oracle scores
+    const [modelAnalysis, signals] = await Promise.all([
+      analyzeLoanRisk(loanData),
+      evaluateFraudSignals(loanData),
+    ]);
+    const fraudAnalysis = applyFraudSignals(modelAnalysis, signals);
 
-    // Update fraud score in database
-    await updateFraudScore(
-      walletAddress, 
-      fraudAnalysis.fraudScore,
-      'Gemini AI fraud analysis'
-    );
-
-    // Save loan fraud check
-    if (loanRequestId) {
-      await saveLoanFraudCheck({
-        loanRequestId,
-        walletAddress,
-        requestedAmount: Number(requestedAmount),
-        maxEligible: Number(maxEligible),
-        loanPurpose: loanPurpose || 'Not specified',
-        fraudScore: fraudAnalysis.fraudScore,
-        riskLevel: fraudAnalysis.riskLevel,
-        approvalStatus: fraudAnalysis.recommendation === 'approve' ? 'approved' : 
-                       fraudAnalysis.recommendation === 'block' ? 'denied' : 'review',
-        denialReason: fraudAnalysis.recommendation === 'block' ? fraudAnalysis.explanation : undefined,
-        geminiAnalysis: fraudAnalysis,
-      });
-    }
+    // Nothing is stored: the inputs are the caller's, so only the risk oracle
+    // (/api/loan-approvals) saves loan checks, scored from on-chain data
 
     return NextResponse.json({
       success: true,
-      fraudScore: fraudAnalysis.fraudScore,
+      trustScore: fraudAnalysis.trustScore,
+      riskScore: fraudAnalysis.riskScore,
       riskLevel: fraudAnalysis.riskLevel,
+      scoreVersion: fraudAnalysis.scoreVersion,
       recommendation: fraudAnalysis.recommendation,
       explanation: fraudAnalysis.explanation,
       riskFactors: fraudAnalysis.riskFactors,
       trustFactors: fraudAnalysis.trustFactors,
       confidence: fraudAnalysis.confidence,
+      model: fraudAnalysis.model,
     });
 
   } catch (error) {
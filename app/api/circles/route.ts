@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { parsePagination, queryCircles } from '@/lib/indexer';
+
+/**
+ * Indexed circles with their members, most recent first.
+ * Filters: ?active=true|false&member=0x...
+ * Paging: ?page=1&pageSize=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const pagination = parsePagination(searchParams);
+    if (!pagination) {
+      return NextResponse.json(
+        { error: 'Invalid page or pageSize' },
+        { status: 400 }
+      );
+    }
+
+    const active = searchParams.get('active');
+    if (active && active !== 'true' && active !== 'false') {
+      return NextResponse.json(
+        { error: 'active must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const member = searchParams.get('member');
+    if (member && !isAddress(member)) {
+      return NextResponse.json(
+        { error: 'Invalid member address' },
+        { status: 400 }
+      );
+    }
+
+    const result = await queryCircles(
+      {
+        active: active ? active === 'true' : undefined,
+        member: member || undefined,
+      },
+      pagination.page,
+      pagination.pageSize
+    );
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('List circles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list circles' },
+      { status: 500 }
+    );
+  }
+}
@@ -24,11 +24,12 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       exists: true,
-      fraudScore: fraudProfile.fraudScore,
+      trustScore: fraudProfile.trustScore,
+      riskScore: fraudProfile.riskScore,
       riskLevel: fraudProfile.riskLevel,
+      scoreVersion: fraudProfile.scoreVersion,
       isVerified: fraudProfile.isVerified,
       isFlagged: fraudProfile.isFlagged,
-      verificationBonus: fraudProfile.verificationBonus,
       lastChecked: fraudProfile.lastFraudCheck,
     });
 
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { erc20Abi, formatUnits, zeroAddress } from 'viem';
+import { LOAN_ORACLE_ADDRESS } from '@/lib/contract';
+import { publicClient } from '@/lib/publicClient';
+import { getTrustCircles, readLoan } from '@/lib/sdk';
+import { analyzeLoanRisk } from '@/lib/riskModel';
+import { applyFraudSignals, evaluateFraudSignals } from '@/lib/fraudSignals';
+import { getUserFraudProfile, getLoanFraudCheck, saveLoanFraudCheck } from '@/lib/fraudDatabase';
+import { AUTO_APPROVE_MIN_SCORE, isOracleConfigured, signLoanApproval } from '@/lib/loanOracle';
+import { isNativeAsset } from '@/lib/assets';
+import { screenAndRecord } from '@/lib/screening';
+import { LoanFraudCheck, LoanRiskInput } from '@/lib/types/fraud';
+
+type Decision = 'approve' | 'review' | 'block';
+
+// Fraud checks store the outcome; the API speaks in oracle recommendations
+function toDecision(check: LoanFraudCheck): Decision {
+  return check.approvalStatus === 'approved' ? 'approve' : check.approvalStatus === 'denied' ? 'block' : 'review';
+}
+
+function parseLoanId(value: string) {
+  return /^\d+$/.test(value) && value !== '0' ? BigInt(value) : null;
+}
+
+// Admin dashboard: the oracle's decision for a loan, if it has scored it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { loanId: string } }
+) {
+  try {
+    if (!parseLoanId(params.loanId)) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const check = await getLoanFraudCheck(params.loanId);
+
+    if (!check) {
+      return NextResponse.json(
+        { error: 'Loan has not been scored' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      loanId: params.loanId,
+      decision: toDecision(check),
+      trustScore: check.trustScore,
+      riskScore: check.riskScore,
+      riskLevel: check.riskLevel,
+      explanation: check.geminiAnalysis?.explanation,
+    });
+
+  } catch (error) {
+    console.error('Get loan approval error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get loan approval' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Risk oracle: score a pending loan from on-chain data and, if it is low
+ * risk, sign an attestation the borrower submits to LoanOracle to have the
+ * loan approved and disbursed. Each loan is scored once; later calls reuse
+ * the stored decision and only refresh the signature.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { loanId: string } }
+) {
+  try {
+    const loanId = parseLoanId(params.loanId);
+    if (!loanId) {
+      return NextResponse.json(
+        { error: 'Invalid loan ID' },
+        { status: 400 }
+      );
+    }
+
+    const { borrower, amount, approved, purpose, defaulted, asset } = await readLoan(publicClient, loanId);
+
+    if (borrower === zeroAddress) {
+      return NextResponse.json(
+        { error: 'Loan not found' },
+        { status: 404 }
+      );
+    }
+
+    if (approved || defaulted) {
+      return NextResponse.json(
+        { error: 'Loan is no longer pending' },
+        { status: 409 }
+      );
+    }
+
+    let check = await getLoanFraudCheck(params.loanId);
+
+    if (!check) {
+      const trustCircles = getTrustCircles(publicClient);
+      const [stats, userLoans, totalTransactions, profile, decimals] = await Promise.all([
+        trustCircles.read.getUserStats([borrower]),
+        trustCircles.read.getUserLoans([borrower]),
+        publicClient.getTransactionCount({ address: borrower }),
+        getUserFraudProfile(borrower),
+        isNativeAsset(asset)
+          ? Promise.resolve(18)
+          : publicClient.readContract({ address: asset, abi: erc20Abi, functionName: 'decimals' }),
+      ]);
+
+      const [circleId, , , maxLoanAmount, , , , loansCompleted] = stats;
+      const requestedAmount = Number(formatUnits(amount, decimals));
+      const maxEligible = Number(formatUnits(maxLoanAmount, decimals));
+
+      // Wallet age is not available on-chain, so it is left out (no points, no new_wallet signal)
+      const loanData: LoanRiskInput = {
+        walletAddress: borrower,
+        totalTransactions,
+        requestedAmount,
+        maxEligible,
+        loanPurpose: purpose,
+        previousLoans: userLoans.length - 1, // Excluding this request
+        successfulRepayments: Number(loansCompleted),
+        hasVerification: profile?.isVerified || false,
+        circleCount: circleId > BigInt(0) ? 1 : 0,
+      };
+
+      const [modelAnalysis, signals] = await Promise.all([
+        analyzeLoanRisk(loanData),
+        evaluateFraudSignals(loanData, params.loanId),
+      ]);
+      const fraudAnalysis = applyFraudSignals(modelAnalysis, signals);
+
+      // The model's recommendation alone is not enough to auto-approve
+      const autoApprove = fraudAnalysis.recommendation === 'approve' && fraudAnalysis.trustScore >= AUTO_APPROVE_MIN_SCORE;
+
+      const newCheck: Omit<LoanFraudCheck, 'checkedAt'> = {
+        loanRequestId: params.loanId,
+        source: 'oracle',
+        walletAddress: borrower.toLowerCase(),
+        requestedAmount,
+        maxEligible,
+        loanPurpose: purpose,
+        trustScore: fraudAnalysis.trustScore,
+        riskScore: fraudAnalysis.riskScore,
+        riskLevel: fraudAnalysis.riskLevel,
+        scoreVersion: fraudAnalysis.scoreVersion,
+        approvalStatus: autoApprove ? 'approved' : fraudAnalysis.recommendation === 'block' ? 'denied' : 'review',
+        ...(fraudAnalysis.recommendation === 'block' ? { denialReason: fraudAnalysis.explanation } : {}),
+        geminiAnalysis: fraudAnalysis,
+      };
+      await saveLoanFraudCheck(newCheck);
+      check = { ...newCheck, checkedAt: new Date() };
+    }
+
+    let decision = toDecision(check);
+    let explanation = check.geminiAnalysis?.explanation;
+
+    // Screened again before every signature, so an address listed after the
+    // loan was scored is not approved on its stored decision
+    if (decision === 'approve') {
+      const screening = await screenAndRecord(borrower, 'loan_request');
+      if (!screening.allowed) {
+        decision = 'block';
+        explanation = 'The borrower is on an address screening list';
+      }
+    }
+
+    // Without an oracle key the loan falls back to a loan officer
+    const attestation = decision === 'approve' && isOracleConfigured()
+      ? await signLoanApproval({ loanId, borrower, amount, asset })
+      : null;
+
+    return NextResponse.json({
+      loanId: params.loanId,
+      decision,
+      trustScore: check.trustScore,
+      riskScore: check.riskScore,
+      riskLevel: check.riskLevel,
+      explanation,
+      oracle: attestation ? LOAN_ORACLE_ADDRESS : null,
+      attestation,
+    });
+
+  } catch (error) {
+    console.error('Loan approval error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to score loan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
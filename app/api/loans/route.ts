@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { parsePagination, queryLoans } from '@/lib/indexer';
+import { IndexedLoanStatus } from '@/lib/types/indexer';
+
+const STATUSES: IndexedLoanStatus[] = ['pending', 'approved', 'disbursed', 'repaid', 'defaulted'];
+
+/**
+ * Indexed loans, most recent first.
+ * Filters: ?status=pending|approved|disbursed|repaid|defaulted&borrower=0x...&circleId=1
+ * Paging: ?page=1&pageSize=20
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const pagination = parsePagination(searchParams);
+    if (!pagination) {
+      return NextResponse.json(
+        { error: 'Invalid page or pageSize' },
+        { status: 400 }
+      );
+    }
+
+    const status = searchParams.get('status');
+    if (status && !STATUSES.includes(status as IndexedLoanStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status (expected one of ${STATUSES.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const borrower = searchParams.get('borrower');
+    if (borrower && !isAddress(borrower)) {
+      return NextResponse.json(
+        { error: 'Invalid borrower address' },
+        { status: 400 }
+      );
+    }
+
+    const circleId = searchParams.get('circleId');
+    if (circleId && !/^\d+$/.test(circleId)) {
+      return NextResponse.json(
+        { error: 'Invalid circle ID' },
+        { status: 400 }
+      );
+    }
+
+    const result = await queryLoans(
+      {
+        status: (status as IndexedLoanStatus) || undefined,
+        borrower: borrower || undefined,
+        circleId: circleId ? Number(circleId) : undefined,
+      },
+      pagination.page,
+      pagination.pageSize
+    );
+
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('List loans error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list loans' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getMerchantReturnOrigin, setMerchantReturnOrigin, toHttpOrigin } from '@/lib/paymentIntents';
+import { verifyAdminRequest } from '@/lib/adminAuth';
+
+// Served fresh on every request: origins change from the admin page
+export const dynamic = 'force-dynamic';
+
+// Admin page: the return origin saved for a merchant
+export async function GET(request: NextRequest) {
+  try {
+    const address = request.nextUrl.searchParams.get('address');
+
+    if (!address || !isAddress(address)) {
+      return NextResponse.json(
+        { error: 'Invalid merchant address' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ returnOrigin: await getMerchantReturnOrigin(address) });
+
+  } catch (error) {
+    console.error('Get merchant error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get merchant' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save the origin a merchant's payment intents may send shoppers back to.
+ * The change must be signed by a wallet with the admin or risk manager role
+ * (see lib/adminAuth.ts).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { merchantAddress } = body;
+    const returnOrigin = typeof body.returnOrigin === 'string' ? toHttpOrigin(body.returnOrigin) : null;
+
+    if (!merchantAddress || !isAddress(merchantAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid merchant address' },
+        { status: 400 }
+      );
+    }
+
+    if (!returnOrigin || returnOrigin !== body.returnOrigin) {
+      return NextResponse.json(
+        { error: 'Return origin must be an http(s) origin such as https://shop.example' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await verifyAdminRequest(body, {
+      action: 'Set merchant return origin',
+      details: { Merchant: merchantAddress.toLowerCase(), Origin: returnOrigin },
+    });
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    await setMerchantReturnOrigin(merchantAddress, returnOrigin, auth.admin);
+    return NextResponse.json({ success: true, returnOrigin });
+
+  } catch (error) {
+    console.error('Set merchant origin error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save merchant',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
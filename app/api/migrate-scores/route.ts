@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { migrateScores } from '@/lib/scoreMigration';
+import { verifyAdminRequest } from '@/lib/adminAuth';
+
+/**
+ * Rewrites stored profile and loan check scores onto the current scales.
+ * Pass { dryRun: true } to only count what would change. The request must be
+ * signed by an admin or risk manager (see lib/adminAuth.ts), dry run included.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    const auth = await verifyAdminRequest(body ?? {}, {
+      action: 'Migrate scores',
+      details: { 'Dry run': dryRun ? 'yes' : 'no' },
+    });
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const result = await migrateScores({ dryRun });
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error: any) {
+    console.error('❌ Score migration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to migrate scores', details: error.message },
+      { status: 500 }
+    );
+  }
+}
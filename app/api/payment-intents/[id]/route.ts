@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddressEqual, isHash, TransactionReceiptNotFoundError } from 'viem';
+import { CONTRACT_ADDRESS } from '@/lib/contract';
+import { decodeTrustCirclesEvents, getTrustCircles } from '@/lib/sdk';
+import { publicClient } from '@/lib/publicClient';
+import { cancelPaymentIntent, getPaymentIntent, getIntentAsset, markPaymentIntentPaid } from '@/lib/paymentIntents';
+import { verifyMerchantRequest } from '@/lib/merchantAuth';
+import { parseAmount, sameAsset } from '@/lib/assets';
+
+// Merchants poll this to see whether the shopper has paid
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const intent = await getPaymentIntent(params.id);
+
+    if (!intent) {
+      return NextResponse.json(
+        { error: 'Payment intent not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(intent);
+
+  } catch (error) {
+    console.error('Get payment intent error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get payment intent' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Confirm an intent from its checkout transaction. The transaction must be a
+ * successful call to TrustCircles mined before the intent expired, with a
+ * MerchantPurchase event for this intent, merchant, asset and amount.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { txHash } = await request.json();
+
+    if (!txHash || typeof txHash !== 'string' || !isHash(txHash)) {
+      return NextResponse.json(
+        { error: 'A valid transaction hash is required' },
+        { status: 400 }
+      );
+    }
+
+    const intent = await getPaymentIntent(params.id);
+
+    if (!intent) {
+      return NextResponse.json(
+        { error: 'Payment intent not found' },
+        { status: 404 }
+      );
+    }
+
+    if (intent.status === 'paid') {
+      return NextResponse.json(intent);
+    }
+
+    if (intent.status === 'cancelled') {
+      return NextResponse.json(
+        { error: 'Payment intent was cancelled' },
+        { status: 410 }
+      );
+    }
+
+    let receipt;
+    try {
+      receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+    } catch (error) {
+      if (error instanceof TransactionReceiptNotFoundError) {
+        return NextResponse.json(
+          { error: 'Transaction not found or not yet mined' },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    if (receipt.status !== 'success') {
+      return NextResponse.json(
+        { error: 'Transaction failed' },
+        { status: 400 }
+      );
+    }
+
+    if (!receipt.to || !isAddressEqual(receipt.to, CONTRACT_ADDRESS)) {
+      return NextResponse.json(
+        { error: 'Transaction is not a Zentra checkout' },
+        { status: 400 }
+      );
+    }
+
+    // A checkout mined in time still counts if it is confirmed after expiry
+    const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+    if (Number(block.timestamp) * 1000 > intent.expiresAt.getTime()) {
+      return NextResponse.json(
+        { error: 'Payment intent expired before the transaction was mined' },
+        { status: 410 }
+      );
+    }
+
+    const logs = decodeTrustCirclesEvents(receipt.logs, 'MerchantPurchase');
+
+    const asset = getIntentAsset(intent);
+    const purchase = logs.find(log =>
+      log.args.orderRef === intent.id &&
+      log.args.merchant.toLowerCase() === intent.merchantAddress.toLowerCase() &&
+      sameAsset(log.args.asset, asset.address) &&
+      log.args.amount === parseAmount(intent.amount, asset)
+    );
+
+    if (!purchase) {
+      return NextResponse.json(
+        { error: 'Transaction does not pay this intent' },
+        { status: 400 }
+      );
+    }
+
+    // Installment count is part of the loan schedule, not the event
+    const [installments] = await getTrustCircles(publicClient).read.getLoanSchedule([purchase.args.loanId]);
+
+    await markPaymentIntentPaid(intent.id, {
+      borrowerAddress: purchase.args.borrower,
+      loanId: Number(purchase.args.loanId),
+      installments: Number(installments),
+      txHash,
+    });
+
+    return NextResponse.json(await getPaymentIntent(intent.id));
+
+  } catch (error) {
+    console.error('Confirm payment intent error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to confirm payment intent',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Cancel a pending intent, e.g. when the shopper empties their cart. The
+ * request must be signed by the intent's merchant (see lib/merchantAuth.ts).
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const intent = await getPaymentIntent(params.id);
+
+    if (!intent) {
+      return NextResponse.json(
+        { error: 'Payment intent not found' },
+        { status: 404 }
+      );
+    }
+
+    const auth = await verifyMerchantRequest(body ?? {}, {
+      action: 'Cancel payment intent',
+      merchant: intent.merchantAddress,
+      details: { Intent: intent.id },
+    });
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    if (!(await cancelPaymentIntent(intent.id))) {
+      return NextResponse.json(
+        { error: `Payment intent is ${intent.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(await getPaymentIntent(intent.id));
+
+  } catch (error) {
+    console.error('Cancel payment intent error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel payment intent',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
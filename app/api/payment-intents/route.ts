@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, erc20Abi } from 'viem';
+import { publicClient } from '@/lib/publicClient';
+import { getAssetRegistry, getTrustCircles } from '@/lib/sdk';
+import { createPaymentIntent, getMerchantReturnOrigin, toHttpOrigin, PAYMENT_INTENT_TTL_MS } from '@/lib/paymentIntents';
+import { verifyMerchantRequest } from '@/lib/merchantAuth';
+import { AssetInfo, NATIVE_ASSET, isNativeAsset, parseAmount } from '@/lib/assets';
+
+/**
+ * Merchant-facing endpoint: create a payment intent the merchant's site
+ * can redirect a shopper to. The request must be signed by the merchant's
+ * registered wallet (see lib/merchantAuth.ts), and only merchants active
+ * on-chain can receive payments. `asset` is an allow-listed token address;
+ * without it the intent is priced in POL. `returnUrl` must be on the origin
+ * an admin saved for the merchant.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { merchantAddress, amount, description, returnUrl, asset: assetAddress, issuedAt, signature } = body;
+
+    // Validate required fields
+    if (!merchantAddress || !amount || !description) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    if (!isAddress(merchantAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid merchant address' },
+        { status: 400 }
+      );
+    }
+
+    if (assetAddress && !isAddress(assetAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid asset address' },
+        { status: 400 }
+      );
+    }
+
+    // Token intents must use an enabled, allow-listed asset
+    let asset: AssetInfo = NATIVE_ASSET;
+    if (assetAddress && !isNativeAsset(assetAddress)) {
+      const registryAddress = await getTrustCircles(publicClient).read.assetRegistry();
+      const [, decimals, , , enabled] = await getAssetRegistry(publicClient, registryAddress).read.assets([assetAddress]);
+
+      if (!enabled) {
+        return NextResponse.json(
+          { error: 'Asset is not accepted for payments' },
+          { status: 400 }
+        );
+      }
+
+      const symbol = await publicClient.readContract({
+        address: assetAddress,
+        abi: erc20Abi,
+        functionName: 'symbol',
+      });
+      asset = { address: assetAddress, symbol, decimals };
+    }
+
+    let amountUnits: bigint;
+    try {
+      amountUnits = parseAmount(String(amount), asset);
+    } catch {
+      amountUnits = BigInt(0);
+    }
+    if (amountUnits <= BigInt(0)) {
+      return NextResponse.json(
+        { error: `Amount must be a positive ${asset.symbol} value` },
+        { status: 400 }
+      );
+    }
+
+    // Signed by the merchant's registered wallet, which must be active on the contract
+    const auth = await verifyMerchantRequest({ issuedAt, signature }, {
+      action: 'Create payment intent',
+      merchant: merchantAddress,
+      details: {
+        Amount: String(amount),
+        Asset: assetAddress ? assetAddress.toLowerCase() : '',
+        Description: String(description),
+        'Return URL': returnUrl ? String(returnUrl) : '',
+      },
+    });
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    // Shoppers are only sent back to the merchant's registered origin
+    if (returnUrl) {
+      const origin = toHttpOrigin(String(returnUrl));
+      if (!origin) {
+        return NextResponse.json(
+          { error: 'Invalid return URL' },
+          { status: 400 }
+        );
+      }
+      if (origin !== await getMerchantReturnOrigin(merchantAddress)) {
+        return NextResponse.json(
+          { error: 'Return URL is not on the merchant\'s registered origin' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const intentId = await createPaymentIntent(
+      { merchantAddress, amount: String(amount), asset, description, returnUrl },
+      auth.name
+    );
+
+    return NextResponse.json({
+      success: true,
+      intentId,
+      checkoutUrl: `${request.nextUrl.origin}/checkout?intent=${intentId}`,
+      expiresAt: new Date(Date.now() + PAYMENT_INTENT_TTL_MS),
+    });
+
+  } catch (error) {
+    console.error('Create payment intent error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to create payment intent',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
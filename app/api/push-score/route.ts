@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { pushTrustScore } from '@/lib/loanOracle';
+import { verifyAdminRequest } from '@/lib/adminAuth';
+
+// Batch runs (e.g. a scheduled job) are capped to keep the request short
+const MAX_BATCH = 25;
+
+/**
+ * Write members' Firestore trust scores to their on-chain individual score
+ * through the risk oracle. Accepts one `walletAddress` or a `walletAddresses`
+ * list; members whose score already matches are left alone. Every update
+ * costs the oracle gas, so the request must be signed by an admin or risk
+ * manager (see lib/adminAuth.ts) over the same address list.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const addresses: string[] = body.walletAddresses ?? (body.walletAddress ? [body.walletAddress] : []);
+
+    if (addresses.length === 0 || addresses.length > MAX_BATCH) {
+      return NextResponse.json(
+        { error: `Provide walletAddress or up to ${MAX_BATCH} walletAddresses` },
+        { status: 400 }
+      );
+    }
+
+    if (!addresses.every(address => isAddress(address))) {
+      return NextResponse.json(
+        { error: 'Invalid wallet address' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await verifyAdminRequest(body, {
+      action: 'Push trust scores',
+      details: { Addresses: addresses.map(address => address.toLowerCase()).join(', ') },
+    });
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    // Sequential: every update is sent from the same oracle key
+    const results = [];
+    for (const address of addresses) {
+      try {
+        results.push({ walletAddress: address, ...(await pushTrustScore(address as `0x${string}`)) });
+      } catch (error) {
+        console.error('Push score error for', address, error);
+        results.push({
+          walletAddress: address,
+          status: 'failed',
+          reason: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, results });
+
+  } catch (error) {
+    console.error('Push score error:', error);
+    return NextResponse.json(
+      { error: 'Failed to push scores' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { addToBlocklist, getBlocklist, removeFromBlocklist } from '@/lib/fraudDatabase';
+import { getScreeningListSummary } from '@/lib/screening';
+import { readAdminHeaders, verifyAdminRequest } from '@/lib/adminAuth';
+import { BLOCKLIST_VIEW_TTL_MS, blocklistRequest } from '@/lib/blocklistAuth';
+
+// Served fresh on every request: the blocklist changes from the admin page
+export const dynamic = 'force-dynamic';
+
+/**
+ * Admin page: blocked addresses and the list files currently loaded. Entries
+ * carry internal reasons, so the request must be signed (see
+ * lib/adminAuth.ts) by a wallet with the admin or risk manager role.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await verifyAdminRequest(readAdminHeaders(request.headers), blocklistRequest('view'), BLOCKLIST_VIEW_TTL_MS);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const [entries, lists] = await Promise.all([getBlocklist(), getScreeningListSummary()]);
+    return NextResponse.json({ entries, lists });
+
+  } catch (error: any) {
+    console.error('❌ Get blocklist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load screening lists', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Add or remove a blocked address. The change must be signed by a wallet
+ * with the admin or risk manager role.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, address } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (action !== 'add' && action !== 'remove') {
+      return NextResponse.json(
+        { error: 'action must be add or remove' },
+        { status: 400 }
+      );
+    }
+
+    if (!address || !isAddress(address)) {
+      return NextResponse.json(
+        { error: 'Invalid address' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'add' && !reason) {
+      return NextResponse.json(
+        { error: 'A reason is required' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await verifyAdminRequest(body, blocklistRequest(action, address, reason));
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    if (action === 'add') {
+      await addToBlocklist(address, reason, auth.admin);
+    } else {
+      await removeFromBlocklist(address);
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error: any) {
+    console.error('❌ Update blocklist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update blocklist', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { screenAndRecordThrottled } from '@/lib/screening';
+import { ScreeningAction } from '@/lib/types/fraud';
+
+const ACTIONS: ScreeningAction[] = ['circle_join', 'loan_request', 'liquidity_deposit'];
+
+/**
+ * Screen an address before it joins a circle, requests a loan or deposits
+ * liquidity. Anyone can call this, so it only answers whether the address is
+ * allowed: which list matched stays on the server. Hits are logged to
+ * fraud_events at most once an hour per address and action.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { address, action } = body;
+
+    if (!address || !isAddress(address)) {
+      return NextResponse.json(
+        { error: 'Invalid address' },
+        { status: 400 }
+      );
+    }
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { allowed } = await screenAndRecordThrottled(address, action);
+    return NextResponse.json({ allowed });
+
+  } catch (error: any) {
+    console.error('❌ Screening error:', error);
+    return NextResponse.json(
+      { error: 'Failed to screen address', details: error.message },
+      { status: 500 }
+    );
+  }
+}
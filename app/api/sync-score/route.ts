@@ -1,30 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
 import { syncContractScoreToFraudProfile } from '@/lib/syncContractScore';
 
+/**
+ * Refresh a member's trust score from their on-chain loan history. Everything
+ * is read on the server, so the caller only names the wallet. Nothing is
+ * written on-chain: that costs oracle gas, so it takes a signed admin request
+ * to /api/push-score.
+ */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { walletAddress, contractData } = body;
+    const { walletAddress } = body;
 
-    if (!walletAddress) {
+    if (!walletAddress || !isAddress(walletAddress)) {
       return NextResponse.json(
-        { error: 'Wallet address is required' },
+        { error: 'A valid wallet address is required' },
         { status: 400 }
       );
     }
 
-    const result = await syncContractScoreToFraudProfile(walletAddress, contractData);
+    const result = await syncContractScoreToFraudProfile(walletAddress);
 
     return NextResponse.json({
       success: true,
-      fraudScore: result.fraudScore,
+      trustScore: result.trustScore,
+      riskScore: result.riskScore,
       trustScores: result.trustScores,
     });
 
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('❌ Sync score error:', error);
     return NextResponse.json(
-      { error: 'Failed to sync score', details: error.message },
+      { error: 'Failed to sync score', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     );
   }
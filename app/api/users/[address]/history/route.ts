@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { HISTORY_EVENT_TYPES, parsePagination, queryUserHistory } from '@/lib/indexer';
+
+/**
+ * A member's on-chain history (loans, score changes, circle membership,
+ * credit line), most recent first.
+ * Filters: ?type=LoanRequested,ScoreUpdated (event names, comma separated)
+ * Paging: ?page=1&pageSize=20
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { address: string } }
+) {
+  try {
+    if (!isAddress(params.address)) {
+      return NextResponse.json(
+        { error: 'Invalid address' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const pagination = parsePagination(searchParams);
+    if (!pagination) {
+      return NextResponse.json(
+        { error: 'Invalid page or pageSize' },
+        { status: 400 }
+      );
+    }
+
+    const types = searchParams.get('type')?.split(',').filter(Boolean) ?? [];
+    const unknown = types.find(type => !HISTORY_EVENT_TYPES.includes(type));
+    if (unknown) {
+      return NextResponse.json(
+        { error: `Unknown event type: ${unknown}` },
+        { status: 400 }
+      );
+    }
+
+    const result = await queryUserHistory(params.address, { types }, pagination.page, pagination.pageSize);
+
+    return NextResponse.json({ address: params.address, ...result });
+
+  } catch (error) {
+    console.error('User history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get user history' },
+      { status: 500 }
+    );
+  }
+}
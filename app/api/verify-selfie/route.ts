@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifySelfieWithGemini } from '@/lib/fraudDetection';
+import { verifySelfie } from '@/lib/riskModel';
 import { 
   saveSelfieVerification,
   markUserAsVerified,
   getUserFraudProfile 
 } from '@/lib/fraudDatabase';
+import { pushTrustScore, toOnChainScore } from '@/lib/loanOracle';
 // W&B logging temporarily disabled due to browser compatibility issues
 // import { logSelfieVerification, logFraudScore } from '@/lib/wandb';
 
@@ -31,10 +32,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify with Gemini AI
-    console.log('🤖 Calling Gemini AI for verification...');
-    const geminiResult = await verifySelfieWithGemini(imageBase64);
-    console.log('✅ Gemini analysis complete:', geminiResult);
+    // Verify with the configured risk model
+    console.log('🤖 Calling risk model for verification...');
+    const geminiResult = await verifySelfie(imageBase64, walletAddress);
+    console.log('✅ Selfie analysis complete:', geminiResult);
     
     const processingTime = Date.now() - startTime;
 
@@ -96,21 +97,31 @@ export async function POST(request: NextRequest) {
 
     // Get profile BEFORE verification to calculate actual improvement
     const profileBefore = await getUserFraudProfile(walletAddress);
-    const oldIndividualScore = profileBefore?.fraudScore || 50;
-    const oldTrustScore = profileBefore?.totalTrustScore || 0;
+    const oldTrustScore = profileBefore?.trustScore || 0;
+    const oldIndividualScore = toOnChainScore(oldTrustScore);
 
-    // If verified, update user's fraud score
+    // If verified, add the selfie points to the user's trust score
     if (isVerified) {
-      console.log('🎉 User verified! Updating fraud score...');
-      await markUserAsVerified(walletAddress, 20); // Updates to 60 points
+      console.log('🎉 User verified! Updating trust score...');
+      await markUserAsVerified(walletAddress);
     }
 
     // Get updated fraud profile
     const updatedProfile = await getUserFraudProfile(walletAddress);
+
+    // Carry the selfie bonus over to the on-chain score (members only; best effort)
+    let onChainPoints: number | undefined;
+    if (isVerified) {
+      try {
+        onChainPoints = (await pushTrustScore(walletAddress as `0x${string}`)).points;
+      } catch (error) {
+        console.error('Failed to push trust score on-chain:', error);
+      }
+    }
     console.log('📊 Updated profile:', updatedProfile);
 
-    const newIndividualScore = updatedProfile?.fraudScore || 50;
-    const newTrustScore = updatedProfile?.totalTrustScore || 0;
+    const newTrustScore = updatedProfile?.trustScore || 0;
+    const newIndividualScore = toOnChainScore(newTrustScore);
     const actualScoreImprovement = newIndividualScore - oldIndividualScore;
     const trustScoreImprovement = newTrustScore - oldTrustScore;
 
@@ -126,7 +137,7 @@ export async function POST(request: NextRequest) {
     //       repaymentHistory: updatedProfile.repaymentHistoryScore || 0,
     //       walletAge: updatedProfile.walletAgeScore || 0,
     //       platformActivity: updatedProfile.platformActivityScore || 0,
-    //       total: updatedProfile.totalTrustScore || 0,
+    //       total: updatedProfile.trustScore || 0,
     //     },
     //     riskLevel: updatedProfile.riskLevel || 'medium',
     //   });
@@ -144,9 +155,8 @@ export async function POST(request: NextRequest) {
       
       // Real scores (not hardcoded)
       oldIndividualScore,
-      newIndividualScore,
-      updatedFraudScore: newIndividualScore, // Individual score
-      scoreImprovement: actualScoreImprovement, // Actual improvement (10 for trust score)
+      newIndividualScore, // On-chain individual score for the new trust score
+      scoreImprovement: actualScoreImprovement, // On-chain individual score gained
       trustScoreImprovement, // +10 for selfie verification
       
       // Individual trust score breakdown
@@ -155,7 +165,10 @@ export async function POST(request: NextRequest) {
       selfieVerificationScore: updatedProfile?.selfieVerificationScore || 0,
       circleActivityScore: updatedProfile?.circleActivityScore || 0,
       platformActivityScore: updatedProfile?.platformActivityScore || 0,
-      totalTrustScore: updatedProfile?.totalTrustScore || 0,
+      trustScore: newTrustScore,
+      riskScore: updatedProfile?.riskScore ?? 100,
+      riskLevel: updatedProfile?.riskLevel || 'high',
+      onChainPoints, // Off-chain points now on-chain, if the push went through
     };
 
     console.log('✅ Sending response:', response);
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Navbar from '@/components/Navbar';
+import { useAccount } from 'wagmi';
+import { PaymentIntent } from '@/lib/types/merchant';
+import { buildReturnUrl, getIntentAsset } from '@/lib/paymentIntents';
+import { INSTALLMENT_OPTIONS } from '@/lib/contract';
+import { formatAmount, parseAmount, sameAsset } from '@/lib/assets';
+import { useUserStats, useMerchant, useCheckout, usePauseStatus, useCircleAsset } from '@/hooks/useContract';
+
+export default function CheckoutPage() {
+  return (
+    <div className="min-h-screen bg-black relative overflow-hidden">
+      {/* Orange Glow from Upper Left */}
+      <div
+        className="absolute top-0 left-0 w-[800px] h-[800px] pointer-events-none"
+        style={{
+          background: 'radial-gradient(circle at top left, rgba(255,100,40,0.3) 0%, rgba(255,80,30,0.15) 25%, transparent 60%)',
+          filter: 'blur(80px)',
+        }}
+      />
+      {/* Orange Glow from Upper Right */}
+      <div
+        className="absolute top-0 right-0 w-[800px] h-[800px] pointer-events-none"
+        style={{
+          background: 'radial-gradient(circle at top right, rgba(255,100,40,0.3) 0%, rgba(255,80,30,0.15) 25%, transparent 60%)',
+          filter: 'blur(80px)',
+        }}
+      />
+      <Navbar />
+      <main className="max-w-xl mx-auto px-4 relative z-10" style={{ paddingTop: '180px', paddingBottom: '100px' }}>
+        {/* useSearchParams needs a Suspense boundary in the app router */}
+        <Suspense fallback={<p className="text-white/60 text-center">Loading checkout...</p>}>
+          <CheckoutFlow />
+        </Suspense>
+      </main>
+    </div>
+  );
+}
+
+function CheckoutFlow() {
+  const searchParams = useSearchParams();
+  const intentId = searchParams.get('intent');
+  const { address, isConnected } = useAccount();
+
+  const [intent, setIntent] = useState<PaymentIntent | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [installments, setInstallments] = useState(4);
+  const [isConfirmingIntent, setIsConfirmingIntent] = useState(false);
+
+  const merchantAddress = intent?.merchantAddress as `0x${string}` | undefined;
+  const { data: userStats } = useUserStats(address);
+  const circleAsset = useCircleAsset(userStats && userStats[0] > BigInt(0) ? userStats[0] : undefined);
+  const { data: merchant } = useMerchant(merchantAddress);
+  const { checkout, isPending, isConfirming, isSuccess, hash, error } = useCheckout();
+  const { isPaused } = usePauseStatus();
+
+  // Load payment intent
+  useEffect(() => {
+    async function loadIntent() {
+      if (!intentId) {
+        setLoadError('Missing payment intent');
+        return;
+      }
+      try {
+        const response = await fetch(`/api/payment-intents/${intentId}`);
+        if (!response.ok) {
+          throw new Error('Payment intent not found');
+        }
+        setIntent(await response.json());
+      } catch (err) {
+        setLoadError(err instanceof Error ? err.message : 'Failed to load payment intent');
+      }
+    }
+    loadIntent();
+  }, [intentId]);
+
+  // Confirm the intent once the purchase is mined, then return to the merchant
+  useEffect(() => {
+    async function confirmIntent() {
+      if (!isSuccess || !hash || !intent || intent.status !== 'pending') return;
+      setIsConfirmingIntent(true);
+      try {
+        const response = await fetch(`/api/payment-intents/${intent.id}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ txHash: hash }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to confirm payment');
+        }
+        const paidIntent: PaymentIntent = await response.json();
+        setIntent(paidIntent);
+
+        const returnUrl = buildReturnUrl(paidIntent);
+        if (returnUrl) {
+          window.location.href = returnUrl;
+        }
+      } catch (err) {
+        console.error('Confirm payment intent error:', err);
+        alert('Payment went through on-chain but the merchant could not be notified. Please share your transaction hash with the merchant.');
+      } finally {
+        setIsConfirmingIntent(false);
+      }
+    }
+    confirmIntent();
+  }, [isSuccess, hash, intent]);
+
+  if (loadError) {
+    return <CheckoutCard title="Checkout"><p className="text-red-400 text-center py-8">{loadError}</p></CheckoutCard>;
+  }
+
+  if (!intent) {
+    return <CheckoutCard title="Checkout"><p className="text-white/60 text-center py-8">Loading payment...</p></CheckoutCard>;
+  }
+
+  const asset = getIntentAsset(intent);
+  const amountUnits = parseAmount(intent.amount, asset);
+  const installmentAmount = amountUnits / BigInt(installments);
+
+  // Extract what we need from user stats
+  const circleId = userStats ? Number(userStats[0]) : 0;
+  const maxLoanAmount = userStats ? userStats[3] : BigInt(0);
+  const interestRate = userStats ? Number(userStats[4]) / 100 : 0; // APR in basis points
+  const hasActiveLoan = userStats ? userStats[8] : false;
+  const isFrozen = userStats ? !userStats[9] && circleId > 0 : false;
+
+  let blocker: string | null = null;
+  if (intent.status !== 'pending') blocker = `This payment is ${intent.status}`;
+  else if (merchant && !merchant[1]) blocker = 'This merchant is not accepting Zentra payments';
+  else if (isPaused) blocker = 'Zentra is temporarily paused. Please try again later';
+  else if (!isConnected) blocker = 'Connect your wallet to pay';
+  else if (circleId === 0) blocker = 'Join a Trust Circle to use Zentra credit';
+  else if (isFrozen) blocker = 'Your account is frozen';
+  else if (hasActiveLoan) blocker = 'Repay your active loan or credit line before a new purchase';
+  // Loans are paid out in the borrower's circle asset
+  else if (!circleAsset) blocker = 'Loading your circle...';
+  else if (!sameAsset(circleAsset.address, asset.address)) blocker = `This merchant is paid in ${asset.symbol}, but your circle borrows ${circleAsset.symbol}`;
+  else if (amountUnits > maxLoanAmount) blocker = `Purchase exceeds your limit of ${formatAmount(maxLoanAmount, asset)}`;
+
+  const handlePay = () => {
+    if (!merchantAddress) return;
+    checkout(merchantAddress, intent.amount, intent.id, installments, asset);
+  };
+
+  return (
+    <CheckoutCard title="Pay with Zentra">
+      <div className="bg-white/5 p-4 rounded-lg mb-4">
+        <p className="text-white/60 text-sm mb-1">Merchant</p>
+        <p className="text-white text-lg font-semibold">{merchant ? merchant[0] : intent.merchantName}</p>
+        <p className="text-white/40 text-xs font-mono mb-3">
+          {intent.merchantAddress.slice(0, 6)}...{intent.merchantAddress.slice(-4)}
+          {intent.returnUrl && ` · returns to ${new URL(intent.returnUrl).host}`}
+        </p>
+
+        <p className="text-white/60 text-sm mb-1">Order</p>
+        <p className="text-white text-sm mb-3">{intent.description}</p>
+
+        <p className="text-white/60 text-sm mb-1">Total</p>
+        <p className="text-white text-2xl font-bold">{intent.amount} {asset.symbol}</p>
+        {interestRate > 0 && (
+          <p className="text-white/50 text-xs">+ interest at {interestRate}% APR based on your trust score, accrued until repaid</p>
+        )}
+      </div>
+
+      {intent.status === 'paid' ? (
+        <p className="text-green-400 text-center py-4 font-semibold">
+          ✓ Paid{intent.loanId ? ` · Loan #${intent.loanId}` : ''}
+        </p>
+      ) : (
+        <>
+          <div className="mb-4">
+            <label className="text-sm text-white/60 mb-2 block">Pay In</label>
+            <div className="grid grid-cols-4 gap-2">
+              {INSTALLMENT_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setInstallments(option)}
+                  className={`py-2 text-sm rounded-lg font-semibold transition border ${
+                    installments === option
+                      ? 'bg-white/90 text-black border-white'
+                      : 'bg-white/10 hover:bg-white/20 text-white border-white/20'
+                  }`}
+                >
+                  {option === 1 ? '1 payment' : `${option} weekly`}
+                </button>
+              ))}
+            </div>
+            <p className="text-white/50 text-xs mt-2">
+              ≈ {formatAmount(installmentAmount, asset)} principal per installment
+            </p>
+          </div>
+
+          {blocker && <p className="text-yellow-400 text-sm text-center mb-3">{blocker}</p>}
+
+          <button
+            onClick={handlePay}
+            disabled={!!blocker || isPending || isConfirming || isConfirmingIntent}
+            className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isConfirmingIntent ? 'Notifying merchant...' : isConfirming ? 'Confirming...' : isPending ? 'Processing...' : `Pay ${intent.amount} ${asset.symbol}`}
+          </button>
+          {error && !isPending && <p className="text-red-400 text-sm text-center mt-3">{error}</p>}
+        </>
+      )}
+    </CheckoutCard>
+  );
+}
+
+function CheckoutCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h1 className="text-2xl font-bold text-white mb-4">{title}</h1>
+      {children}
+    </div>
+  );
+}
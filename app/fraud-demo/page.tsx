@@ -134,7 +134,7 @@ export default function FraudDetectionDemo() {
               
               <div className="mb-4">
                 <FraudScoreBadge 
-                  score={fraudResult.fraudScore} 
+                  score={fraudResult.riskScore} 
                   riskLevel={fraudResult.riskLevel}
                   size="lg"
                 />
@@ -213,16 +213,16 @@ export default function FraudDetectionDemo() {
                   <span className="text-lg font-bold">{verificationResult.geminiScore}/100</span>
                 </div>
 
-                {verificationResult.scoreImprovement > 0 && (
+                {verificationResult.trustScoreImprovement > 0 && (
                   <div className="p-4 bg-green-50 rounded-lg border border-green-200">
                     <p className="text-green-800 font-medium">
-                      🎉 Fraud Score Improved!
+                      🎉 Trust Score Improved!
                     </p>
                     <p className="text-green-700 text-sm mt-1">
-                      Your fraud score decreased by {verificationResult.scoreImprovement} points
+                      Your trust score increased by {verificationResult.trustScoreImprovement} points
                     </p>
                     <p className="text-green-600 text-sm mt-1">
-                      New Score: {verificationResult.updatedFraudScore}/100
+                      Trust Score: {verificationResult.trustScore}/60 · Risk Score: {verificationResult.riskScore}/100
                     </p>
                   </div>
                 )}
@@ -259,10 +259,9 @@ export default function FraudDetectionDemo() {
               <h2 className="text-xl font-bold mb-4">User Fraud Profile</h2>
               
               <FraudScoreDisplay
-                score={profileData.fraudScore}
+                score={profileData.riskScore}
                 riskLevel={profileData.riskLevel}
                 isVerified={profileData.isVerified}
-                verificationBonus={profileData.verificationBonus}
               />
 
               {profileData.isFlagged && (
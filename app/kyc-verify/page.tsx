@@ -6,6 +6,7 @@ import Webcam from 'react-webcam';
 import { useSelfieVerification, useFraudProfile } from '@/hooks/useFraudDetection';
 import { VerificationBadge } from '@/components/FraudScoreBadge';
 import { ConnectButton } from '@/components/ConnectButton';
+import { toOnChainScore } from '@/lib/loanOracle';
 
 export default function KYCVerification() {
   const { address, isConnected } = useAccount();
@@ -29,16 +30,17 @@ export default function KYCVerification() {
             verified: true,
             status: 'verified',
             confidence: 95,
-            fraudScore: profile.fraudScore,
-            newIndividualScore: profile.fraudScore,
-            oldIndividualScore: 50,
-            scoreImprovement: profile.fraudScore - 50,
+            trustScore: profile.trustScore || 0,
+            riskScore: profile.riskScore,
+            riskLevel: profile.riskLevel,
+            newIndividualScore: toOnChainScore(profile.trustScore || 0),
+            oldIndividualScore: toOnChainScore(0),
+            scoreImprovement: toOnChainScore(profile.trustScore || 0) - toOnChainScore(0),
             walletAgeScore: profile.walletAgeScore || 0,
             repaymentHistoryScore: profile.repaymentHistoryScore || 0,
             selfieVerificationScore: profile.selfieVerificationScore || 0,
             circleActivityScore: profile.circleActivityScore || 0,
             platformActivityScore: profile.platformActivityScore || 0,
-            totalTrustScore: profile.totalTrustScore || 0,
             detailedAnalysis: 'Your identity was verified previously and is permanently stored.'
           });
         } else {
@@ -3,6 +3,9 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { Providers } from "./providers";
 import CustomCursor from "@/components/CustomCursor";
+import { TransactionToasts } from "@/components/TransactionToasts";
+import { PreflightDialog } from "@/components/PreflightDialog";
+import { NetworkGuard } from "@/components/NetworkGuard";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -24,7 +27,10 @@ export default function RootLayout({
       <body className={inter.className}>
         <Providers>
           <CustomCursor />
+          <NetworkGuard />
           {children}
+          <TransactionToasts />
+          <PreflightDialog />
         </Providers>
       </body>
     </html>
@@ -0,0 +1,354 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Navbar from '@/components/Navbar';
+import { useAccount } from 'wagmi';
+import { formatUnits, zeroAddress } from 'viem';
+import {
+  usePoolStats,
+  usePoolUtilization,
+  usePoolShares,
+  usePoolShareValue,
+  usePoolInterestHistory,
+  usePoolDeposit,
+  usePoolDepositWithPermit,
+  usePoolWithdraw,
+  useAssets,
+  useTokenBalance,
+} from '@/hooks/useContract';
+import { AssetInfo, NATIVE_ASSET, formatAmount, isNativeAsset, parseAmount, sameAsset } from '@/lib/assets';
+
+// Trailing window used to annualize pool interest
+const APY_WINDOW_DAYS = 30;
+
+export default function LenderPage() {
+  const { address, isConnected } = useAccount();
+
+  // Each asset has its own pool; lenders pick which one to fund
+  const { data: assets } = useAssets();
+  const [assetAddress, setAssetAddress] = useState<`0x${string}`>(zeroAddress);
+  const asset: AssetInfo = assets?.find(listed => sameAsset(listed.address, assetAddress)) ?? NATIVE_ASSET;
+
+  const { data: poolStats, refetch: refetchPool } = usePoolStats(asset.address);
+  const { data: utilization, refetch: refetchUtilization } = usePoolUtilization(asset.address);
+  const { data: shares, refetch: refetchShares } = usePoolShares(address, asset.address);
+  const { data: shareValue, refetch: refetchShareValue } = usePoolShareValue(shares, asset.address);
+  const { data: recentInterest } = usePoolInterestHistory(APY_WINDOW_DAYS, asset.address);
+
+  // Auto-refresh
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetchPool();
+      refetchUtilization();
+      refetchShares();
+      refetchShareValue();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [refetchPool, refetchUtilization, refetchShares, refetchShareValue]);
+
+  const refreshPosition = useCallback(() => {
+    refetchPool();
+    refetchUtilization();
+    refetchShares();
+    refetchShareValue();
+  }, [refetchPool, refetchUtilization, refetchShares, refetchShareValue]);
+
+  const totalAssets = poolStats ? poolStats[0] : BigInt(0);
+  const available = poolStats ? poolStats[1] : BigInt(0);
+  const totalShares = poolStats ? poolStats[3] : BigInt(0);
+
+  // Simple APY: interest over the trailing window, annualized against current pool size
+  const apy = totalAssets > BigInt(0) && recentInterest !== undefined
+    ? (Number(recentInterest) / Number(totalAssets)) * (365 / APY_WINDOW_DAYS) * 100
+    : 0;
+  const poolShare = totalShares > BigInt(0) && shares !== undefined
+    ? (Number(shares) / Number(totalShares)) * 100
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-black relative overflow-hidden">
+      {/* Orange Glow from Upper Left */}
+      <div
+        className="absolute top-0 left-0 w-[800px] h-[800px] pointer-events-none"
+        style={{
+          background: 'radial-gradient(circle at top left, rgba(255,100,40,0.3) 0%, rgba(255,80,30,0.15) 25%, transparent 60%)',
+          filter: 'blur(80px)',
+        }}
+      />
+      {/* Orange Glow from Upper Right */}
+      <div
+        className="absolute top-0 right-0 w-[800px] h-[800px] pointer-events-none"
+        style={{
+          background: 'radial-gradient(circle at top right, rgba(255,100,40,0.3) 0%, rgba(255,80,30,0.15) 25%, transparent 60%)',
+          filter: 'blur(80px)',
+        }}
+      />
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 relative" style={{ paddingTop: '180px', paddingBottom: '100px', zIndex: 10 }}>
+        {/* Pool Selector */}
+        {assets && assets.length > 1 && (
+          <div className="flex gap-2 mb-6">
+            {assets.map(listed => (
+              <button
+                key={listed.address}
+                onClick={() => setAssetAddress(listed.address)}
+                className={`px-4 py-2 text-sm rounded-lg font-semibold transition border ${
+                  sameAsset(listed.address, asset.address)
+                    ? 'bg-white/90 text-black border-white'
+                    : 'bg-white/10 hover:bg-white/20 text-white border-white/20'
+                }`}
+              >
+                {listed.symbol} Pool
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Pool Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+          <StatCard
+            title="Pool Size"
+            value={formatAmount(totalAssets, asset)}
+            description="Idle liquidity plus principal on loan"
+          />
+          <StatCard
+            title="APY"
+            value={`${apy.toFixed(2)}%`}
+            description={`Interest from the last ${APY_WINDOW_DAYS} days, annualized`}
+          />
+          <StatCard
+            title="Utilization"
+            value={`${utilization !== undefined ? (Number(utilization) / 100).toFixed(1) : '0.0'}%`}
+            description="Share of the pool lent to borrowers"
+          />
+          <StatCard
+            title="Available"
+            value={formatAmount(available, asset)}
+            description="Can be withdrawn or lent right now"
+          />
+        </div>
+
+        {!isConnected ? (
+          <div className="bg-white/10 backdrop-blur-md rounded-lg p-8 text-center border border-white/20">
+            <p className="text-white/80">Connect your wallet to lend to Trust Circle borrowers</p>
+          </div>
+        ) : (
+          <>
+            {/* Your Position */}
+            <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20 mb-6">
+              <h3 className="text-xl font-bold text-white mb-4">Your Position</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-white/5 p-4 rounded-lg">
+                  <p className="text-white/60 text-sm mb-1">Pool Shares</p>
+                  <p className="text-white text-2xl font-bold">{shares !== undefined ? formatUnits(shares, asset.decimals) : '0'}</p>
+                </div>
+                <div className="bg-white/5 p-4 rounded-lg">
+                  <p className="text-white/60 text-sm mb-1">Share Value</p>
+                  <p className="text-white text-2xl font-bold">{formatAmount(shareValue ?? BigInt(0), asset)}</p>
+                </div>
+                <div className="bg-white/5 p-4 rounded-lg">
+                  <p className="text-white/60 text-sm mb-1">Share of Pool</p>
+                  <p className="text-white text-2xl font-bold">{poolShare.toFixed(2)}%</p>
+                </div>
+              </div>
+            </div>
+
+            {/* Deposit / Withdraw */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <DepositForm key={`deposit-${asset.address}`} asset={asset} onSuccess={refreshPosition} />
+              <WithdrawForm
+                key={`withdraw-${asset.address}`}
+                asset={asset}
+                shares={shares ?? BigInt(0)}
+                shareValue={shareValue ?? BigInt(0)}
+                available={available}
+                onSuccess={refreshPosition}
+              />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function StatCard({ title, value, description }: { title: string; value: string; description: string }) {
+  // Map each card to a color
+  const colorMap: { [key: string]: string } = {
+    'Pool Size': 'from-blue-500/20 to-blue-600/20 border-blue-500/30',
+    'APY': 'from-green-500/20 to-green-600/20 border-green-500/30',
+    'Utilization': 'from-purple-500/20 to-purple-600/20 border-purple-500/30',
+    'Available': 'from-orange-500/20 to-orange-600/20 border-orange-500/30',
+  };
+
+  const colorClass = colorMap[title] || 'from-blue-500/20 to-blue-600/20 border-blue-500/30';
+
+  return (
+    <div className={`bg-gradient-to-br ${colorClass} backdrop-blur-md rounded-lg p-6 border`}>
+      <h3 className="text-white/70 text-base mb-2">{title}</h3>
+      <p className="text-3xl font-bold text-white mb-1">{value}</p>
+      <p className="text-white/50 text-xs">{description}</p>
+    </div>
+  );
+}
+
+// Deposit Form: POL is sent with the call, tokens are approved with a signed permit
+function DepositForm({ asset, onSuccess }: { asset: AssetInfo; onSuccess: () => void }) {
+  const { address } = useAccount();
+  const [amount, setAmount] = useState('');
+  const isNative = isNativeAsset(asset);
+  const { data: tokenBalance } = useTokenBalance(asset.address, address);
+  const { deposit, isPending: isDepositing, isConfirming: isDepositConfirming, isSuccess: depositSuccess } = usePoolDeposit(asset);
+  const { depositWithPermit, isPending: isPermitting, isConfirming: isPermitConfirming, isSuccess: permitSuccess } = usePoolDepositWithPermit(asset, address);
+  const isPending = isDepositing || isPermitting;
+  const isConfirming = isDepositConfirming || isPermitConfirming;
+  const isSuccess = depositSuccess || permitSuccess;
+
+  useEffect(() => {
+    if (isSuccess) {
+      setAmount('');
+      onSuccess();
+    }
+  }, [isSuccess, onSuccess]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || parseFloat(amount) <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+    if (isNative) {
+      deposit(amount);
+      return;
+    }
+    if (tokenBalance !== undefined && parseAmount(amount, asset) > tokenBalance) {
+      alert(`Your wallet only holds ${formatAmount(tokenBalance, asset)}`);
+      return;
+    }
+    try {
+      await depositWithPermit(amount);
+    } catch (err) {
+      console.error('Permit deposit error:', err);
+      alert('Deposit was not signed');
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Deposit</h3>
+      <p className="text-white/60 text-sm mb-3">
+        Receive pool shares that grow in value as borrowers pay interest.
+        {!isNative && tokenBalance !== undefined && ` Wallet: ${formatAmount(tokenBalance, asset)}.`}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={`Enter ${asset.symbol} amount`}
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <button
+          type="submit"
+          disabled={isPending || isConfirming}
+          className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {isPending || isConfirming ? 'Depositing...' : 'Deposit'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// Withdraw Form
+function WithdrawForm({
+  asset,
+  shares,
+  shareValue,
+  available,
+  onSuccess,
+}: {
+  asset: AssetInfo;
+  shares: bigint;
+  shareValue: bigint;
+  available: bigint;
+  onSuccess: () => void;
+}) {
+  const [amount, setAmount] = useState('');
+  const { withdraw, redeem, isPending, isConfirming, isSuccess } = usePoolWithdraw(asset);
+
+  useEffect(() => {
+    if (isSuccess) {
+      setAmount('');
+      onSuccess();
+    }
+  }, [isSuccess, onSuccess]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || parseFloat(amount) <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+    const amountWei = parseAmount(amount, asset);
+    if (amountWei > shareValue) {
+      alert('Amount exceeds your position');
+      return;
+    }
+    if (amountWei > available) {
+      alert(`Only ${formatAmount(available, asset)} is available right now; the rest is out on loans`);
+      return;
+    }
+    withdraw(amount);
+  };
+
+  const handleWithdrawAll = () => {
+    if (shareValue > available) {
+      alert(`Only ${formatAmount(available, asset)} is available right now; the rest is out on loans`);
+      return;
+    }
+    redeem(shares);
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Withdraw</h3>
+      <p className="text-white/60 text-sm mb-3">
+        Withdrawals are limited to idle liquidity ({formatAmount(available, asset)} available).
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={`Enter ${asset.symbol} amount`}
+          className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+        />
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isPending || isConfirming}
+            className="flex-1 bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+          >
+            {isPending || isConfirming ? 'Withdrawing...' : 'Withdraw'}
+          </button>
+          <button
+            type="button"
+            onClick={handleWithdrawAll}
+            disabled={isPending || isConfirming || shares === BigInt(0)}
+            className="flex-1 bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-semibold transition border border-white/20 disabled:opacity-50"
+          >
+            Withdraw All
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,12 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import Navbar from '@/components/Navbar';
+import { PauseBanner } from '@/components/PauseBanner';
 import { useAccount } from 'wagmi';
-import { formatEther } from 'viem';
+import { formatUnits, zeroAddress } from 'viem';
 import { getUserFraudProfile } from '@/lib/fraudDatabase';
-import { syncContractScoreToFraudProfile } from '@/lib/syncContractScore';
-import { UserFraudProfile } from '@/lib/types/fraud';
+import { UserFraudProfile, LoanApprovalResult } from '@/lib/types/fraud';
 
 import {
   useUserStats,
@@ -17,8 +17,41 @@ import {
   useCreateCircle,
   useJoinCircle,
   useLoanDetails,
+  useLoanSchedule,
+  useNextInstallment,
+  useAmountOwed,
   useCircleCount,
+  useMemberData,
+  useLeaveRequestedAt,
+  useLeaveCooldown,
+  useCircleHasActiveLoan,
+  useRequestLeaveCircle,
+  useCancelLeaveCircle,
+  useLeaveCircle,
+  useCircle,
+  useJoinRequests,
+  useJoinRequest,
+  useRequiredApprovals,
+  useAdmissionQuorum,
+  useJoinVotes,
+  useRequestToJoin,
+  useVoteOnJoinRequest,
+  useSetAdmissionQuorum,
+  useAssets,
+  useCircleAsset,
+  useLoanAsset,
+  useTokenApproval,
+  useCreditLinesAddress,
+  useCreditStatement,
+  useCreditActivity,
+  useDrawCredit,
+  useRepayCredit,
+  useApproveWithAttestation,
+  useDeployment,
 } from '@/hooks/useContract';
+import { useLoanApproval } from '@/hooks/useFraudDetection';
+import { INSTALLMENT_OPTIONS } from '@/lib/contract';
+import { AssetInfo, formatAmount, parseAmount, sameAsset } from '@/lib/assets';
 
 export default function UserPage() {
   const [isMounted, setIsMounted] = useState(false);
@@ -35,6 +68,8 @@ export default function UserPage() {
   
   // Fetch circle details for real-time circle score
   const { data: circleDetails, refetch: refetchCircle } = useCircleDetails(userCircleId);
+  // Bonds and loans are in the circle's asset
+  const circleAsset = useCircleAsset(userCircleId);
 
   useEffect(() => {
     setIsMounted(true);
@@ -67,13 +102,27 @@ export default function UserPage() {
     return () => clearInterval(interval);
   }, [refetchStats, refetchLoans, refetchCircle, userCircleId, address]);
 
+  // Refresh this wallet's repayment points from its on-chain loan history, once
+  // per wallet while a member. Writing them on-chain takes an admin (push-score)
+  const [syncedAddress, setSyncedAddress] = useState<string | null>(null);
+  useEffect(() => {
+    if (!address || !userStats || !userStats[9] || !fraudProfile || syncedAddress === address) return;
+
+    setSyncedAddress(address);
+    fetch('/api/sync-score', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ walletAddress: address }),
+    }).catch(err => console.error('Sync score error:', err));
+  }, [address, userStats, fraudProfile, syncedAddress]);
+
   // Extract user stats from contract response with real-time circle score
   const stats = userStats ? {
     circleId: Number(userStats[0]),
-    individualScore: fraudProfile?.fraudScore || Number(userStats[1]), // Use fraud profile score if available
+    individualScore: Number(userStats[1]), // Includes the oracle's off-chain points
     finalScore: Number(userStats[2]),
     maxLoanAmount: Number(userStats[3]),
-    interestRate: Number(userStats[4]),
+    interestRate: Number(userStats[4]) / 100, // APR in basis points
     totalBorrowed: userStats[5],
     totalRepaid: userStats[6],
     loansCompleted: Number(userStats[7]),
@@ -85,6 +134,12 @@ export default function UserPage() {
 
   const loanIds = userLoansData ? userLoansData.map(id => Number(id)) : [];
 
+  // Stable so child effects waiting on a transaction don't re-fire on every refresh
+  const handleLoanChange = useCallback(() => {
+    refetchStats();
+    refetchLoans();
+  }, [refetchStats, refetchLoans]);
+
   if (!isConnected) {
     return (
       <>
@@ -233,6 +288,7 @@ export default function UserPage() {
         <Navbar />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 relative" style={{ paddingTop: '180px', zIndex: 10 }}>
+        <PauseBanner />
         
         {/* Trust Score Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
@@ -268,13 +324,14 @@ export default function UserPage() {
             }}
           />
           
-          <LoanEligibility stats={stats} />
+          <LoanEligibility stats={stats} asset={circleAsset} />
         </div>
 
         {/* Loan Request */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           <RequestLoanForm
             stats={stats}
+            asset={circleAsset}
             onSuccess={() => {
               refetchStats();
               refetchLoans();
@@ -283,13 +340,15 @@ export default function UserPage() {
           
           <ActiveLoan 
             loanIds={loanIds}
-            onRepaySuccess={() => {
-              refetchStats();
-              refetchLoans();
-            }}
+            onRepaySuccess={handleLoanChange}
           />
         </div>
 
+        {/* Credit Line */}
+        <div className="mb-6">
+          <CreditLine stats={stats} asset={circleAsset} onSuccess={handleLoanChange} />
+        </div>
+
         {/* Loan History */}
         <div className="mb-[100px]">
           <LoanHistory loanIds={loanIds} userAddress={address} />
@@ -320,43 +379,47 @@ function ScoreCard({ title, score, color, description }: { title: string; score:
 
 // Circle Management Component  
 function CircleManagement({ stats, circleDetails, circleCount, onSuccess }: any) {
+  const { address } = useAccount();
   const [showCreate, setShowCreate] = useState(false);
   const [showJoin, setShowJoin] = useState(false);
   const [circleName, setCircleName] = useState('');
-  const [circleIdToJoin, setCircleIdToJoin] = useState('');
+  const [assetAddress, setAssetAddress] = useState<`0x${string}`>(zeroAddress);
   
+  const { data: assets } = useAssets();
+  const enabledAssets = assets?.filter(asset => asset.enabled) ?? [];
+  const selectedAsset = enabledAssets.find(asset => sameAsset(asset.address, assetAddress));
+  const stake = selectedAsset?.minStake ?? BigInt(0);
+
   const { createCircle, isPending: isCreating, isSuccess: createSuccess } = useCreateCircle();
-  const { joinCircle, isPending: isJoining, isSuccess: joinSuccess } = useJoinCircle();
+  const deployment = useDeployment();
+  const { needsApproval, approve, isPending: isApproving, isConfirming: isApproveConfirming } = useTokenApproval(selectedAsset, address, deployment?.trustCircles, stake);
 
   useEffect(() => {
-    if (createSuccess || joinSuccess) {
+    if (createSuccess) {
       onSuccess();
       setShowCreate(false);
-      setShowJoin(false);
       setCircleName('');
-      setCircleIdToJoin('');
-      alert(createSuccess ? 'Circle created!' : 'Joined circle!');
     }
-  }, [createSuccess, joinSuccess, onSuccess]);
+  }, [createSuccess, onSuccess]);
 
   const handleCreate = () => {
     if (!circleName.trim()) {
       alert('Please enter a circle name');
       return;
     }
-    createCircle(circleName, '0.5');
-  };
-
-  const handleJoin = () => {
-    if (!circleIdToJoin || Number(circleIdToJoin) <= 0) {
-      alert('Please enter a valid circle ID');
+    if (!selectedAsset) {
+      alert('Please choose an asset');
       return;
     }
-    joinCircle(BigInt(circleIdToJoin), '0.5');
+    if (needsApproval) {
+      approve();
+      return;
+    }
+    createCircle(circleName, selectedAsset, stake);
   };
 
   return (
-    <div className="bg-white/10 backdrop-blur-md rounded-lg p-4 border border-white/20 h-[220px] flex flex-col">
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-4 border border-white/20 min-h-[220px] flex flex-col">
       <h3 className="text-lg font-bold text-white mb-3">Trust Circle</h3>
       
       {stats?.circleId > 0 ? (
@@ -386,6 +449,10 @@ function CircleManagement({ stats, circleDetails, circleCount, onSuccess }: any)
               </>
             )}
           </div>
+
+          <CircleApplicants circleId={stats.circleId} />
+
+          <LeaveCircle circleId={stats.circleId} onSuccess={onSuccess} />
         </>
       ) : (
         <>
@@ -397,7 +464,7 @@ function CircleManagement({ stats, circleDetails, circleCount, onSuccess }: any)
                 onClick={() => setShowCreate(true)}
                 className="w-full bg-white/90 hover:bg-white text-black py-2 text-sm rounded-lg font-semibold transition"
               >
-                Create Circle (0.5 POL)
+                Create Circle
               </button>
               <button
                 onClick={() => setShowJoin(true)}
@@ -418,13 +485,28 @@ function CircleManagement({ stats, circleDetails, circleCount, onSuccess }: any)
                 placeholder="Enter circle name"
                 className="w-full px-3 py-2 text-sm bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
               />
+              <select
+                value={assetAddress}
+                onChange={(e) => setAssetAddress(e.target.value as `0x${string}`)}
+                className="w-full px-3 py-2 text-sm bg-white/10 border border-white/20 rounded-lg text-white"
+              >
+                {enabledAssets.map(asset => (
+                  <option key={asset.address} value={asset.address} className="bg-black">
+                    {asset.symbol} circle · {formatAmount(asset.minStake, asset)} bond
+                  </option>
+                ))}
+              </select>
               <div className="flex gap-2">
                 <button
                   onClick={handleCreate}
-                  disabled={isCreating}
+                  disabled={isCreating || isApproving || isApproveConfirming || !selectedAsset}
                   className="flex-1 bg-white/90 hover:bg-white text-black py-2 text-sm rounded-lg font-semibold transition disabled:opacity-50"
                 >
-                  {isCreating ? 'Creating...' : 'Create'}
+                  {isCreating
+                    ? 'Creating...'
+                    : isApproving || isApproveConfirming
+                      ? 'Approving...'
+                      : needsApproval && selectedAsset ? `Approve ${selectedAsset.symbol}` : 'Create'}
                 </button>
                 <button
                   onClick={() => setShowCreate(false)}
@@ -437,30 +519,13 @@ function CircleManagement({ stats, circleDetails, circleCount, onSuccess }: any)
           )}
 
           {showJoin && (
-            <div className="space-y-2 flex-1 flex flex-col justify-center">
-              <input
-                type="number"
-                value={circleIdToJoin}
-                onChange={(e) => setCircleIdToJoin(e.target.value)}
-                placeholder="Enter circle ID"
-                className="w-full px-3 py-2 text-sm bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
-              />
-              <div className="flex gap-2">
-                <button
-                  onClick={handleJoin}
-                  disabled={isJoining}
-                  className="flex-1 bg-white/90 hover:bg-white text-black py-2 text-sm rounded-lg font-semibold transition disabled:opacity-50"
-                >
-                  {isJoining ? 'Joining...' : 'Join'}
-                </button>
-                <button
-                  onClick={() => setShowJoin(false)}
-                  className="flex-1 bg-white/10 hover:bg-white/20 text-white py-2 text-sm rounded-lg font-semibold transition"
-                >
-                  Cancel
-                </button>
-              </div>
-            </div>
+            <JoinCircleFlow
+              onJoined={() => {
+                onSuccess();
+                setShowJoin(false);
+              }}
+              onCancel={() => setShowJoin(false)}
+            />
           )}
         </>
       )}
@@ -468,8 +533,352 @@ function CircleManagement({ stats, circleDetails, circleCount, onSuccess }: any)
   );
 }
 
+// Join flow: apply, wait for members to vouch, then stake and join
+function JoinCircleFlow({ onJoined, onCancel }: { onJoined: () => void; onCancel: () => void }) {
+  const { address } = useAccount();
+  const [circleIdToJoin, setCircleIdToJoin] = useState('');
+  const circleId = circleIdToJoin && Number(circleIdToJoin) > 0 ? BigInt(circleIdToJoin) : undefined;
+
+  const { data: targetCircle } = useCircleDetails(circleId);
+  const { data: joinRequest, refetch: refetchRequest } = useJoinRequest(circleId, address);
+  const { data: requiredApprovals } = useRequiredApprovals(circleId);
+  const { data: assets } = useAssets();
+  const circleAsset = useCircleAsset(circleId);
+  const stake = assets?.find(asset => sameAsset(asset.address, circleAsset?.address))?.minStake ?? BigInt(0);
+  const { requestToJoin, isPending: isRequesting, isConfirming: isRequestConfirming, isSuccess: requestSuccess } = useRequestToJoin();
+  const { joinCircle, isPending: isJoining, isSuccess: joinSuccess } = useJoinCircle();
+  const deployment = useDeployment();
+  const { needsApproval, approve, isPending: isApproving, isConfirming: isApproveConfirming } = useTokenApproval(circleAsset, address, deployment?.trustCircles, stake);
+
+  useEffect(() => {
+    if (requestSuccess) {
+      refetchRequest();
+      alert('Join request sent! Circle members need to vouch for you.');
+    }
+  }, [requestSuccess, refetchRequest]);
+
+  useEffect(() => {
+    if (joinSuccess) {
+      onJoined();
+    }
+  }, [joinSuccess, onJoined]);
+
+  // Refresh votes while waiting on the circle
+  useEffect(() => {
+    if (!joinRequest || joinRequest[0] === BigInt(0) || joinRequest[3]) return;
+    const interval = setInterval(() => refetchRequest(), 5000);
+    return () => clearInterval(interval);
+  }, [joinRequest, refetchRequest]);
+
+  const hasRequested = !!joinRequest && joinRequest[0] > BigInt(0);
+  const isApproved = !!joinRequest && joinRequest[3];
+  // Circles left without members accept anyone, since nobody can vote
+  const isEmptyCircle = !!targetCircle && targetCircle[2] === BigInt(0);
+
+  const handleAction = () => {
+    if (!circleId) {
+      alert('Please enter a valid circle ID');
+      return;
+    }
+    if (isApproved || isEmptyCircle) {
+      if (!circleAsset) return;
+      if (needsApproval) {
+        approve();
+        return;
+      }
+      joinCircle(circleId, circleAsset, stake);
+    } else {
+      requestToJoin(circleId);
+    }
+  };
+
+  let actionLabel = 'Request to Join';
+  if (isApproved || isEmptyCircle) {
+    const bond = circleAsset ? formatAmount(stake, circleAsset) : '...';
+    if (isJoining) actionLabel = 'Joining...';
+    else if (isApproving || isApproveConfirming) actionLabel = 'Approving...';
+    else actionLabel = needsApproval ? `Approve ${bond}` : `Join (${bond})`;
+  }
+  else if (isRequesting || isRequestConfirming) actionLabel = 'Requesting...';
+  else if (hasRequested) actionLabel = 'Waiting for vouches';
+
+  return (
+    <div className="space-y-2 flex-1 flex flex-col justify-center">
+      <input
+        type="number"
+        value={circleIdToJoin}
+        onChange={(e) => setCircleIdToJoin(e.target.value)}
+        placeholder="Enter circle ID"
+        className="w-full px-3 py-2 text-sm bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+      />
+      {hasRequested && !isApproved && joinRequest && (
+        <p className="text-xs text-white/60 text-center">
+          {Number(joinRequest[1])} / {requiredApprovals !== undefined ? Number(requiredApprovals) : '?'} vouches · {Number(joinRequest[2])} against
+        </p>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={handleAction}
+          disabled={isJoining || isApproving || isApproveConfirming || isRequesting || isRequestConfirming || (hasRequested && !isApproved && !isEmptyCircle)}
+          className="flex-1 bg-white/90 hover:bg-white text-black py-2 text-sm rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {actionLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-white/10 hover:bg-white/20 text-white py-2 text-sm rounded-lg font-semibold transition"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Pending applicants to your circle, with vouch/reject voting
+function CircleApplicants({ circleId }: { circleId: number }) {
+  const { address } = useAccount();
+  const { data: circle } = useCircle(BigInt(circleId));
+  const { data: joinRequests, refetch: refetchRequests } = useJoinRequests(BigInt(circleId));
+  const { data: requiredApprovals, refetch: refetchRequired } = useRequiredApprovals(BigInt(circleId));
+  const { data: admissionQuorum, refetch: refetchQuorum } = useAdmissionQuorum(BigInt(circleId));
+  const { setAdmissionQuorum, isPending: isSettingQuorum, isSuccess: quorumSuccess } = useSetAdmissionQuorum();
+  const [quorumInput, setQuorumInput] = useState('');
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetchRequests();
+      refetchRequired();
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [refetchRequests, refetchRequired]);
+
+  useEffect(() => {
+    if (quorumSuccess) {
+      refetchQuorum();
+      refetchRequired();
+      setQuorumInput('');
+    }
+  }, [quorumSuccess, refetchQuorum, refetchRequired]);
+
+  const isCreator = !!circle && !!address && circle[5].toLowerCase() === address.toLowerCase();
+  const applicants = joinRequests ? joinRequests[0] : [];
+
+  const handleSetQuorum = () => {
+    const quorum = Number(quorumInput);
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > 100) {
+      alert('Quorum must be between 1 and 100%');
+      return;
+    }
+    setAdmissionQuorum(BigInt(circleId), quorum);
+  };
+
+  return (
+    <div className="mt-3 bg-white/5 p-3 rounded-lg">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-white/60 text-sm">Applicants</p>
+        <p className="text-white/40 text-xs">
+          Quorum {admissionQuorum !== undefined ? Number(admissionQuorum) : 0}% · {requiredApprovals !== undefined ? Number(requiredApprovals) : 0} vouches needed
+        </p>
+      </div>
+
+      {applicants.length === 0 ? (
+        <p className="text-white/40 text-xs text-center py-2">No pending applicants</p>
+      ) : (
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {applicants.map((applicant, i) => (
+            <ApplicantRow
+              key={applicant}
+              circleId={circleId}
+              applicant={applicant}
+              approvals={Number(joinRequests![1][i])}
+              rejections={Number(joinRequests![2][i])}
+              approved={joinRequests![3][i]}
+              requiredApprovals={requiredApprovals !== undefined ? Number(requiredApprovals) : 0}
+              onVoted={refetchRequests}
+            />
+          ))}
+        </div>
+      )}
+
+      {isCreator && (
+        <div className="flex gap-2 mt-2">
+          <input
+            type="number"
+            value={quorumInput}
+            onChange={(e) => setQuorumInput(e.target.value)}
+            placeholder="New quorum %"
+            className="flex-1 px-3 py-1 text-xs bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+          />
+          <button
+            onClick={handleSetQuorum}
+            disabled={isSettingQuorum || !quorumInput}
+            className="px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-xs rounded-lg font-semibold transition border border-white/20 disabled:opacity-50"
+          >
+            {isSettingQuorum ? 'Saving...' : 'Set Quorum'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ApplicantRow({
+  circleId,
+  applicant,
+  approvals,
+  rejections,
+  approved,
+  requiredApprovals,
+  onVoted,
+}: {
+  circleId: number;
+  applicant: `0x${string}`;
+  approvals: number;
+  rejections: number;
+  approved: boolean;
+  requiredApprovals: number;
+  onVoted: () => unknown;
+}) {
+  const { address } = useAccount();
+  const { data: joinRequest } = useJoinRequest(BigInt(circleId), applicant);
+  const { data: votes, refetch: refetchVotes } = useJoinVotes(joinRequest ? joinRequest[0] : undefined);
+  const { voteOnJoinRequest, isPending, isConfirming, isSuccess } = useVoteOnJoinRequest();
+
+  useEffect(() => {
+    if (isSuccess) {
+      refetchVotes();
+      onVoted();
+    }
+  }, [isSuccess, refetchVotes, onVoted]);
+
+  const hasVoted = !!votes && !!address && votes.some(vote => vote.voter.toLowerCase() === address.toLowerCase());
+  const isVoting = isPending || isConfirming;
+
+  return (
+    <div className="border border-white/10 rounded-lg p-2">
+      <div className="flex justify-between items-center">
+        <p className="text-white text-xs font-mono">{applicant.slice(0, 6)}...{applicant.slice(-4)}</p>
+        <p className={`text-xs ${approved ? 'text-green-400' : 'text-white/60'}`}>
+          {approved ? '✓ Approved' : `${approvals} / ${requiredApprovals} vouches · ${rejections} against`}
+        </p>
+      </div>
+
+      {votes && votes.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {votes.map(vote => (
+            <span
+              key={vote.voter}
+              className={`text-[10px] font-mono px-1.5 py-0.5 rounded ${vote.approve ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}
+            >
+              {vote.approve ? '✓' : '✕'} {vote.voter.slice(0, 6)}...{vote.voter.slice(-4)}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!approved && !hasVoted && (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => voteOnJoinRequest(applicant, true)}
+            disabled={isVoting}
+            className="flex-1 bg-white/90 hover:bg-white text-black py-1 text-xs rounded-lg font-semibold transition disabled:opacity-50"
+          >
+            {isVoting ? 'Voting...' : 'Vouch'}
+          </button>
+          <button
+            onClick={() => voteOnJoinRequest(applicant, false)}
+            disabled={isVoting}
+            className="flex-1 bg-white/10 hover:bg-white/20 text-white py-1 text-xs rounded-lg font-semibold transition border border-white/20 disabled:opacity-50"
+          >
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Leave circle: request, wait out the cooldown, then withdraw the bond
+function LeaveCircle({ circleId, onSuccess }: { circleId: number; onSuccess: () => void }) {
+  const { address } = useAccount();
+  const { data: memberData, refetch: refetchMember } = useMemberData(address);
+  const { data: requestedAt, refetch: refetchRequestedAt } = useLeaveRequestedAt(address);
+  const { data: cooldown } = useLeaveCooldown();
+  const { data: circleHasActiveLoan } = useCircleHasActiveLoan(BigInt(circleId));
+  const asset = useCircleAsset(BigInt(circleId));
+
+  const { requestLeaveCircle, isPending: isRequesting, isConfirming: isRequestConfirming, isSuccess: requestSuccess } = useRequestLeaveCircle();
+  const { cancelLeaveCircle, isPending: isCancelling, isSuccess: cancelSuccess } = useCancelLeaveCircle();
+  const { leaveCircle, isPending: isLeaving, isConfirming: isLeaveConfirming, isSuccess: leaveSuccess } = useLeaveCircle();
+
+  useEffect(() => {
+    if (requestSuccess || cancelSuccess) {
+      refetchRequestedAt();
+    }
+  }, [requestSuccess, cancelSuccess, refetchRequestedAt]);
+
+  useEffect(() => {
+    if (leaveSuccess) {
+      refetchMember();
+      refetchRequestedAt();
+      onSuccess();
+    }
+  }, [leaveSuccess, onSuccess, refetchMember, refetchRequestedAt]);
+
+  const bond = memberData && asset ? formatAmount(memberData[2], asset) : '...';
+  const leaveRequested = requestedAt !== undefined && requestedAt > BigInt(0);
+  const availableAt = leaveRequested && cooldown !== undefined ? Number(requestedAt + cooldown) : 0;
+  const cooldownOver = leaveRequested && Date.now() / 1000 >= availableAt;
+
+  if (!leaveRequested) {
+    return (
+      <div className="mt-3">
+        <button
+          onClick={requestLeaveCircle}
+          disabled={!!circleHasActiveLoan || isRequesting || isRequestConfirming}
+          className="w-full bg-white/10 hover:bg-white/20 text-white py-2 text-sm rounded-lg font-semibold transition border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRequesting || isRequestConfirming ? 'Requesting...' : `Leave Circle (refund ${bond})`}
+        </button>
+        {circleHasActiveLoan && (
+          <p className="text-xs text-white/40 text-center mt-1">You can leave once no one in your circle has an active loan</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="flex gap-2">
+        <button
+          onClick={leaveCircle}
+          disabled={!cooldownOver || !!circleHasActiveLoan || isLeaving || isLeaveConfirming}
+          className="flex-1 bg-white/90 hover:bg-white text-black py-2 text-sm rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLeaving || isLeaveConfirming ? 'Leaving...' : `Withdraw ${bond} & Leave`}
+        </button>
+        <button
+          onClick={cancelLeaveCircle}
+          disabled={isCancelling}
+          className="flex-1 bg-white/10 hover:bg-white/20 text-white py-2 text-sm rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {isCancelling ? 'Cancelling...' : 'Stay'}
+        </button>
+      </div>
+      <p className="text-xs text-white/40 text-center mt-1">
+        {cooldownOver
+          ? circleHasActiveLoan
+            ? 'Waiting for your circle to repay its active loans'
+            : 'Cooldown complete'
+          : `Borrowing paused · you can leave after ${new Date(availableAt * 1000).toLocaleString()}`}
+      </p>
+    </div>
+  );
+}
+
 // Loan Eligibility Component
-function LoanEligibility({ stats }: any) {
+function LoanEligibility({ stats, asset }: { stats: any; asset: AssetInfo | undefined }) {
   const hasCircle = stats?.circleId > 0;
   
   // Use values directly from contract
@@ -485,17 +894,17 @@ function LoanEligibility({ stats }: any) {
           <div className="bg-white/5 p-3 rounded-lg flex-1 grid grid-cols-3 gap-3">
             <div>
               <p className="text-white/60 text-sm mb-1">Max Loan</p>
-              <p className="text-white text-xl font-bold">{formatEther(BigInt(maxLoan))} POL</p>
+              <p className="text-white text-xl font-bold">{asset ? formatAmount(BigInt(maxLoan), asset) : '...'}</p>
             </div>
             
             <div>
-              <p className="text-white/60 text-sm mb-1">Interest</p>
+              <p className="text-white/60 text-sm mb-1">APR</p>
               <p className="text-white text-xl font-bold">{interestRate}%</p>
             </div>
 
             <div>
-              <p className="text-white/60 text-sm mb-1">Duration</p>
-              <p className="text-white text-base">7 days</p>
+              <p className="text-white/60 text-sm mb-1">Installments</p>
+              <p className="text-white text-base">Up to 6 weekly</p>
             </div>
           </div>
         </>
@@ -509,17 +918,18 @@ function LoanEligibility({ stats }: any) {
 }
 
 // Request Loan Form
-function RequestLoanForm({ stats, onSuccess }: any) {
+function RequestLoanForm({ stats, asset, onSuccess }: { stats: any; asset: AssetInfo | undefined; onSuccess: () => void }) {
   const [amount, setAmount] = useState('');
   const [purpose, setPurpose] = useState('');
+  const [installments, setInstallments] = useState(4);
   const { requestLoan, isPending, isSuccess } = useRequestLoan();
 
   useEffect(() => {
     if (isSuccess) {
       setAmount('');
       setPurpose('');
+      setInstallments(4);
       onSuccess();
-      alert('Loan request submitted!');
     }
   }, [isSuccess, onSuccess]);
 
@@ -533,7 +943,8 @@ function RequestLoanForm({ stats, onSuccess }: any) {
       alert('Please provide a loan purpose');
       return;
     }
-    requestLoan(amount, purpose);
+    if (!asset) return;
+    requestLoan(amount, purpose, installments, asset);
   };
 
   const hasCircle = stats?.circleId > 0;
@@ -546,11 +957,11 @@ function RequestLoanForm({ stats, onSuccess }: any) {
       {!hasCircle ? (
         <p className="text-white/60 text-center py-8">Join a Trust Circle first</p>
       ) : hasActiveLoan ? (
-        <p className="text-white/60 text-center py-8">Repay active loan before requesting new one</p>
+        <p className="text-white/60 text-center py-8">Repay your active loan or credit line before requesting a new loan</p>
       ) : (
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label className="text-sm text-white/60 mb-2 block">Amount (POL)</label>
+            <label className="text-sm text-white/60 mb-2 block">Amount ({asset?.symbol ?? '...'})</label>
             <input
               type="number"
               step="1"
@@ -563,6 +974,26 @@ function RequestLoanForm({ stats, onSuccess }: any) {
             />
           </div>
 
+          <div>
+            <label className="text-sm text-white/60 mb-2 block">Repay In</label>
+            <div className="grid grid-cols-4 gap-2">
+              {INSTALLMENT_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setInstallments(option)}
+                  className={`py-2 text-sm rounded-lg font-semibold transition border ${
+                    installments === option
+                      ? 'bg-white/90 text-black border-white'
+                      : 'bg-white/10 hover:bg-white/20 text-white border-white/20'
+                  }`}
+                >
+                  {option === 1 ? '1 payment' : `${option} weekly`}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div>
             <label className="text-sm text-white/60 mb-2 block">Purpose</label>
             <textarea
@@ -576,7 +1007,7 @@ function RequestLoanForm({ stats, onSuccess }: any) {
 
           <button
             type="submit"
-            disabled={isPending}
+            disabled={isPending || !asset}
             className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
           >
             {isPending ? 'Submitting...' : 'Request Loan'}
@@ -589,6 +1020,7 @@ function RequestLoanForm({ stats, onSuccess }: any) {
 
 // Active Loan Component - shows first active loan
 function ActiveLoan({ loanIds, onRepaySuccess }: { loanIds: number[]; onRepaySuccess: () => void }) {
+  const { address } = useAccount();
   const [activeLoanId, setActiveLoanId] = useState<number | null>(null);
 
   // Check each loan to find active one
@@ -610,29 +1042,54 @@ function ActiveLoan({ loanIds, onRepaySuccess }: { loanIds: number[]; onRepaySuc
   }, [loanIds]);
 
   const { data: loanDetails, refetch: refetchLoan } = useLoanDetails(activeLoanId ? BigInt(activeLoanId) : undefined);
-  const { repayLoan, isPending, isConfirming, isSuccess, error } = useRepayLoan();
+  const { data: schedule, refetch: refetchSchedule } = useLoanSchedule(activeLoanId ? BigInt(activeLoanId) : undefined);
+  const { data: nextInstallment, refetch: refetchNext } = useNextInstallment(activeLoanId ? BigInt(activeLoanId) : undefined);
+  const { data: amountOwed, refetch: refetchOwed } = useAmountOwed(activeLoanId ? BigInt(activeLoanId) : undefined);
+  const asset = useLoanAsset(activeLoanId ? BigInt(activeLoanId) : undefined);
+  const { repayLoan, isPending, isConfirming, isSuccess } = useRepayLoan();
+
+  // Interest keeps accruing until the payment is mined, so send 0.1% extra;
+  // the contract refunds (or for tokens, never pulls) anything above the amount owed
+  const withAccrualBuffer = (amount: bigint) => amount + amount / BigInt(1000);
+  const payoffAmount = withAccrualBuffer(amountOwed ?? BigInt(0));
+  // One approval for the full payoff covers installments too
+  const deployment = useDeployment();
+  const { needsApproval, approve, isPending: isApproving, isConfirming: isApproveConfirming } = useTokenApproval(asset, address, deployment?.trustCircles, payoffAmount);
 
   // If this loan isn't active (disbursed but not repaid), don't show it
-  const isActiveLoan = loanDetails && loanDetails[4] && loanDetails[5] && !loanDetails[6];
+  const isActiveLoan = loanDetails && loanDetails[4] && loanDetails[5] && !loanDetails[6] && !loanDetails[8];
 
   useEffect(() => {
     if (isSuccess) {
-      setTimeout(() => {
-        refetchLoan();
-        onRepaySuccess();
-        alert('Loan repaid successfully!');
-      }, 2000);
+      refetchLoan();
+      refetchSchedule();
+      refetchNext();
+      refetchOwed();
+      onRepaySuccess();
     }
-  }, [isSuccess, onRepaySuccess, refetchLoan]);
+  }, [isSuccess, onRepaySuccess, refetchLoan, refetchSchedule, refetchNext, refetchOwed]);
 
-  useEffect(() => {
-    if (error) {
-      console.error('Repay loan error:', error);
-      alert('Failed to repay loan. Please try again.');
-    }
-  }, [error]);
+  const handleApproved = useCallback(() => {
+    refetchLoan();
+    refetchSchedule();
+    refetchNext();
+    refetchOwed();
+    onRepaySuccess();
+  }, [onRepaySuccess, refetchLoan, refetchSchedule, refetchNext, refetchOwed]);
 
-  if (!activeLoanId || !loanDetails || !isActiveLoan) {
+  // Requested but not yet approved: offer the risk oracle's instant approval
+  if (activeLoanId && loanDetails && asset && !loanDetails[4] && !loanDetails[8]) {
+    return (
+      <PendingApproval
+        loanId={activeLoanId}
+        amount={loanDetails[1]}
+        asset={asset}
+        onApproved={handleApproved}
+      />
+    );
+  }
+
+  if (!activeLoanId || !loanDetails || !isActiveLoan || !asset) {
     return (
       <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
         <h3 className="text-xl font-bold text-white mb-4">Active Loan</h3>
@@ -641,11 +1098,28 @@ function ActiveLoan({ loanIds, onRepaySuccess }: { loanIds: number[]; onRepaySuc
     );
   }
 
-  const handleRepay = () => {
-    const totalRepayment = formatEther(loanDetails[2]); // totalRepayment includes principal + interest
-    
-    if (window.confirm(`Repay ${totalRepayment} POL?`)) {
-      repayLoan(BigInt(activeLoanId), totalRepayment);
+  // Live balance: principal + interest accrued up to the latest block
+  const remainingBalance = amountOwed ?? (schedule ? schedule[3] : loanDetails[2]);
+  const amountRepaid = schedule ? schedule[2] : BigInt(0);
+  const interestAccrued = remainingBalance + amountRepaid - loanDetails[1];
+  const installmentCount = schedule ? Number(schedule[0]) : 1;
+  const installmentsPaid = schedule ? Number(schedule[1]) : 0;
+  const nextNumber = nextInstallment ? Number(nextInstallment[0]) : 0;
+  const nextAmountDue = nextInstallment ? nextInstallment[1] : BigInt(0);
+  const nextDueDate = nextInstallment ? Number(nextInstallment[2]) : 0;
+  const isOverdue = nextDueDate > 0 && Date.now() / 1000 > nextDueDate;
+
+  const toPayment = (amount: bigint) => formatUnits(withAccrualBuffer(amount), asset.decimals);
+
+  const handlePayInstallment = () => {
+    if (window.confirm(`Pay installment ${nextNumber} of ${installmentCount} (~${formatAmount(nextAmountDue, asset)})?`)) {
+      repayLoan(BigInt(activeLoanId), toPayment(nextAmountDue), asset);
+    }
+  };
+
+  const handlePayInFull = () => {
+    if (window.confirm(`Pay remaining balance of ~${formatAmount(remainingBalance, asset)}? Any excess is refunded.`)) {
+      repayLoan(BigInt(activeLoanId), toPayment(remainingBalance), asset);
     }
   };
 
@@ -655,10 +1129,26 @@ function ActiveLoan({ loanIds, onRepaySuccess }: { loanIds: number[]; onRepaySuc
       
       <div className="bg-white/5 p-4 rounded-lg mb-4">
         <p className="text-white/60 text-sm mb-1">Loan Amount</p>
-        <p className="text-white text-2xl font-bold mb-3">{formatEther(loanDetails[1])} POL</p>
+        <p className="text-white text-2xl font-bold mb-3">{formatAmount(loanDetails[1], asset)}</p>
         
-        <p className="text-white/60 text-sm mb-1">Total Repayment</p>
-        <p className="text-white mb-3 font-bold">{formatEther(loanDetails[2])} POL</p>
+        <p className="text-white/60 text-sm mb-1">Amount Owed Now</p>
+        <p className="text-white mb-1 font-bold">{formatAmount(remainingBalance, asset)}</p>
+        <p className={`text-sm mb-3 ${isOverdue ? 'text-red-300' : 'text-white/60'}`}>
+          {formatAmount(interestAccrued, asset)} interest accrued{isOverdue && ' · overdue, penalty rate applies'}
+        </p>
+
+        <p className="text-white/60 text-sm mb-1">Installments Paid</p>
+        <p className="text-white mb-3">{installmentsPaid} / {installmentCount} ({formatAmount(remainingBalance, asset)} remaining)</p>
+
+        {nextNumber > 0 && (
+          <>
+            <p className="text-white/60 text-sm mb-1">Next Installment</p>
+            <p className="text-white mb-3 font-bold">
+              {formatAmount(nextAmountDue, asset)}
+              <span className="text-white/60 text-sm font-normal"> due {new Date(nextDueDate * 1000).toLocaleString()}</span>
+            </p>
+          </>
+        )}
 
         <p className="text-white/60 text-sm mb-1">Purpose</p>
         <p className="text-white text-sm mb-3">{loanDetails[7]}</p>
@@ -669,14 +1159,331 @@ function ActiveLoan({ loanIds, onRepaySuccess }: { loanIds: number[]; onRepaySuc
         </p>
       </div>
 
-      {loanDetails[5] && !loanDetails[6] && (
+      {loanDetails[5] && !loanDetails[6] && needsApproval && (
+        <button
+          onClick={approve}
+          disabled={isApproving || isApproveConfirming}
+          className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApproving || isApproveConfirming ? 'Approving...' : `Approve ${asset.symbol} for Repayment`}
+        </button>
+      )}
+
+      {loanDetails[5] && !loanDetails[6] && !needsApproval && (
+        <div className="flex gap-2">
+          <button
+            onClick={handlePayInstallment}
+            disabled={isPending || isConfirming || nextNumber === 0}
+            className="flex-1 bg-green-500/90 hover:bg-green-500 text-white py-3 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isConfirming ? 'Confirming...' : isPending ? 'Processing...' : 'Pay Installment'}
+          </button>
+          {installmentCount - installmentsPaid > 1 && (
+            <button
+              onClick={handlePayInFull}
+              disabled={isPending || isConfirming}
+              className="flex-1 bg-white/10 hover:bg-white/20 text-white py-3 rounded-lg font-semibold transition border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Pay in Full
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Pending Approval Component - low-risk loans are approved by the risk oracle instead of a loan officer
+function PendingApproval({ loanId, amount, asset, onApproved }: { loanId: number; amount: bigint; asset: AssetInfo; onApproved: () => void }) {
+  const [result, setResult] = useState<LoanApprovalResult | null>(null);
+  const [checked, setChecked] = useState(false);
+  const { requestApproval, isRequesting } = useLoanApproval();
+  const { approveWithAttestation, isPending, isConfirming, isSuccess } = useApproveWithAttestation();
+
+  useEffect(() => {
+    let cancelled = false;
+    requestApproval(loanId).then(approval => {
+      if (cancelled) return;
+      setResult(approval);
+      setChecked(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loanId, requestApproval]);
+
+  useEffect(() => {
+    if (isSuccess) {
+      onApproved();
+    }
+  }, [isSuccess, onApproved]);
+
+  const handleClaim = async () => {
+    let attestation = result?.attestation;
+    // Signatures are short-lived; fetch a fresh one if this one is about to expire
+    if (!attestation || attestation.expiresAt * 1000 < Date.now() + 60_000) {
+      const fresh = await requestApproval(loanId);
+      setResult(fresh);
+      attestation = fresh?.attestation;
+    }
+    if (attestation) {
+      approveWithAttestation(BigInt(loanId), attestation.expiresAt, attestation.signature);
+    }
+  };
+
+  let status: JSX.Element;
+  if (!checked) {
+    status = <p className="text-white/60 text-center py-4">Running risk checks...</p>;
+  } else if (result?.decision === 'approve' && result.attestation) {
+    status = (
+      <>
+        <p className="text-green-400 font-semibold mb-1">✓ Pre-approved by risk checks</p>
+        <p className="text-white/60 text-sm mb-4">Trust score {result.trustScore}/60 · submit the approval to receive your funds now</p>
         <button
-          onClick={handleRepay}
-          disabled={isPending || isConfirming}
+          onClick={handleClaim}
+          disabled={isRequesting || isPending || isConfirming || isSuccess}
           className="w-full bg-green-500/90 hover:bg-green-500 text-white py-3 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {isConfirming ? 'Confirming...' : isPending ? 'Processing...' : 'Repay Loan'}
+          {isConfirming ? 'Confirming...' : isPending ? 'Processing...' : 'Receive Funds'}
         </button>
+      </>
+    );
+  } else if (result?.decision === 'block') {
+    status = (
+      <>
+        <p className="text-red-300 font-semibold mb-1">✕ Declined by risk checks</p>
+        <p className="text-white/60 text-sm">{result.explanation}</p>
+      </>
+    );
+  } else {
+    status = (
+      <>
+        <p className="text-yellow-400 font-semibold mb-1">○ Waiting for a loan officer</p>
+        <p className="text-white/60 text-sm">
+          {result?.decision === 'review' ? 'This request was flagged for manual review.' : 'This request will be reviewed manually.'}
+        </p>
+      </>
+    );
+  }
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Loan #{loanId} Pending</h3>
+      <div className="bg-white/5 p-4 rounded-lg mb-4">
+        <p className="text-white/60 text-sm mb-1">Requested Amount</p>
+        <p className="text-white text-2xl font-bold">{formatAmount(amount, asset)}</p>
+      </div>
+      {status}
+    </div>
+  );
+}
+
+// Credit Line Component - card-style statement for the revolving line
+function CreditLine({ stats, asset, onSuccess }: { stats: any; asset: AssetInfo | undefined; onSuccess: () => void }) {
+  const { address } = useAccount();
+  const [drawAmount, setDrawAmount] = useState('');
+  const [payAmount, setPayAmount] = useState('');
+  const { data: statement, refetch: refetchStatement } = useCreditStatement(address);
+  const { data: activity, refetch: refetchActivity } = useCreditActivity(address);
+  const { data: creditLinesAddress } = useCreditLinesAddress();
+  const { draw, isPending: isDrawing, isConfirming: isDrawConfirming, isSuccess: isDrawSuccess } = useDrawCredit();
+  const { repay, isPending: isPaying, isConfirming: isPayConfirming, isSuccess: isPaySuccess } = useRepayCredit();
+
+  const balance = statement ? statement[1] : BigInt(0);
+  // Interest accrues every second, so a full payoff sends 0.1% extra; the contract refunds the excess
+  const payoffAmount = balance + balance / BigInt(1000);
+  const { needsApproval, approve, isPending: isApproving, isConfirming: isApproveConfirming } = useTokenApproval(asset, address, creditLinesAddress, payoffAmount);
+
+  useEffect(() => {
+    if (isDrawSuccess || isPaySuccess) {
+      setDrawAmount('');
+      setPayAmount('');
+      refetchStatement();
+      refetchActivity();
+      onSuccess();
+    }
+  }, [isDrawSuccess, isPaySuccess, refetchStatement, refetchActivity, onSuccess]);
+
+  const hasCircle = stats?.circleId > 0;
+  // An installment loan also sets hasActiveLoan; only an open line may keep drawing
+  const hasTermLoan = stats?.hasActiveLoan && balance === BigInt(0);
+
+  if (!hasCircle || !statement || !asset) {
+    return (
+      <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+        <h3 className="text-xl font-bold text-white mb-4">Credit Line</h3>
+        <p className="text-white/60 text-center py-8">Join a Trust Circle first</p>
+      </div>
+    );
+  }
+
+  const [creditLimit, , availableCredit, utilization, minimumDue, dueDate, interestRate, overdue] = statement;
+  const utilizationPercent = Number(utilization) / 100;
+
+  const handleDraw = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!drawAmount || parseFloat(drawAmount) <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+    if (parseAmount(drawAmount, asset) > availableCredit) {
+      alert(`Only ${formatAmount(availableCredit, asset)} of credit is available`);
+      return;
+    }
+    draw(drawAmount, asset);
+  };
+
+  const handlePay = (amount: bigint) => {
+    if (amount <= BigInt(0)) return;
+    if (window.confirm(`Pay ${formatAmount(amount, asset)} towards your credit line?`)) {
+      repay(amount, asset);
+    }
+  };
+
+  const handlePayCustom = () => {
+    if (!payAmount || parseFloat(payAmount) <= 0) {
+      alert('Please enter a valid amount');
+      return;
+    }
+    handlePay(parseAmount(payAmount, asset));
+  };
+
+  const isBusy = isDrawing || isDrawConfirming || isPaying || isPayConfirming;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg p-6 border border-white/20">
+      <h3 className="text-xl font-bold text-white mb-4">Credit Line</h3>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-white/60 text-sm mb-1">Current Balance</p>
+          <p className="text-white text-2xl font-bold mb-3">{formatAmount(balance, asset)}</p>
+
+          <div className="flex justify-between text-sm text-white/60 mb-1">
+            <span>{utilizationPercent.toFixed(1)}% used</span>
+            <span>Limit {formatAmount(creditLimit, asset)}</span>
+          </div>
+          <div className="w-full bg-white/10 rounded-full h-2 mb-3">
+            <div
+              className={`h-2 rounded-full ${utilizationPercent > 80 ? 'bg-red-400' : utilizationPercent > 50 ? 'bg-yellow-400' : 'bg-green-400'}`}
+              style={{ width: `${Math.min(utilizationPercent, 100)}%` }}
+            />
+          </div>
+
+          <p className="text-white/60 text-sm mb-1">Available Credit</p>
+          <p className="text-white mb-3">{formatAmount(availableCredit, asset)}</p>
+
+          <p className="text-white/60 text-sm mb-1">APR</p>
+          <p className="text-white">{Number(interestRate) / 100}%</p>
+        </div>
+
+        <div className="bg-white/5 p-4 rounded-lg">
+          <p className="text-white/60 text-sm mb-1">Minimum Due</p>
+          <p className="text-white text-2xl font-bold mb-1">{formatAmount(minimumDue, asset)}</p>
+          {dueDate > BigInt(0) && (
+            <p className={`text-sm mb-3 ${overdue ? 'text-red-300' : 'text-white/60'}`}>
+              {overdue ? 'Overdue since' : 'Due'} {new Date(Number(dueDate) * 1000).toLocaleString()}
+              {overdue && ' · penalty rate applies'}
+            </p>
+          )}
+
+          {balance > BigInt(0) && needsApproval ? (
+            <button
+              onClick={approve}
+              disabled={isApproving || isApproveConfirming}
+              className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isApproving || isApproveConfirming ? 'Approving...' : `Approve ${asset.symbol} for Payments`}
+            </button>
+          ) : balance > BigInt(0) && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handlePay(minimumDue)}
+                  disabled={isBusy || minimumDue === BigInt(0)}
+                  className="flex-1 bg-green-500/90 hover:bg-green-500 text-white py-2 rounded-lg font-semibold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Pay Minimum
+                </button>
+                <button
+                  onClick={() => handlePay(payoffAmount)}
+                  disabled={isBusy}
+                  className="flex-1 bg-white/10 hover:bg-white/20 text-white py-2 rounded-lg font-semibold transition border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Pay in Full
+                </button>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  step="any"
+                  value={payAmount}
+                  onChange={(e) => setPayAmount(e.target.value)}
+                  placeholder={`Other amount (${asset.symbol})`}
+                  className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+                />
+                <button
+                  onClick={handlePayCustom}
+                  disabled={isBusy}
+                  className="bg-white/90 hover:bg-white text-black px-4 py-2 rounded-lg font-semibold transition disabled:opacity-50"
+                >
+                  Pay
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white/5 p-4 rounded-lg">
+          {hasTermLoan ? (
+            <p className="text-white/60 text-center py-8">Repay your installment loan before drawing credit</p>
+          ) : overdue ? (
+            <p className="text-red-300 text-center py-8">Pay the minimum due to keep drawing credit</p>
+          ) : (
+            <form onSubmit={handleDraw} className="space-y-3">
+              <label className="text-sm text-white/60 block">Draw ({asset.symbol})</label>
+              <input
+                type="number"
+                step="any"
+                value={drawAmount}
+                onChange={(e) => setDrawAmount(e.target.value)}
+                placeholder={`Up to ${formatUnits(availableCredit, asset.decimals)}`}
+                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/40"
+              />
+              <button
+                type="submit"
+                disabled={isBusy || availableCredit === BigInt(0)}
+                className="w-full bg-white/90 hover:bg-white text-black py-3 rounded-lg font-semibold transition disabled:opacity-50"
+              >
+                {isDrawConfirming ? 'Confirming...' : isDrawing ? 'Processing...' : 'Draw Funds'}
+              </button>
+              <p className="text-white/40 text-xs">
+                Each statement asks for at least 10% of the balance plus interest; a missed minimum can be defaulted after the grace period.
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {activity && activity.length > 0 && (
+        <div className="mt-6">
+          <p className="text-white/60 text-sm mb-2">Recent Activity</p>
+          <div className="space-y-1">
+            {activity.slice(0, 8).map(entry => (
+              <div key={`${entry.txHash}-${entry.kind}`} className="flex justify-between text-sm border-b border-white/10 py-2">
+                <span className="text-white">
+                  {entry.kind === 'draw' ? 'Draw' : entry.kind === 'payment' ? 'Payment' : 'Statement'}
+                  <span className="text-white/40"> · {new Date(Number(entry.timestamp) * 1000).toLocaleDateString()}</span>
+                </span>
+                <span className={entry.kind === 'payment' ? 'text-green-400' : 'text-white'}>
+                  {entry.kind === 'statement'
+                    ? `${formatAmount(entry.amount, asset)} min due`
+                    : `${entry.kind === 'draw' ? '+' : '−'}${formatAmount(entry.amount, asset)}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
       )}
     </div>
   );
@@ -724,6 +1531,7 @@ function LoanHistory({ loanIds, userAddress }: { loanIds: number[]; userAddress:
 
 function LoanHistoryRow({ loanId }: { loanId: number }) {
   const { data: loanDetails } = useLoanDetails(BigInt(loanId));
+  const asset = useLoanAsset(BigInt(loanId));
   const [currentTime, setCurrentTime] = useState(Math.floor(Date.now() / 1000));
 
   // Update current time every second to check due status
@@ -734,7 +1542,7 @@ function LoanHistoryRow({ loanId }: { loanId: number }) {
     return () => clearInterval(timer);
   }, []);
 
-  if (!loanDetails) return null;
+  if (!loanDetails || !asset) return null;
 
   // Extract loan data
   const amount = loanDetails[1];
@@ -742,12 +1550,16 @@ function LoanHistoryRow({ loanId }: { loanId: number }) {
   const approved = loanDetails[4];
   const disbursed = loanDetails[5];
   const repaid = loanDetails[6];
+  const defaulted = loanDetails[8];
 
   // Determine status with real-time due date checking
   let status = '';
   let statusColor = '';
 
-  if (repaid) {
+  if (defaulted) {
+    status = '✕ Defaulted';
+    statusColor = 'text-red-500';
+  } else if (repaid) {
     status = '✓ Paid';
     statusColor = 'text-green-400';
   } else if (disbursed) {
@@ -770,7 +1582,7 @@ function LoanHistoryRow({ loanId }: { loanId: number }) {
   return (
     <tr className="border-b border-white/10">
       <td className="py-3 text-white">{loanId}</td>
-      <td className="py-3 text-white">{formatEther(amount)} POL</td>
+      <td className="py-3 text-white">{formatAmount(amount, asset)}</td>
       <td className={`py-3 text-sm font-semibold ${statusColor}`}>
         {status}
       </td>
@@ -1,9 +1,10 @@
 'use client';
 
 import { RiskLevel } from '@/lib/types/fraud';
+import { LOW_RISK_MIN_TRUST, MEDIUM_RISK_MIN_TRUST, toRiskScore } from '@/lib/fraudDetection';
 
 interface FraudScoreBadgeProps {
-  score: number;
+  score: number; // riskScore (0-100)
   riskLevel: RiskLevel;
   size?: 'sm' | 'md' | 'lg';
   showLabel?: boolean;
@@ -76,18 +77,20 @@ export function VerificationBadge({ isVerified, size = 'md' }: VerificationBadge
 }
 
 interface FraudScoreDisplayProps {
-  score: number;
+  score: number; // riskScore (0-100)
   riskLevel: RiskLevel;
   isVerified: boolean;
-  verificationBonus?: number;
   showDetails?: boolean;
 }
 
+// Risk score bands matching the trust score risk levels
+const LOW_RISK_MAX = toRiskScore(LOW_RISK_MIN_TRUST);
+const MEDIUM_RISK_MAX = toRiskScore(MEDIUM_RISK_MIN_TRUST);
+
 export function FraudScoreDisplay({
   score,
   riskLevel,
   isVerified,
-  verificationBonus = 0,
   showDetails = true,
 }: FraudScoreDisplayProps) {
   return (
@@ -104,20 +107,13 @@ export function FraudScoreDisplay({
             <VerificationBadge isVerified={isVerified} size="sm" />
           </div>
 
-          {verificationBonus > 0 && (
-            <div className="flex items-center justify-between">
-              <span className="text-gray-600">Verification Bonus:</span>
-              <span className="text-green-600 font-medium">-{verificationBonus} points</span>
-            </div>
-          )}
-
           <div className="pt-2 border-t border-gray-200">
             <div className="flex items-center justify-between text-xs text-gray-500">
               <span>Risk Threshold:</span>
               <div className="flex gap-2">
-                <span className="text-green-600">0-30: Low</span>
-                <span className="text-yellow-600">31-60: Med</span>
-                <span className="text-red-600">61-100: High</span>
+                <span className="text-green-600">0-{LOW_RISK_MAX}: Low</span>
+                <span className="text-yellow-600">{LOW_RISK_MAX + 1}-{MEDIUM_RISK_MAX}: Med</span>
+                <span className="text-red-600">{MEDIUM_RISK_MAX + 1}-100: High</span>
               </div>
             </div>
           </div>
@@ -5,8 +5,7 @@ import { useAccount } from 'wagmi';
 import { useConnect, useDisconnect } from 'wagmi';
 import { injected } from 'wagmi/connectors';
 import { useState, useEffect } from 'react';
-
-const ADMIN_ADDRESS = '0x74E36d4A7b33057e3928CE4bf4C8C53A93361C34';
+import { useRoles } from '@/hooks/useContract';
 
 export default function Navbar() {
   const router = useRouter();
@@ -14,6 +13,7 @@ export default function Navbar() {
   const { address, isConnected } = useAccount();
   const { connect } = useConnect();
   const { disconnect } = useDisconnect();
+  const { hasAnyRole } = useRoles(address);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
 
   useEffect(() => {
@@ -37,8 +37,8 @@ export default function Navbar() {
       return;
     }
 
-    const isAdmin = address.toLowerCase() === ADMIN_ADDRESS.toLowerCase();
-    router.push(isAdmin ? '/admin' : '/user');
+    // Anyone holding an on-chain role gets the admin dashboard
+    router.push(hasAnyRole ? '/admin' : '/user');
   };
 
   const handleConnect = () => {
@@ -113,6 +113,19 @@ export default function Navbar() {
             <span className="hidden sm:block text-base text-white font-medium">About</span>
           </button>
 
+          <button
+            onClick={() => router.push('/lender')}
+            className="relative text-white hover:text-white/80 items-center flex space-x-1 transition cursor-pointer"
+          >
+            <span className="block sm:hidden">
+              <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="h-4 w-4">
+                <line x1="12" y1="1" x2="12" y2="23"></line>
+                <path d="M17 5H9.5a3.5 3.5 0 0 0 0 7h5a3.5 3.5 0 0 1 0 7H6"></path>
+              </svg>
+            </span>
+            <span className="hidden sm:block text-base text-white font-medium">Lend</span>
+          </button>
+
           <button
             onClick={handleDashboardClick}
             className="relative text-white hover:text-white/80 items-center flex space-x-1 transition cursor-pointer"
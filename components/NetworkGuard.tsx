@@ -0,0 +1,40 @@
+'use client';
+
+import { useAccount, useSwitchChain } from 'wagmi';
+import { getChain } from '@/config/chains';
+import { DEPLOYED_CHAINS, getDeployment } from '@/config/deployments';
+
+/**
+ * Banner asking the user to switch networks when their wallet is on a
+ * chain Zentra is not deployed on
+ */
+export function NetworkGuard() {
+  const { chainId, isConnected } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (!isConnected || chainId === undefined || getDeployment(chainId)) return null;
+
+  const current = getChain(chainId)?.name ?? `chain ${chainId}`;
+
+  return (
+    <div className="fixed top-0 left-0 right-0 z-[60] bg-yellow-500/90 backdrop-blur-md px-4 py-3">
+      <div className="max-w-4xl mx-auto flex flex-wrap items-center justify-between gap-3">
+        <p className="text-gray-900 text-sm font-semibold">
+          Zentra is not available on {current}. Switch networks to continue.
+        </p>
+        <div className="flex gap-2">
+          {DEPLOYED_CHAINS.map(chain => (
+            <button
+              key={chain.id}
+              onClick={() => switchChain({ chainId: chain.id })}
+              disabled={isPending}
+              className="px-3 py-1 bg-gray-900 hover:bg-gray-800 text-white rounded-lg text-sm transition disabled:opacity-50"
+            >
+              {isPending ? 'Switching...' : `Switch to ${chain.name}`}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
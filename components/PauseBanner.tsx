@@ -0,0 +1,22 @@
+'use client';
+
+import { usePauseStatus } from '@/hooks/useContract';
+
+/**
+ * Shown while the lending contract's circuit breaker is on.
+ * New circles, joins and loans are blocked; repayments still go through.
+ */
+export function PauseBanner() {
+  const { isPaused, reason } = usePauseStatus();
+
+  if (!isPaused) return null;
+
+  return (
+    <div className="bg-red-500/20 backdrop-blur-md rounded-lg p-4 border border-red-500/40 mb-6">
+      <p className="text-red-200 font-semibold">⚠️ Zentra is temporarily paused</p>
+      <p className="text-red-100/80 text-sm">
+        {reason ? `${reason}. ` : ''}New circles, joins and loans are on hold. You can still repay active loans.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { formatEther } from 'viem';
+import { useChainId } from 'wagmi';
+import { getChain } from '@/config/chains';
+import { usePreflightPrompt } from '@/hooks/useTransaction';
+import { closePreflight } from '@/lib/preflight';
+
+/**
+ * Shown before the wallet opens: why a write would fail, or its estimated
+ * gas and network fee with the option to continue
+ */
+export function PreflightDialog() {
+  const prompt = usePreflightPrompt();
+  const chainId = useChainId();
+
+  if (!prompt) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-gray-900/95 backdrop-blur-md rounded-lg p-6 border border-white/20 max-w-md w-full">
+        <h3 className="text-xl font-bold text-white mb-4">{prompt.label}</h3>
+
+        {prompt.status === 'blocked' ? (
+          <>
+            <div className="bg-red-500/20 border border-red-400/40 rounded-lg p-4 mb-6">
+              <p className="text-red-200 text-sm font-semibold mb-1">This transaction would fail</p>
+              <p className="text-white text-sm">{prompt.reason}</p>
+            </div>
+            <button
+              onClick={() => closePreflight(false)}
+              className="w-full px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-lg font-medium transition"
+            >
+              Close
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="bg-white/5 rounded-lg p-4 mb-6 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-white/60">Estimated gas</span>
+                <span className="text-white">{prompt.gas.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-white/60">Estimated network fee</span>
+                <span className="text-white">
+                  {Number(formatEther(prompt.fee)).toFixed(6)} {getChain(chainId)?.nativeCurrency.symbol}
+                </span>
+              </div>
+              <p className="text-white/40 text-xs pt-2">
+                The simulation passed. Your wallet shows the final fee.
+              </p>
+            </div>
+            <div className="flex gap-4">
+              <button
+                onClick={() => closePreflight(true)}
+                className="flex-1 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition"
+              >
+                Continue to wallet
+              </button>
+              <button
+                onClick={() => closePreflight(false)}
+                className="flex-1 px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition"
+              >
+                Cancel
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
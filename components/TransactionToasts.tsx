@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePublicClient } from 'wagmi';
+import { useTransactions } from '@/hooks/useTransaction';
+import { TrackedTransaction, clearTransactions, explorerTxUrl, trackTransaction } from '@/lib/transactions';
+
+// Settled transactions stay on screen this long; pending ones stay until they settle
+const TOAST_DURATION_MS = 8_000;
+
+const STATUS_STYLES: Record<TrackedTransaction['status'], { icon: string; className: string; text: string }> = {
+  pending: { icon: '⏳', className: 'border-yellow-400/40', text: 'Waiting for confirmation' },
+  confirmed: { icon: '✓', className: 'border-green-400/40', text: 'Confirmed' },
+  failed: { icon: '✕', className: 'border-red-400/40', text: 'Failed' },
+};
+
+function TransactionLine({ tx }: { tx: TrackedTransaction }) {
+  const style = STATUS_STYLES[tx.status];
+  const explorerUrl = tx.hash ? explorerTxUrl(tx.hash, tx.chainId) : undefined;
+
+  return (
+    <div>
+      <p className="text-white text-sm font-semibold">
+        {style.icon} {tx.label}
+      </p>
+      <p className={`text-xs ${tx.status === 'failed' ? 'text-red-300' : 'text-white/60'}`}>
+        {tx.status === 'failed' && tx.error ? tx.error : style.text}
+      </p>
+      {explorerUrl && (
+        <a
+          href={explorerUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-blue-300 hover:text-blue-200 underline"
+        >
+          View on explorer
+        </a>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Toasts for transactions as they are sent, confirmed or fail, plus an
+ * activity log of recent transactions kept in the browser
+ */
+export function TransactionToasts() {
+  const transactions = useTransactions();
+  const publicClient = usePublicClient();
+  const [now, setNow] = useState(Date.now());
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [showLog, setShowLog] = useState(false);
+
+  // Resume transactions left pending when the page was closed
+  useEffect(() => {
+    if (!publicClient) return;
+    transactions
+      .filter(tx => tx.status === 'pending' && tx.hash)
+      .forEach(tx => trackTransaction(publicClient, tx.hash!, tx.label));
+  }, [transactions, publicClient]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const toasts = transactions.filter(tx =>
+    !dismissed.includes(tx.id) &&
+    (tx.status === 'pending' || now - tx.updatedAt < TOAST_DURATION_MS)
+  );
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col items-end gap-2 w-80">
+      {toasts.slice(0, 3).map(tx => (
+        <div
+          key={tx.id}
+          className={`w-full bg-gray-900/90 backdrop-blur-md rounded-lg p-3 border ${STATUS_STYLES[tx.status].className} flex justify-between gap-2`}
+        >
+          <TransactionLine tx={tx} />
+          <button
+            onClick={() => setDismissed(prev => [...prev, tx.id])}
+            className="text-white/40 hover:text-white text-sm self-start"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {showLog && (
+        <div className="w-full bg-gray-900/95 backdrop-blur-md rounded-lg p-4 border border-white/20">
+          <div className="flex justify-between items-center mb-3">
+            <h4 className="text-white font-bold">Recent Activity</h4>
+            <button onClick={clearTransactions} className="text-xs text-white/60 hover:text-white">
+              Clear
+            </button>
+          </div>
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {transactions.map(tx => (
+              <div key={tx.id} className="border-b border-white/10 pb-2">
+                <TransactionLine tx={tx} />
+                <p className="text-white/40 text-xs">{new Date(tx.createdAt).toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowLog(prev => !prev)}
+        className="px-3 py-1 bg-white/10 hover:bg-white/20 backdrop-blur-md border border-white/20 text-white rounded-lg text-sm transition"
+      >
+        {showLog ? 'Hide activity' : `Activity (${transactions.length})`}
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { UserFraudProfile } from '@/lib/types/fraud';
+import { MAX_TRUST_SCORE, getRiskLevel } from '@/lib/fraudDetection';
 
 interface TrustScoreBreakdownProps {
   profile: UserFraudProfile;
@@ -45,19 +46,21 @@ export function TrustScoreBreakdown({ profile }: TrustScoreBreakdownProps) {
     }
   ];
 
-  const totalScore = profile.totalTrustScore || 0;
-  const maxScore = 60;
+  const totalScore = profile.trustScore || 0;
+  const maxScore = MAX_TRUST_SCORE;
   const percentage = (totalScore / maxScore) * 100;
 
+  const riskLevel = getRiskLevel(totalScore);
+
   const getRiskColor = () => {
-    if (totalScore >= 40) return 'text-green-600 bg-green-50';
-    if (totalScore >= 20) return 'text-yellow-600 bg-yellow-50';
+    if (riskLevel === 'low') return 'text-green-600 bg-green-50';
+    if (riskLevel === 'medium') return 'text-yellow-600 bg-yellow-50';
     return 'text-red-600 bg-red-50';
   };
 
   const getRiskBadge = () => {
-    if (totalScore >= 40) return '🟢 Low Risk';
-    if (totalScore >= 20) return '🟡 Medium Risk';
+    if (riskLevel === 'low') return '🟢 Low Risk';
+    if (riskLevel === 'medium') return '🟡 Medium Risk';
     return '🔴 High Risk';
   };
 
@@ -24,3 +24,53 @@ export const polygonAmoy: Chain = {
   },
   testnet: true,
 };
+
+export const polygon: Chain = {
+  id: 137,
+  name: 'Polygon',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'POL',
+    symbol: 'POL',
+  },
+  rpcUrls: {
+    default: {
+      http: ['https://polygon-rpc.com'],
+    },
+    public: {
+      http: ['https://polygon-rpc.com'],
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Polygonscan',
+      url: 'https://polygonscan.com',
+    },
+  },
+};
+
+// `npx hardhat node`
+export const hardhatLocal: Chain = {
+  id: 31337,
+  name: 'Hardhat Local',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'Ether',
+    symbol: 'ETH',
+  },
+  rpcUrls: {
+    default: {
+      http: ['http://127.0.0.1:8545'],
+    },
+    public: {
+      http: ['http://127.0.0.1:8545'],
+    },
+  },
+  testnet: true,
+};
+
+export const SUPPORTED_CHAINS = [polygonAmoy, polygon, hardhatLocal] as const;
+
+export function getChain(chainId: number | undefined): Chain | undefined {
+  return SUPPORTED_CHAINS.find(chain => chain.id === chainId);
+}
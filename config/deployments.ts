@@ -0,0 +1,55 @@
+import registry from './deployments.json';
+import { SUPPORTED_CHAINS, getChain, polygonAmoy } from './chains';
+
+/**
+ * Contract deployments by chain ID. config/deployments.json is written by
+ * scripts/deploy.js; a chain without an entry is not supported by the app.
+ */
+export interface Deployment {
+  chainId: number;
+  network: string; // Hardhat network name used to deploy
+  trustCircles: `0x${string}`;
+  loanOracle?: `0x${string}`;
+  deploymentBlock: bigint; // First block to scan for contract events
+}
+
+type RegistryEntry = {
+  network: string;
+  trustCircles: string;
+  loanOracle: string | null;
+  deploymentBlock: number;
+};
+
+const entries = registry as Record<string, RegistryEntry>;
+
+// Chain used by API routes and server code, and by the app before a wallet connects
+export const DEFAULT_CHAIN_ID = Number(process.env.NEXT_PUBLIC_CHAIN_ID || polygonAmoy.id);
+
+export function getDeployment(chainId: number | undefined): Deployment | undefined {
+  const entry = chainId !== undefined ? entries[String(chainId)] : undefined;
+  if (!entry) return undefined;
+
+  // NEXT_PUBLIC_LOAN_ORACLE_ADDRESS still works for deployments made before the registry
+  const loanOracle = entry.loanOracle ?? (chainId === DEFAULT_CHAIN_ID ? process.env.NEXT_PUBLIC_LOAN_ORACLE_ADDRESS : undefined);
+
+  return {
+    chainId: chainId!,
+    network: entry.network,
+    trustCircles: entry.trustCircles as `0x${string}`,
+    loanOracle: loanOracle ? (loanOracle as `0x${string}`) : undefined,
+    deploymentBlock: BigInt(entry.deploymentBlock),
+  };
+}
+
+// Chains the app knows that have a deployment, default chain first
+export const DEPLOYED_CHAINS = SUPPORTED_CHAINS.filter(chain => getDeployment(chain.id)).sort(
+  (a, b) => Number(b.id === DEFAULT_CHAIN_ID) - Number(a.id === DEFAULT_CHAIN_ID)
+);
+
+export function getDefaultDeployment(): Deployment {
+  const deployment = getDeployment(DEFAULT_CHAIN_ID);
+  if (!deployment) {
+    throw new Error(`No deployment for chain ${DEFAULT_CHAIN_ID} (${getChain(DEFAULT_CHAIN_ID)?.name ?? 'unknown'}) in config/deployments.json. Deploy with npm run deploy:amoy (or deploy:local)`);
+  }
+  return deployment;
+}
@@ -1,17 +1,26 @@
 import { http, createConfig } from 'wagmi';
 import { injected } from 'wagmi/connectors';
-import { polygonAmoy } from './chains';
+import type { Chain } from 'viem';
+import { SUPPORTED_CHAINS, getChain } from './chains';
+import { DEFAULT_CHAIN_ID } from './deployments';
+
+// The default chain goes first so reads use it until a wallet connects
+const defaultChain = getChain(DEFAULT_CHAIN_ID) ?? SUPPORTED_CHAINS[0];
+const chains = [defaultChain, ...SUPPORTED_CHAINS.filter(chain => chain.id !== defaultChain.id)] as [Chain, ...Chain[]];
 
 export const wagmiConfig = createConfig({
-  chains: [polygonAmoy],
+  chains,
 
-  transports: {
-    [polygonAmoy.id]: http("https://rpc-amoy.polygon.technology", {
-      timeout: 30_000, 
-      retryCount: 3,
-      retryDelay: 1_000,
-    }),
-  },
+  transports: Object.fromEntries(
+    chains.map(chain => [
+      chain.id,
+      http(chain.rpcUrls.default.http[0], {
+        timeout: 30_000,
+        retryCount: 3,
+        retryDelay: 1_000,
+      }),
+    ])
+  ),
 
   connectors: [
     injected(),
@@ -0,0 +1,165 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+import "./LiquidityPool.sol";
+
+/**
+ * @notice Admin and role lookups on the lending contract
+ */
+interface ITrustCirclesAdmin {
+    function admin() external view returns (address);
+    function hasRole(bytes32 _role, address _account) external view returns (bool);
+}
+
+/**
+ * @title AssetRegistry - Allow-listed ERC-20 assets for circles and loans
+ * @notice Native POL is always available. Tokens must be added here with a
+ *         dedicated LiquidityPool before circles can stake or borrow them.
+ *         Each asset has its own minimum circle bond and per-loan cap.
+ * @dev Deployed by the TrustCircles constructor. Credit tier limits are
+ *      written in whole units (18 decimals) and rescaled to each asset's
+ *      decimals, so a 10 POL tier is a 10 USDC tier in a USDC circle.
+ */
+contract AssetRegistry {
+    
+    // ============ STRUCTS ============
+    
+    struct Asset {
+        address pool; // LiquidityPool holding this asset
+        uint8 decimals;
+        uint256 minStake; // Smallest circle bond, in asset units
+        uint256 maxLoanAmount; // Per-loan cap, in asset units
+        bool enabled; // Disabled assets take no new stakes or loans; existing loans still repay
+    }
+    
+    // ============ STATE VARIABLES ============
+    
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE");
+    
+    ITrustCirclesAdmin public immutable lendingContract;
+    
+    mapping(address => Asset) public assets;
+    address[] private assetList;
+    
+    // ============ EVENTS ============
+    
+    event AssetAdded(address indexed asset, address indexed pool);
+    event AssetStatusChanged(address indexed asset, bool enabled);
+    event AssetLimitsUpdated(address indexed asset, uint256 minStake, uint256 maxLoanAmount, address indexed updatedBy);
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlyAdmin() {
+        require(msg.sender == lendingContract.admin(), "Only admin");
+        _;
+    }
+    
+    modifier onlyRiskManager() {
+        require(lendingContract.hasRole(RISK_MANAGER_ROLE, msg.sender), "Missing role");
+        _;
+    }
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _lendingContract) {
+        require(_lendingContract != address(0), "Invalid address");
+        lendingContract = ITrustCirclesAdmin(_lendingContract);
+    }
+    
+    // ============ ADMIN FUNCTIONS ============
+    
+    /**
+     * @notice Allow-list a token together with the pool that lends it
+     * @param _pool LiquidityPool deployed for this asset and TrustCircles
+     */
+    function addAsset(address _asset, address _pool, uint256 _minStake, uint256 _maxLoanAmount) external onlyAdmin {
+        require(_asset != address(0), "Native POL is built in");
+        require(assets[_asset].pool == address(0), "Already added");
+        require(
+            LiquidityPool(_pool).asset() == _asset &&
+            LiquidityPool(_pool).lendingContract() == address(lendingContract),
+            "Pool mismatch"
+        );
+        
+        assets[_asset] = Asset({
+            pool: _pool,
+            decimals: LiquidityPool(_pool).decimals(),
+            minStake: 0,
+            maxLoanAmount: 0,
+            enabled: true
+        });
+        assetList.push(_asset);
+        
+        emit AssetAdded(_asset, _pool);
+        _setLimits(_asset, _minStake, _maxLoanAmount);
+    }
+    
+    /**
+     * @notice Stop or resume new stakes and loans in an asset
+     */
+    function setAssetEnabled(address _asset, bool _enabled) external onlyAdmin {
+        require(assets[_asset].pool != address(0), "Unknown asset");
+        assets[_asset].enabled = _enabled;
+        emit AssetStatusChanged(_asset, _enabled);
+    }
+    
+    // ============ RISK MANAGER FUNCTIONS ============
+    
+    /**
+     * @notice Update an asset's minimum bond and per-loan cap
+     */
+    function setAssetLimits(address _asset, uint256 _minStake, uint256 _maxLoanAmount) external onlyRiskManager {
+        require(assets[_asset].pool != address(0), "Unknown asset");
+        _setLimits(_asset, _minStake, _maxLoanAmount);
+    }
+    
+    function _setLimits(address _asset, uint256 _minStake, uint256 _maxLoanAmount) internal {
+        require(_minStake > 0, "Invalid min stake");
+        
+        assets[_asset].minStake = _minStake;
+        assets[_asset].maxLoanAmount = _maxLoanAmount;
+        
+        emit AssetLimitsUpdated(_asset, _minStake, _maxLoanAmount, msg.sender);
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Every token ever added, enabled or not
+     */
+    function getAssets() external view returns (address[] memory) {
+        return assetList;
+    }
+    
+    /**
+     * @notice Pool for a listed token (reverts for unknown assets)
+     */
+    function getPool(address _asset) external view returns (address) {
+        address pool = assets[_asset].pool;
+        require(pool != address(0), "Unknown asset");
+        return pool;
+    }
+    
+    /**
+     * @notice Minimum circle bond for an enabled token
+     */
+    function getMinStake(address _asset) external view returns (uint256) {
+        require(assets[_asset].enabled, "Asset not allowed");
+        return assets[_asset].minStake;
+    }
+    
+    /**
+     * @notice Borrowing limit in a token for a credit tier limit
+     * @param _tierLimit Tier max amount in whole units with 18 decimals
+     * @return Rescaled limit, capped at the asset's max loan (0 if disabled)
+     */
+    function getLoanLimit(address _asset, uint256 _tierLimit) external view returns (uint256) {
+        Asset storage asset = assets[_asset];
+        if (!asset.enabled) {
+            return 0;
+        }
+        
+        uint256 limit = (_tierLimit * 10 ** asset.decimals) / 1 ether;
+        return limit < asset.maxLoanAmount ? limit : asset.maxLoanAmount;
+    }
+}
@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/**
+ * @notice Circle and membership lookups on the lending contract
+ */
+interface ITrustCirclesMembership {
+    function admin() external view returns (address);
+    function circleExists(uint256 _circleId) external view returns (bool);
+    function circles(uint256 _circleId) external view returns (
+        uint256 id,
+        string memory name,
+        uint256 totalStake,
+        uint256 createdAt,
+        bool isActive,
+        address creator,
+        address asset
+    );
+    function members(address _user) external view returns (
+        uint256 circleId,
+        uint256 individualScore,
+        uint256 trustBond,
+        uint256 totalBorrowed,
+        uint256 totalRepaid,
+        uint256 loansCompleted,
+        bool isActive,
+        bool hasActiveLoan
+    );
+    function getCircleDetails(uint256 _circleId) external view returns (
+        string memory name,
+        address[] memory memberList,
+        uint256 memberCount,
+        uint256 averageScore,
+        uint256 totalStake,
+        bool isActive
+    );
+}
+
+/**
+ * @title CircleAdmissions - Join requests and member vouching for circles
+ * @notice Applicants ask a circle to admit them and the circle's members vote.
+ *         Once enough members vouch, the applicant can join the circle on
+ *         TrustCircles, which consumes the approval.
+ * @dev Deployed by the TrustCircles constructor
+ */
+contract CircleAdmissions {
+    
+    // ============ STRUCTS ============
+    
+    struct JoinRequest {
+        uint256 id;
+        uint256 approvals;
+        uint256 rejections;
+        bool approved;
+    }
+    
+    // ============ STATE VARIABLES ============
+    
+    uint256 public constant DEFAULT_ADMISSION_QUORUM = 50; // 50%
+    uint256 public constant MAX_CIRCLE_MEMBERS = 10;
+    
+    ITrustCirclesMembership public immutable lendingContract;
+    
+    uint256 public joinRequestCount;
+    
+    mapping(uint256 => mapping(address => JoinRequest)) public joinRequests;
+    mapping(uint256 => address[]) internal circleApplicants;
+    mapping(uint256 => mapping(address => bool)) public hasVotedOnRequest; // requestId => voter
+    mapping(uint256 => uint256) internal admissionQuorums; // 0 means the default
+    
+    // ============ EVENTS ============
+    
+    event JoinRequested(uint256 indexed circleId, address indexed applicant, uint256 requestId);
+    event JoinVoteCast(uint256 indexed requestId, address indexed applicant, address indexed voter, bool approve, uint256 approvals, uint256 rejections);
+    event JoinRequestApproved(uint256 indexed circleId, address indexed applicant);
+    event JoinRequestRejected(uint256 indexed circleId, address indexed applicant);
+    event AdmissionQuorumUpdated(uint256 indexed circleId, uint256 quorum);
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlyLendingContract() {
+        require(msg.sender == address(lendingContract), "Only lending contract");
+        _;
+    }
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _lendingContract) {
+        require(_lendingContract != address(0), "Invalid address");
+        lendingContract = ITrustCirclesMembership(_lendingContract);
+    }
+    
+    // ============ APPLICANT FUNCTIONS ============
+    
+    /**
+     * @notice Ask an existing circle to admit you
+     * @param _circleId ID of the circle to apply to
+     */
+    function requestToJoin(uint256 _circleId) external {
+        (uint256 circleId, , , , , , , ) = lendingContract.members(msg.sender);
+        require(circleId == 0, "Already in a circle");
+        require(lendingContract.circleExists(_circleId), "Circle doesn't exist");
+        require(_memberCount(_circleId) < MAX_CIRCLE_MEMBERS, "Circle full");
+        require(joinRequests[_circleId][msg.sender].id == 0, "Already requested");
+        
+        joinRequestCount++;
+        joinRequests[_circleId][msg.sender].id = joinRequestCount;
+        circleApplicants[_circleId].push(msg.sender);
+        
+        emit JoinRequested(_circleId, msg.sender, joinRequestCount);
+    }
+    
+    // ============ MEMBER FUNCTIONS ============
+    
+    /**
+     * @notice Vouch for (or reject) an applicant to your circle
+     * @dev The applicant is admitted once approvals reach the circle's
+     *      quorum, and rejected once the quorum can no longer be reached
+     */
+    function voteOnJoinRequest(address _applicant, bool _approve) external {
+        (uint256 circleId, , , , , , bool isActive, ) = lendingContract.members(msg.sender);
+        require(isActive, "Account frozen");
+        require(circleId > 0, "Not in a circle");
+        
+        JoinRequest storage request = joinRequests[circleId][_applicant];
+        require(request.id > 0, "No join request");
+        require(!request.approved, "Already approved");
+        require(!hasVotedOnRequest[request.id][msg.sender], "Already voted");
+        
+        hasVotedOnRequest[request.id][msg.sender] = true;
+        if (_approve) {
+            request.approvals++;
+        } else {
+            request.rejections++;
+        }
+        
+        emit JoinVoteCast(request.id, _applicant, msg.sender, _approve, request.approvals, request.rejections);
+        
+        uint256 required = getRequiredApprovals(circleId);
+        if (request.approvals >= required) {
+            request.approved = true;
+            emit JoinRequestApproved(circleId, _applicant);
+        } else if (request.rejections > _memberCount(circleId) - required) {
+            _removeJoinRequest(circleId, _applicant);
+            emit JoinRequestRejected(circleId, _applicant);
+        }
+    }
+    
+    /**
+     * @notice Set the % of members who must vouch for new applicants
+     */
+    function setAdmissionQuorum(uint256 _circleId, uint256 _quorum) external {
+        require(lendingContract.circleExists(_circleId), "Circle doesn't exist");
+        (, , , , , address creator, ) = lendingContract.circles(_circleId);
+        require(msg.sender == creator || msg.sender == lendingContract.admin(), "Only circle creator");
+        require(_quorum > 0 && _quorum <= 100, "Quorum must be 1-100%");
+        
+        admissionQuorums[_circleId] = _quorum;
+        emit AdmissionQuorumUpdated(_circleId, _quorum);
+    }
+    
+    // ============ LENDING CONTRACT FUNCTIONS ============
+    
+    /**
+     * @notice Clear an applicant's request as they join the circle
+     * @return approved Whether the circle had admitted them
+     */
+    function consumeAdmission(uint256 _circleId, address _applicant)
+        external
+        onlyLendingContract
+        returns (bool approved)
+    {
+        JoinRequest storage request = joinRequests[_circleId][_applicant];
+        approved = request.approved;
+        if (request.id > 0) {
+            _removeJoinRequest(_circleId, _applicant);
+        }
+    }
+    
+    /**
+     * @notice Drop an applicant from a circle's join requests
+     */
+    function _removeJoinRequest(uint256 _circleId, address _applicant) internal {
+        address[] storage applicants = circleApplicants[_circleId];
+        for (uint i = 0; i < applicants.length; i++) {
+            if (applicants[i] == _applicant) {
+                applicants[i] = applicants[applicants.length - 1];
+                applicants.pop();
+                break;
+            }
+        }
+        delete joinRequests[_circleId][_applicant];
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice % of members who must vouch for an applicant
+     */
+    function admissionQuorum(uint256 _circleId) public view returns (uint256) {
+        uint256 quorum = admissionQuorums[_circleId];
+        return quorum > 0 ? quorum : DEFAULT_ADMISSION_QUORUM;
+    }
+    
+    /**
+     * @notice Approvals an applicant currently needs (rounded up, at least 1)
+     */
+    function getRequiredApprovals(uint256 _circleId) public view returns (uint256) {
+        uint256 required = (_memberCount(_circleId) * admissionQuorum(_circleId) + 99) / 100;
+        return required > 0 ? required : 1;
+    }
+    
+    /**
+     * @notice Get pending and approved applicants with their vote counts
+     */
+    function getJoinRequests(uint256 _circleId) external view returns (
+        address[] memory applicants,
+        uint256[] memory approvals,
+        uint256[] memory rejections,
+        bool[] memory approved
+    ) {
+        applicants = circleApplicants[_circleId];
+        approvals = new uint256[](applicants.length);
+        rejections = new uint256[](applicants.length);
+        approved = new bool[](applicants.length);
+        
+        for (uint i = 0; i < applicants.length; i++) {
+            JoinRequest storage request = joinRequests[_circleId][applicants[i]];
+            approvals[i] = request.approvals;
+            rejections[i] = request.rejections;
+            approved[i] = request.approved;
+        }
+    }
+    
+    /**
+     * @notice Current member count of a circle
+     */
+    function _memberCount(uint256 _circleId) internal view returns (uint256 memberCount) {
+        (, , memberCount, , , ) = lendingContract.getCircleDetails(_circleId);
+    }
+}
@@ -0,0 +1,378 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+import "./RiskParameters.sol";
+import "./AssetRegistry.sol";
+
+/**
+ * @notice Membership, limits and default hooks on the lending contract
+ */
+interface ITrustCirclesCredit {
+    function paused() external view returns (bool);
+    function isDemoMode() external view returns (bool);
+    function demoLoanDuration() external view returns (uint256);
+    function liquidityPool() external view returns (LiquidityPool);
+    function riskParameters() external view returns (RiskParameters);
+    function assetRegistry() external view returns (AssetRegistry);
+    function leaveRequestedAt(address _user) external view returns (uint256);
+    function getMaxLoanAmount(address _user) external view returns (uint256);
+    function getInterestRate(address _user) external view returns (uint256);
+    function members(address _user) external view returns (
+        uint256 circleId,
+        uint256 individualScore,
+        uint256 trustBond,
+        uint256 totalBorrowed,
+        uint256 totalRepaid,
+        uint256 loansCompleted,
+        bool isActive,
+        bool hasActiveLoan
+    );
+    function circles(uint256 _circleId) external view returns (
+        uint256 id,
+        string memory name,
+        uint256 totalStake,
+        uint256 createdAt,
+        bool isActive,
+        address creator,
+        address asset
+    );
+    function setCreditLineOpen(address _user, bool _open) external;
+    function defaultCreditLine(address _borrower, address _asset, uint256 _outstanding, address _triggeredBy)
+        external
+        returns (uint256);
+}
+
+/**
+ * @title CreditLines - Revolving credit lines for circle members
+ * @notice Members draw and repay against a limit set by their trust score
+ *         (the same tier limit as a single loan), with no loan officer
+ *         approval. Balances bill in cycles like a card: each statement asks
+ *         for a minimum payment by its due date, and a statement left unpaid
+ *         past the default grace period lets anyone default the line, which
+ *         slashes circle bonds just like a defaulted loan.
+ * @dev Deployed by the TrustCircles constructor. Draws are funded by the pool
+ *      of the member's circle asset, which accepts calls from this contract.
+ */
+contract CreditLines {
+    
+    // ============ STRUCTS ============
+    
+    struct Line {
+        uint256 principal; // Drawn and not yet repaid
+        uint256 interest; // Accrued and not yet paid
+        uint256 interestRate; // Annual rate in basis points, set by the tier at the latest draw
+        uint256 penaltyRate; // Extra annual rate in basis points while a statement is overdue
+        uint256 lastAccrual;
+        uint256 dueDate; // Due date of the current statement (0 while nothing is owed)
+        uint256 minimumDue; // Still to pay on the current statement
+        uint256 totalDrawn;
+        uint256 totalRepaid;
+        address asset; // Circle asset of the latest draw
+    }
+    
+    // ============ STATE VARIABLES ============
+    
+    uint256 public constant MIN_PAYMENT_PERCENT = 10; // Of the statement balance, and never below its interest
+    uint256 public constant RATE_DENOMINATOR = 10000 * 365 days; // Basis points per year
+    
+    ITrustCirclesCredit public immutable lendingContract;
+    
+    mapping(address => Line) public lines;
+    
+    // ============ EVENTS ============
+    
+    event CreditDrawn(address indexed borrower, uint256 amount, uint256 balance);
+    event CreditRepaid(address indexed borrower, uint256 amount, uint256 balance);
+    event StatementIssued(address indexed borrower, uint256 balance, uint256 minimumDue, uint256 dueDate);
+    event CreditLineDefaulted(address indexed borrower, address indexed triggeredBy, uint256 outstandingPrincipal, uint256 recovered);
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _lendingContract) {
+        require(_lendingContract != address(0), "Invalid address");
+        lendingContract = ITrustCirclesCredit(_lendingContract);
+    }
+    
+    // ============ BORROWER FUNCTIONS ============
+    
+    /**
+     * @notice Borrow against your credit line
+     * @dev The first draw on an empty line opens a statement due one
+     *      installment interval later. Later draws are billed on the next
+     *      statement. Members with an installment loan must repay it first.
+     * @param _amount Amount in the smallest unit of your circle's asset
+     */
+    function draw(uint256 _amount) external {
+        require(_amount > 0, "Amount must be greater than 0");
+        require(!lendingContract.paused(), "Protocol paused");
+        
+        (uint256 circleId, , , , , , bool isActive, bool hasActiveLoan) = lendingContract.members(msg.sender);
+        require(isActive, "Account frozen");
+        require(circleId > 0, "Not in a circle");
+        (, , , , bool circleActive, , address asset) = lendingContract.circles(circleId);
+        require(circleActive, "Circle not active");
+        require(lendingContract.leaveRequestedAt(msg.sender) == 0, "Leaving circle");
+        
+        Line storage line = lines[msg.sender];
+        _accrue(msg.sender, line);
+        
+        bool opening = line.dueDate == 0;
+        if (opening) {
+            require(!hasActiveLoan, "Repay your loan first");
+        } else {
+            require(block.timestamp <= line.dueDate, "Payment overdue");
+        }
+        
+        uint256 balance = line.principal + line.interest + _amount;
+        require(balance <= lendingContract.getMaxLoanAmount(msg.sender), "Exceeds available credit");
+        
+        line.principal += _amount;
+        line.totalDrawn += _amount;
+        line.interestRate = lendingContract.getInterestRate(msg.sender);
+        line.penaltyRate = lendingContract.riskParameters().penaltyRate();
+        line.asset = asset;
+        
+        if (opening) {
+            line.lastAccrual = block.timestamp;
+            lendingContract.setCreditLineOpen(msg.sender, true);
+            _issueStatement(msg.sender, line, block.timestamp + _cycleLength());
+        }
+        
+        emit CreditDrawn(msg.sender, _amount, balance);
+        
+        _poolFor(asset).lend(msg.sender, _amount);
+    }
+    
+    /**
+     * @notice Pay down your credit line, fully or partially
+     * @dev Payments cover accrued interest before principal and count towards
+     *      the current statement's minimum. Anything above the balance is
+     *      refunded, so a payoff can be sent with a little headroom.
+     * @param _amount Amount to pay; POL lines send it as msg.value, token
+     *        lines need an approval (only the balance is pulled)
+     */
+    function repay(uint256 _amount) external payable {
+        require(_amount > 0, "Amount must be greater than 0");
+        
+        Line storage line = lines[msg.sender];
+        _accrue(msg.sender, line);
+        
+        uint256 balance = line.principal + line.interest;
+        require(balance > 0, "Nothing owed");
+        
+        uint256 payment = _amount < balance ? _amount : balance;
+        uint256 interestPaid = payment < line.interest ? payment : line.interest;
+        uint256 principalPaid = payment - interestPaid;
+        
+        line.interest -= interestPaid;
+        line.principal -= principalPaid;
+        line.totalRepaid += payment;
+        line.minimumDue = payment < line.minimumDue ? line.minimumDue - payment : 0;
+        
+        if (payment == balance) {
+            line.dueDate = 0;
+            lendingContract.setCreditLineOpen(msg.sender, false);
+        }
+        
+        emit CreditRepaid(msg.sender, payment, balance - payment);
+        
+        // Return principal and interest to lenders
+        LiquidityPool pool = _poolFor(line.asset);
+        bool native = line.asset == address(0);
+        if (native) {
+            require(msg.value == _amount, "Incorrect amount");
+        } else {
+            require(msg.value == 0, "POL not accepted");
+            require(IERC20(line.asset).transferFrom(msg.sender, address(pool), payment), "Transfer failed");
+        }
+        pool.repay{value: native ? payment : 0}(principalPaid, payment);
+        
+        if (msg.value > payment) {
+            payable(msg.sender).transfer(msg.value - payment);
+        }
+    }
+    
+    /**
+     * @notice Default a credit line whose statement is unpaid past the grace period (callable by anyone)
+     * @dev Outstanding principal is recovered from circle bonds on TrustCircles,
+     *      which also freezes the borrower and penalizes the circle
+     */
+    function penalizeDefault(address _borrower) external {
+        Line storage line = lines[_borrower];
+        require(line.dueDate > 0, "Nothing owed");
+        
+        _accrue(_borrower, line);
+        require(
+            line.minimumDue > 0 &&
+            block.timestamp > line.dueDate + lendingContract.riskParameters().defaultGracePeriod(),
+            "Not overdue enough"
+        );
+        
+        uint256 outstanding = line.principal;
+        line.principal = 0;
+        line.interest = 0;
+        line.minimumDue = 0;
+        line.dueDate = 0;
+        
+        uint256 recovered = lendingContract.defaultCreditLine(_borrower, line.asset, outstanding, msg.sender);
+        
+        emit CreditLineDefaulted(_borrower, msg.sender, outstanding, recovered);
+    }
+    
+    // ============ BILLING ============
+    
+    /**
+     * @notice Add interest accrued since the last accrual and roll over a
+     *         statement whose minimum was paid once its due date passes
+     */
+    function _accrue(address _borrower, Line storage line) internal {
+        if (line.dueDate == 0) return;
+        
+        line.interest += _pendingInterest(line);
+        line.lastAccrual = block.timestamp;
+        
+        if (line.minimumDue == 0 && block.timestamp >= line.dueDate) {
+            _issueStatement(_borrower, line, line.dueDate + _cycleLength());
+        }
+    }
+    
+    /**
+     * @notice Start a new billing cycle for the current balance
+     */
+    function _issueStatement(address _borrower, Line storage line, uint256 _dueDate) internal {
+        uint256 balance = line.principal + line.interest;
+        line.dueDate = _dueDate;
+        line.minimumDue = _minimumPayment(balance, line.interest);
+        
+        emit StatementIssued(_borrower, balance, line.minimumDue, _dueDate);
+    }
+    
+    /**
+     * @notice Interest accrued on principal since the last accrual
+     * @dev Charged per second at the line's annual rate, plus the penalty rate
+     *      for any time past a due date with the minimum still unpaid
+     */
+    function _pendingInterest(Line storage line) internal view returns (uint256) {
+        if (line.dueDate == 0) return 0;
+        
+        uint256 from = line.lastAccrual;
+        uint256 dueDate = _currentDueDate(line);
+        uint256 overdue = block.timestamp > dueDate ? block.timestamp - (from > dueDate ? from : dueDate) : 0;
+        
+        return line.principal *
+            (line.interestRate * (block.timestamp - from) + line.penaltyRate * overdue) /
+            RATE_DENOMINATOR;
+    }
+    
+    /**
+     * @notice Due date including a statement that rolls over on the next accrual
+     */
+    function _currentDueDate(Line storage line) internal view returns (uint256) {
+        if (line.minimumDue == 0 && block.timestamp >= line.dueDate) {
+            return line.dueDate + _cycleLength();
+        }
+        return line.dueDate;
+    }
+    
+    /**
+     * @notice Minimum payment for a statement balance
+     */
+    function _minimumPayment(uint256 _balance, uint256 _interest) internal pure returns (uint256) {
+        uint256 minimum = (_balance * MIN_PAYMENT_PERCENT) / 100;
+        if (minimum < _interest) {
+            minimum = _interest;
+        }
+        return minimum > 0 ? minimum : _balance;
+    }
+    
+    /**
+     * @notice Billing cycle length: the installment interval, or the demo duration in demo mode
+     */
+    function _cycleLength() internal view returns (uint256) {
+        return lendingContract.isDemoMode()
+            ? lendingContract.demoLoanDuration()
+            : lendingContract.riskParameters().installmentInterval();
+    }
+    
+    /**
+     * @notice Pool that lends an asset
+     */
+    function _poolFor(address _asset) internal view returns (LiquidityPool) {
+        return _asset == address(0)
+            ? lendingContract.liquidityPool()
+            : LiquidityPool(lendingContract.assetRegistry().getPool(_asset));
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Credit limit from the member's trust score tier, in their circle's asset
+     */
+    function getCreditLimit(address _user) public view returns (uint256) {
+        return lendingContract.getMaxLoanAmount(_user);
+    }
+    
+    /**
+     * @notice Live balance: principal plus interest accrued up to this block
+     */
+    function getBalance(address _user) public view returns (uint256) {
+        Line storage line = lines[_user];
+        return line.principal + line.interest + _pendingInterest(line);
+    }
+    
+    /**
+     * @notice Card-style statement for the dashboard
+     * @return creditLimit Current limit
+     * @return balance Live balance including accrued interest
+     * @return availableCredit What can still be drawn (0 once the balance reaches the limit)
+     * @return utilization Balance as a share of the limit, in basis points
+     * @return minimumDue Still to pay on the current statement
+     * @return dueDate Current statement's due date (0 while nothing is owed)
+     * @return interestRate Line rate, or the rate a first draw would get, in basis points
+     * @return overdue Whether the current statement's minimum is past due
+     */
+    function getStatement(address _user) external view returns (
+        uint256 creditLimit,
+        uint256 balance,
+        uint256 availableCredit,
+        uint256 utilization,
+        uint256 minimumDue,
+        uint256 dueDate,
+        uint256 interestRate,
+        bool overdue
+    ) {
+        Line storage line = lines[_user];
+        creditLimit = getCreditLimit(_user);
+        balance = getBalance(_user);
+        availableCredit = creditLimit > balance ? creditLimit - balance : 0;
+        
+        if (creditLimit > 0) {
+            utilization = (balance * 10000) / creditLimit;
+        } else if (balance > 0) {
+            utilization = 10000;
+        }
+        
+        if (line.dueDate == 0) {
+            return (creditLimit, balance, availableCredit, utilization, 0, 0, lendingContract.getInterestRate(_user), false);
+        }
+        
+        dueDate = _currentDueDate(line);
+        minimumDue = dueDate == line.dueDate
+            ? line.minimumDue
+            : _minimumPayment(balance, line.interest + _pendingInterest(line));
+        overdue = block.timestamp > dueDate;
+        
+        return (creditLimit, balance, availableCredit, utilization, minimumDue, dueDate, line.interestRate, overdue);
+    }
+    
+    /**
+     * @notice Check if anyone can call penalizeDefault on a line yet
+     */
+    function canTriggerDefault(address _user) external view returns (bool) {
+        Line storage line = lines[_user];
+        if (line.dueDate == 0) return false;
+        
+        uint256 dueDate = _currentDueDate(line);
+        return block.timestamp > dueDate + lendingContract.riskParameters().defaultGracePeriod();
+    }
+}
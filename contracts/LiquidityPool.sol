@@ -0,0 +1,355 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/**
+ * @notice Minimal ERC-20 surface used for pool assets
+ */
+interface IERC20 {
+    function decimals() external view returns (uint8);
+    function balanceOf(address _account) external view returns (uint256);
+    function transfer(address _to, uint256 _value) external returns (bool);
+    function transferFrom(address _from, address _to, uint256 _value) external returns (bool);
+}
+
+/**
+ * @notice EIP-2612 gasless approvals
+ */
+interface IERC20Permit {
+    function permit(address _owner, address _spender, uint256 _value, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s) external;
+}
+
+/**
+ * @notice Credit line contract on the lending contract, which also draws on the pool
+ */
+interface ILendingContract {
+    function creditLines() external view returns (address);
+}
+
+/**
+ * @title LiquidityPool - Lender deposits backing TrustCircles loans
+ * @notice Anyone can deposit the pool's asset and receive ERC-20 pool shares.
+ *         Loans are funded from the pool and repayments flow back into it, so
+ *         interest accrues to all shareholders pro rata through the share price.
+ * @dev One pool per asset; address(0) is native POL. Share price =
+ *      totalAssets / totalSupply, where totalAssets counts both idle assets
+ *      and principal currently lent out. A virtual share and asset in the
+ *      conversions plus shares locked on the first deposit keep a donation
+ *      to an empty pool from inflating the price and rounding out depositors
+ */
+contract LiquidityPool {
+    
+    // ============ STATE VARIABLES ============
+    
+    uint256 public constant VIRTUAL_SHARES = 1;
+    uint256 public constant VIRTUAL_ASSETS = 1;
+    uint256 public constant MINIMUM_SHARES = 1000; // Locked forever by the first deposit
+    address public constant DEAD_ADDRESS = 0x000000000000000000000000000000000000dEaD;
+    
+    string public name;
+    string public symbol;
+    uint8 public immutable decimals; // Same as the pool asset
+    
+    address public immutable lendingContract;
+    address public immutable asset; // address(0) for native POL
+    
+    uint256 public totalSupply;
+    uint256 public totalLent; // Principal currently out on loans
+    uint256 public totalInterestEarned;
+    uint256 public totalLosses;
+    
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+    
+    // ============ EVENTS ============
+    
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+    event Deposit(address indexed lender, uint256 assets, uint256 shares);
+    event Withdraw(address indexed lender, uint256 assets, uint256 shares);
+    event LoanFunded(address indexed recipient, uint256 amount);
+    event InterestEarned(uint256 principal, uint256 interest);
+    event LossWrittenOff(uint256 principal, uint256 recovered);
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlyLendingContract() {
+        require(
+            msg.sender == lendingContract || msg.sender == ILendingContract(lendingContract).creditLines(),
+            "Only lending contract"
+        );
+        _;
+    }
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _lendingContract, address _asset, string memory _name, string memory _symbol) {
+        require(_lendingContract != address(0), "Invalid address");
+        lendingContract = _lendingContract;
+        asset = _asset;
+        decimals = _asset == address(0) ? 18 : IERC20(_asset).decimals();
+        name = _name;
+        symbol = _symbol;
+    }
+    
+    // ============ LENDER FUNCTIONS ============
+    
+    /**
+     * @notice Deposit the pool asset and receive pool shares
+     * @dev Native pools take msg.value; token pools pull `_assets` with transferFrom
+     * @return shares Shares minted to the sender
+     */
+    function deposit(uint256 _assets) external payable returns (uint256 shares) {
+        return _deposit(_assets);
+    }
+    
+    /**
+     * @notice Approve with an EIP-2612 permit and deposit in one transaction
+     */
+    function depositWithPermit(uint256 _assets, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s)
+        external
+        returns (uint256 shares)
+    {
+        require(asset != address(0), "Native pool");
+        IERC20Permit(asset).permit(msg.sender, address(this), _assets, _deadline, _v, _r, _s);
+        return _deposit(_assets);
+    }
+    
+    function _deposit(uint256 _assets) internal returns (uint256 shares) {
+        require(_assets > 0, "Must deposit some amount");
+        _receive(msg.sender, _assets);
+        
+        // Price shares against assets held before this deposit
+        uint256 assetsBefore = totalAssets() - _assets;
+        shares = (_assets * (totalSupply + VIRTUAL_SHARES)) / (assetsBefore + VIRTUAL_ASSETS);
+        
+        if (totalSupply == 0) {
+            // Lock the first shares so the supply can never be redeemed back down to dust
+            require(shares > MINIMUM_SHARES, "Deposit too small");
+            _mint(DEAD_ADDRESS, MINIMUM_SHARES);
+            shares -= MINIMUM_SHARES;
+        }
+        require(shares > 0, "Deposit too small");
+        
+        _mint(msg.sender, shares);
+        
+        emit Deposit(msg.sender, _assets, shares);
+    }
+    
+    /**
+     * @notice Withdraw an exact amount of the asset, burning the shares it is worth
+     * @param _assets Amount of the asset to withdraw
+     */
+    function withdraw(uint256 _assets) external returns (uint256 shares) {
+        require(_assets > 0, "Amount must be greater than 0");
+        
+        // Round up so the pool never pays out more than the shares are worth
+        uint256 assets = totalAssets() + VIRTUAL_ASSETS;
+        shares = (_assets * (totalSupply + VIRTUAL_SHARES) + assets - 1) / assets;
+        
+        _withdraw(_assets, shares);
+    }
+    
+    /**
+     * @notice Burn shares for their current asset value
+     * @param _shares Amount of shares to redeem
+     */
+    function redeem(uint256 _shares) external returns (uint256 assets) {
+        require(_shares > 0, "Amount must be greater than 0");
+        
+        assets = convertToAssets(_shares);
+        require(assets > 0, "Nothing to withdraw");
+        
+        _withdraw(assets, _shares);
+    }
+    
+    /**
+     * @notice Pay out assets for burned shares, limited by idle liquidity
+     */
+    function _withdraw(uint256 _assets, uint256 _shares) internal {
+        require(balanceOf[msg.sender] >= _shares, "Insufficient shares");
+        require(_assets <= availableLiquidity(), "Insufficient liquidity");
+        
+        _burn(msg.sender, _shares);
+        
+        emit Withdraw(msg.sender, _assets, _shares);
+        
+        _send(msg.sender, _assets);
+    }
+    
+    /**
+     * @notice Take in a deposit: native POL must arrive as msg.value, tokens are pulled
+     */
+    function _receive(address _from, uint256 _amount) internal {
+        if (asset == address(0)) {
+            require(msg.value == _amount, "Incorrect amount");
+        } else {
+            require(msg.value == 0, "Token pool");
+            require(IERC20(asset).transferFrom(_from, address(this), _amount), "Transfer failed");
+        }
+    }
+    
+    /**
+     * @notice Match msg.value to an amount paid in by the lending contract
+     */
+    function _checkNativeValue(uint256 _amount) internal view {
+        require(msg.value == (asset == address(0) ? _amount : 0), "Incorrect amount");
+    }
+    
+    /**
+     * @notice Send assets out of the pool
+     */
+    function _send(address _to, uint256 _amount) internal {
+        if (asset == address(0)) {
+            (bool success, ) = payable(_to).call{value: _amount}("");
+            require(success, "Transfer failed");
+        } else {
+            require(IERC20(asset).transfer(_to, _amount), "Transfer failed");
+        }
+    }
+    
+    // ============ ERC-20 ============
+    
+    function transfer(address _to, uint256 _value) external returns (bool) {
+        _transfer(msg.sender, _to, _value);
+        return true;
+    }
+    
+    function approve(address _spender, uint256 _value) external returns (bool) {
+        allowance[msg.sender][_spender] = _value;
+        emit Approval(msg.sender, _spender, _value);
+        return true;
+    }
+    
+    function transferFrom(address _from, address _to, uint256 _value) external returns (bool) {
+        uint256 allowed = allowance[_from][msg.sender];
+        if (allowed != type(uint256).max) {
+            require(allowed >= _value, "Insufficient allowance");
+            allowance[_from][msg.sender] = allowed - _value;
+        }
+        _transfer(_from, _to, _value);
+        return true;
+    }
+    
+    function _transfer(address _from, address _to, uint256 _value) internal {
+        require(_to != address(0), "Invalid address");
+        require(balanceOf[_from] >= _value, "Insufficient balance");
+        
+        balanceOf[_from] -= _value;
+        balanceOf[_to] += _value;
+        
+        emit Transfer(_from, _to, _value);
+    }
+    
+    function _mint(address _to, uint256 _value) internal {
+        totalSupply += _value;
+        balanceOf[_to] += _value;
+        emit Transfer(address(0), _to, _value);
+    }
+    
+    function _burn(address _from, uint256 _value) internal {
+        balanceOf[_from] -= _value;
+        totalSupply -= _value;
+        emit Transfer(_from, address(0), _value);
+    }
+    
+    // ============ LENDING CONTRACT HOOKS ============
+    
+    /**
+     * @notice Send loan principal to a borrower or merchant
+     */
+    function lend(address _recipient, uint256 _amount) external onlyLendingContract {
+        require(_amount <= availableLiquidity(), "Insufficient liquidity");
+        
+        totalLent += _amount;
+        
+        emit LoanFunded(_recipient, _amount);
+        
+        _send(_recipient, _amount);
+    }
+    
+    /**
+     * @notice Receive a repayment; anything above the principal is interest
+     * @dev Native payments arrive as msg.value; tokens are transferred in by
+     *      the lending contract before the call
+     * @param _principal Principal portion of the payment
+     * @param _amount Total payment
+     */
+    function repay(uint256 _principal, uint256 _amount) external payable onlyLendingContract {
+        require(_amount >= _principal, "Principal exceeds payment");
+        _checkNativeValue(_amount);
+        
+        totalLent -= _principal;
+        totalInterestEarned += _amount - _principal;
+        
+        emit InterestEarned(_principal, _amount - _principal);
+    }
+    
+    /**
+     * @notice Write off defaulted principal, crediting any recovered bonds
+     * @param _principal Outstanding principal of the defaulted loan
+     * @param _recovered Slashed bonds paid in
+     */
+    function writeOff(uint256 _principal, uint256 _recovered) external payable onlyLendingContract {
+        _checkNativeValue(_recovered);
+        
+        totalLent -= _principal;
+        if (_principal > _recovered) {
+            totalLosses += _principal - _recovered;
+        }
+        
+        emit LossWrittenOff(_principal, _recovered);
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Idle assets that can be lent out or withdrawn
+     */
+    function availableLiquidity() public view returns (uint256) {
+        return asset == address(0) ? address(this).balance : IERC20(asset).balanceOf(address(this));
+    }
+    
+    /**
+     * @notice Idle assets plus principal out on loans
+     */
+    function totalAssets() public view returns (uint256) {
+        return availableLiquidity() + totalLent;
+    }
+    
+    /**
+     * @notice Asset value of an amount of shares
+     */
+    function convertToAssets(uint256 _shares) public view returns (uint256) {
+        return (_shares * (totalAssets() + VIRTUAL_ASSETS)) / (totalSupply + VIRTUAL_SHARES);
+    }
+    
+    /**
+     * @notice Share of pool assets currently lent out, in basis points
+     */
+    function getUtilization() external view returns (uint256) {
+        uint256 assets = totalAssets();
+        if (assets == 0) return 0;
+        return (totalLent * 10000) / assets;
+    }
+    
+    /**
+     * @notice Get pool stats for dashboards
+     */
+    function getPoolStats() external view returns (
+        uint256 assets,
+        uint256 available,
+        uint256 lent,
+        uint256 shares,
+        uint256 interestEarned,
+        uint256 losses
+    ) {
+        return (
+            totalAssets(),
+            availableLiquidity(),
+            totalLent,
+            totalSupply,
+            totalInterestEarned,
+            totalLosses
+        );
+    }
+}
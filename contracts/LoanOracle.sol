@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/**
+ * @notice Loan lookups and approval on the lending contract
+ */
+interface ITrustCirclesLoans {
+    function admin() external view returns (address);
+    function approveLoan(uint256 _loanId) external;
+    function setOffChainPoints(address _user, uint256 _points) external;
+    function getLoanDetails(uint256 _loanId) external view returns (
+        address borrower,
+        uint256 amount,
+        uint256 totalRepayment,
+        uint256 dueDate,
+        bool approved,
+        bool disbursed,
+        bool repaid,
+        string memory purpose,
+        bool defaulted,
+        address asset
+    );
+}
+
+/**
+ * @title LoanOracle - Risk oracle attestations for loans and trust scores
+ * @notice The off-chain risk oracle signs an attestation for a loan it
+ *         recommends approving. Anyone can submit that attestation here
+ *         and the loan is approved and disbursed in the same transaction.
+ *         Loans the oracle sends to review still wait for a loan officer.
+ *         The oracle also signs members' off-chain trust points (KYC,
+ *         wallet age, activity), which TrustCircles adds to their on-chain
+ *         individual score, up to MAX_OFFCHAIN_POINTS.
+ * @dev Must hold LOAN_OFFICER_ROLE and RISK_MANAGER_ROLE on TrustCircles
+ *      (scripts/deploy.js grants them). Attestations bind the loan ID,
+ *      borrower, amount and asset, so a signature cannot be reused for a
+ *      different loan, and expire. Score updates carry a per-member nonce.
+ */
+contract LoanOracle {
+    
+    // ============ STATE VARIABLES ============
+    
+    ITrustCirclesLoans public immutable lendingContract;
+    
+    bytes32 public constant SCORE_UPDATE_TYPEHASH = keccak256("ScoreUpdate(address user,uint256 points,uint256 nonce,uint256 expiresAt)");
+    
+    address public oracleSigner; // Key the risk oracle signs approvals with
+    mapping(address => uint256) public scoreNonces; // Next nonce a member's score update must carry
+    
+    // ============ EVENTS ============
+    
+    event OracleSignerUpdated(address indexed previousSigner, address indexed newSigner);
+    event LoanAutoApproved(uint256 indexed loanId, address indexed borrower, uint256 amount, address indexed signer);
+    event ScoreAttested(address indexed user, uint256 points, uint256 nonce);
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlyAdmin() {
+        require(msg.sender == lendingContract.admin(), "Only admin");
+        _;
+    }
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _lendingContract, address _oracleSigner) {
+        require(_lendingContract != address(0) && _oracleSigner != address(0), "Invalid address");
+        lendingContract = ITrustCirclesLoans(_lendingContract);
+        oracleSigner = _oracleSigner;
+        
+        emit OracleSignerUpdated(address(0), _oracleSigner);
+    }
+    
+    // ============ APPROVAL ============
+    
+    /**
+     * @notice Approve and disburse a loan the risk oracle has signed off on
+     * @param _loanId ID of the pending loan
+     * @param _expiresAt Timestamp after which the attestation is no longer valid
+     * @param _signature Oracle signature over attestationHash(...)
+     */
+    function approveWithAttestation(uint256 _loanId, uint256 _expiresAt, bytes calldata _signature) external {
+        require(block.timestamp <= _expiresAt, "Attestation expired");
+        
+        (address borrower, uint256 amount, , , bool approved, , , , , address asset) = lendingContract.getLoanDetails(_loanId);
+        require(borrower != address(0), "Loan doesn't exist");
+        require(!approved, "Already approved");
+        
+        bytes32 digest = attestationHash(_loanId, borrower, amount, asset, _expiresAt);
+        require(_recover(digest, _signature) == oracleSigner, "Invalid attestation");
+        
+        emit LoanAutoApproved(_loanId, borrower, amount, oracleSigner);
+        
+        lendingContract.approveLoan(_loanId);
+    }
+    
+    // ============ SCORES ============
+    
+    /**
+     * @notice Write oracle-signed off-chain trust points to TrustCircles
+     * @dev Each signature is valid for one nonce, so it cannot be replayed and
+     *      an older update cannot overwrite a newer one
+     * @param _points Off-chain points (0 to TrustCircles.MAX_OFFCHAIN_POINTS)
+     * @param _expiresAt Timestamp after which the attestation is no longer valid
+     */
+    function updateScore(address _user, uint256 _points, uint256 _expiresAt, bytes calldata _signature) external {
+        require(block.timestamp <= _expiresAt, "Attestation expired");
+        
+        uint256 nonce = scoreNonces[_user];
+        bytes32 digest = scoreUpdateHash(_user, _points, nonce, _expiresAt);
+        require(_recover(digest, _signature) == oracleSigner, "Invalid attestation");
+        
+        scoreNonces[_user] = nonce + 1;
+        emit ScoreAttested(_user, _points, nonce);
+        
+        lendingContract.setOffChainPoints(_user, _points);
+    }
+    
+    // ============ ADMIN FUNCTIONS ============
+    
+    /**
+     * @notice Rotate the risk oracle's signing key
+     */
+    function setOracleSigner(address _signer) external onlyAdmin {
+        require(_signer != address(0), "Invalid address");
+        emit OracleSignerUpdated(oracleSigner, _signer);
+        oracleSigner = _signer;
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Message the oracle signs (as an EIP-191 personal message) to approve a loan
+     * @dev Includes the chain ID and this contract's address so attestations
+     *      cannot be replayed on another deployment
+     */
+    function attestationHash(
+        uint256 _loanId,
+        address _borrower,
+        uint256 _amount,
+        address _asset,
+        uint256 _expiresAt
+    ) public view returns (bytes32) {
+        return keccak256(abi.encode(block.chainid, address(this), _loanId, _borrower, _amount, _asset, _expiresAt));
+    }
+    
+    /**
+     * @notice Message the oracle signs (as an EIP-191 personal message) to set off-chain points
+     */
+    function scoreUpdateHash(
+        address _user,
+        uint256 _points,
+        uint256 _nonce,
+        uint256 _expiresAt
+    ) public view returns (bytes32) {
+        return keccak256(abi.encode(SCORE_UPDATE_TYPEHASH, block.chainid, address(this), _user, _points, _nonce, _expiresAt));
+    }
+    
+    /**
+     * @notice Signer of an EIP-191 signature over a 32-byte hash
+     * @dev Rejects malleable (high-s) signatures like OpenZeppelin's ECDSA
+     */
+    function _recover(bytes32 _hash, bytes calldata _signature) internal pure returns (address signer) {
+        require(_signature.length == 65, "Invalid signature length");
+        
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        uint8 v = uint8(_signature[64]);
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "Invalid signature"
+        );
+        
+        bytes32 digest = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", _hash));
+        signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+    }
+}
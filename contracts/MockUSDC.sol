@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/**
+ * @title MockUSDC - 6-decimal stablecoin for local and testnet use
+ * @notice Plain ERC-20 with EIP-2612 permits. Anyone can mint, so it must
+ *         never be allow-listed on a production deployment.
+ */
+contract MockUSDC {
+    
+    // ============ STATE VARIABLES ============
+    
+    string public constant name = "Mock USD Coin";
+    string public constant symbol = "USDC";
+    string public constant version = "1";
+    uint8 public constant decimals = 6;
+    
+    bytes32 public constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+    
+    uint256 public totalSupply;
+    
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+    mapping(address => uint256) public nonces;
+    
+    // ============ EVENTS ============
+    
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+    
+    // ============ FAUCET ============
+    
+    /**
+     * @notice Mint test tokens to any address
+     */
+    function mint(address _to, uint256 _value) external {
+        require(_to != address(0), "Invalid address");
+        totalSupply += _value;
+        balanceOf[_to] += _value;
+        emit Transfer(address(0), _to, _value);
+    }
+    
+    // ============ ERC-20 ============
+    
+    function transfer(address _to, uint256 _value) external returns (bool) {
+        _transfer(msg.sender, _to, _value);
+        return true;
+    }
+    
+    function approve(address _spender, uint256 _value) external returns (bool) {
+        _approve(msg.sender, _spender, _value);
+        return true;
+    }
+    
+    function transferFrom(address _from, address _to, uint256 _value) external returns (bool) {
+        uint256 allowed = allowance[_from][msg.sender];
+        if (allowed != type(uint256).max) {
+            require(allowed >= _value, "Insufficient allowance");
+            allowance[_from][msg.sender] = allowed - _value;
+        }
+        _transfer(_from, _to, _value);
+        return true;
+    }
+    
+    function _transfer(address _from, address _to, uint256 _value) internal {
+        require(_to != address(0), "Invalid address");
+        require(balanceOf[_from] >= _value, "Insufficient balance");
+        
+        balanceOf[_from] -= _value;
+        balanceOf[_to] += _value;
+        
+        emit Transfer(_from, _to, _value);
+    }
+    
+    function _approve(address _owner, address _spender, uint256 _value) internal {
+        allowance[_owner][_spender] = _value;
+        emit Approval(_owner, _spender, _value);
+    }
+    
+    // ============ EIP-2612 ============
+    
+    /**
+     * @notice Approve `_spender` with an off-chain signature from `_owner`
+     */
+    function permit(
+        address _owner,
+        address _spender,
+        uint256 _value,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external {
+        require(block.timestamp <= _deadline, "Permit expired");
+        
+        bytes32 structHash = keccak256(
+            abi.encode(PERMIT_TYPEHASH, _owner, _spender, _value, nonces[_owner]++, _deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash));
+        
+        address signer = ecrecover(digest, _v, _r, _s);
+        require(signer != address(0) && signer == _owner, "Invalid signature");
+        
+        _approve(_owner, _spender, _value);
+    }
+    
+    /**
+     * @notice EIP-712 domain for permits, computed per call so it follows forks
+     */
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256(bytes(name)),
+                keccak256(bytes(version)),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+}
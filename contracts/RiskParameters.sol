@@ -0,0 +1,244 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/**
+ * @notice Role lookup on the lending contract
+ */
+interface ITrustCirclesRoles {
+    function hasRole(bytes32 _role, address _account) external view returns (bool);
+}
+
+/**
+ * @title RiskParameters - On-chain credit tiers and scoring parameters
+ * @notice Holds the score bands, borrowing limits, interest rates, repayment
+ *         timings, score weights and bonus/penalty sizes used by TrustCircles.
+ *         Interest rates are annual and quoted in basis points.
+ *         Risk managers on TrustCircles can update them; every change is
+ *         emitted as an event.
+ * @dev Deployed by the TrustCircles constructor with the original defaults
+ */
+contract RiskParameters {
+    
+    // ============ STRUCTS ============
+    
+    struct Tier {
+        uint256 minScore; // Lowest trust score in the band
+        uint256 maxAmount; // Borrowing limit in wei
+        uint256 interestRate; // Annual rate in basis points
+    }
+    
+    struct Params {
+        uint256 installmentInterval; // Time between installments
+        uint256 defaultGracePeriod; // How long past due before a loan can be defaulted
+        uint256 onTimeWindow; // Grace after a due date that still counts as on time
+        uint256 lateWindow; // Grace after a due date that still earns the late bonus
+        uint256 individualWeight; // % of the trust score from the member's own score
+        uint256 circleWeight; // % of the trust score from the circle average
+        uint256 earlyBonus;
+        uint256 onTimeBonus;
+        uint256 latePenalty;
+        uint256 defaultPenalty;
+        uint256 circleDefaultPenalty;
+        uint256 penaltyRate; // Extra annual rate in basis points while overdue
+    }
+    
+    // ============ STATE VARIABLES ============
+    
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE");
+    uint256 public constant MAX_SCORE = 100;
+    uint256 public constant MAX_TIERS = 10;
+    uint256 public constant MAX_RATE = 10000; // 100% APR
+    
+    address public immutable lendingContract;
+    
+    Tier[] private tiers;
+    
+    uint256 public installmentInterval;
+    uint256 public defaultGracePeriod;
+    uint256 public onTimeWindow;
+    uint256 public lateWindow;
+    uint256 public individualWeight;
+    uint256 public circleWeight;
+    uint256 public earlyBonus;
+    uint256 public onTimeBonus;
+    uint256 public latePenalty;
+    uint256 public defaultPenalty;
+    uint256 public circleDefaultPenalty;
+    uint256 public penaltyRate;
+    
+    // ============ EVENTS ============
+    
+    event TiersUpdated(address indexed updatedBy, Tier[] tiers);
+    event ParameterUpdated(string name, uint256 oldValue, uint256 newValue, address indexed updatedBy);
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlyRiskManager() {
+        require(ITrustCirclesRoles(lendingContract).hasRole(RISK_MANAGER_ROLE, msg.sender), "Missing role");
+        _;
+    }
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _lendingContract) {
+        require(_lendingContract != address(0), "Invalid address");
+        lendingContract = _lendingContract;
+        
+        tiers.push(Tier(0, 10 ether, 600));
+        tiers.push(Tier(60, 20 ether, 400));
+        tiers.push(Tier(70, 50 ether, 400));
+        tiers.push(Tier(80, 100 ether, 200));
+        tiers.push(Tier(90, 200 ether, 200));
+        
+        installmentInterval = 7 days;
+        defaultGracePeriod = 14 days;
+        onTimeWindow = 3 days;
+        lateWindow = 7 days;
+        individualWeight = 60;
+        circleWeight = 40;
+        earlyBonus = 15;
+        onTimeBonus = 10;
+        latePenalty = 5;
+        defaultPenalty = 50;
+        circleDefaultPenalty = 20;
+        penaltyRate = 1200;
+    }
+    
+    // ============ RISK MANAGER FUNCTIONS ============
+    
+    /**
+     * @notice Replace the tier table
+     * @dev Bands are listed by ascending minScore and the first must start at 0,
+     *      so every score maps to exactly one tier
+     */
+    function setTiers(Tier[] calldata _tiers) external onlyRiskManager {
+        require(_tiers.length > 0 && _tiers.length <= MAX_TIERS, "Invalid tier count");
+        require(_tiers[0].minScore == 0, "First tier must start at 0");
+        
+        delete tiers;
+        for (uint256 i = 0; i < _tiers.length; i++) {
+            require(_tiers[i].minScore <= MAX_SCORE, "Invalid score band");
+            require(i == 0 || _tiers[i].minScore > _tiers[i - 1].minScore, "Bands must ascend");
+            require(_tiers[i].maxAmount > 0, "Invalid max amount");
+            require(_tiers[i].interestRate <= MAX_RATE, "Invalid interest rate");
+            tiers.push(_tiers[i]);
+        }
+        
+        emit TiersUpdated(msg.sender, _tiers);
+    }
+    
+    /**
+     * @notice Update timing, weight and bonus/penalty parameters
+     * @dev Emits ParameterUpdated for each value that actually changed
+     */
+    function setParams(Params calldata _params) external onlyRiskManager {
+        require(_params.installmentInterval > 0, "Invalid interval");
+        require(_params.lateWindow >= _params.onTimeWindow, "Late window before on-time window");
+        require(_params.individualWeight + _params.circleWeight == 100, "Weights must total 100");
+        require(
+            _params.earlyBonus <= MAX_SCORE &&
+            _params.onTimeBonus <= MAX_SCORE &&
+            _params.latePenalty <= MAX_SCORE &&
+            _params.defaultPenalty <= MAX_SCORE &&
+            _params.circleDefaultPenalty <= MAX_SCORE,
+            "Adjustment exceeds max score"
+        );
+        require(_params.penaltyRate <= MAX_RATE, "Invalid penalty rate");
+        
+        installmentInterval = _update("installmentInterval", installmentInterval, _params.installmentInterval);
+        defaultGracePeriod = _update("defaultGracePeriod", defaultGracePeriod, _params.defaultGracePeriod);
+        onTimeWindow = _update("onTimeWindow", onTimeWindow, _params.onTimeWindow);
+        lateWindow = _update("lateWindow", lateWindow, _params.lateWindow);
+        individualWeight = _update("individualWeight", individualWeight, _params.individualWeight);
+        circleWeight = _update("circleWeight", circleWeight, _params.circleWeight);
+        earlyBonus = _update("earlyBonus", earlyBonus, _params.earlyBonus);
+        onTimeBonus = _update("onTimeBonus", onTimeBonus, _params.onTimeBonus);
+        latePenalty = _update("latePenalty", latePenalty, _params.latePenalty);
+        defaultPenalty = _update("defaultPenalty", defaultPenalty, _params.defaultPenalty);
+        circleDefaultPenalty = _update("circleDefaultPenalty", circleDefaultPenalty, _params.circleDefaultPenalty);
+        penaltyRate = _update("penaltyRate", penaltyRate, _params.penaltyRate);
+    }
+    
+    /**
+     * @notice Emit a change event when a parameter moves
+     */
+    function _update(string memory _name, uint256 _oldValue, uint256 _newValue) internal returns (uint256) {
+        if (_oldValue != _newValue) {
+            emit ParameterUpdated(_name, _oldValue, _newValue, msg.sender);
+        }
+        return _newValue;
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Tier that a trust score falls into
+     */
+    function getTier(uint256 _score) public view returns (Tier memory) {
+        uint256 i = tiers.length - 1;
+        while (i > 0 && _score < tiers[i].minScore) {
+            i--;
+        }
+        return tiers[i];
+    }
+    
+    /**
+     * @notice Borrowing limit for a trust score
+     */
+    function getMaxLoanAmount(uint256 _score) external view returns (uint256) {
+        return getTier(_score).maxAmount;
+    }
+    
+    /**
+     * @notice Annual interest rate (basis points) for a trust score
+     */
+    function getInterestRate(uint256 _score) external view returns (uint256) {
+        return getTier(_score).interestRate;
+    }
+    
+    /**
+     * @notice Score bonus for paying an installment at a given time
+     */
+    function getCreditBonus(uint256 _dueDate, uint256 _repaymentTime) external view returns (uint256) {
+        if (_repaymentTime < _dueDate) {
+            // Early repayment
+            return earlyBonus;
+        } else if (_repaymentTime <= _dueDate + onTimeWindow) {
+            // On time or slightly late
+            return onTimeBonus;
+        } else if (_repaymentTime <= _dueDate + lateWindow) {
+            // Late but recoverable
+            return latePenalty; // Actually reduces score
+        } else {
+            // Very late
+            return 0; // No bonus
+        }
+    }
+    
+    /**
+     * @notice Get the full tier table
+     */
+    function getTiers() external view returns (Tier[] memory) {
+        return tiers;
+    }
+    
+    /**
+     * @notice Get all non-tier parameters
+     */
+    function getParams() external view returns (Params memory) {
+        return Params({
+            installmentInterval: installmentInterval,
+            defaultGracePeriod: defaultGracePeriod,
+            onTimeWindow: onTimeWindow,
+            lateWindow: lateWindow,
+            individualWeight: individualWeight,
+            circleWeight: circleWeight,
+            earlyBonus: earlyBonus,
+            onTimeBonus: onTimeBonus,
+            latePenalty: latePenalty,
+            defaultPenalty: defaultPenalty,
+            circleDefaultPenalty: circleDefaultPenalty,
+            penaltyRate: penaltyRate
+        });
+    }
+}
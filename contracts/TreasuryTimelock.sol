@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.20;
+
+/**
+ * @notice The TrustCircles functions that only the timelock may call
+ */
+interface ITrustCirclesTreasury {
+    function withdraw(uint256 _amount) external;
+    function transferAdmin(address _newAdmin) external;
+}
+
+/**
+ * @title TreasuryTimelock - M-of-N signer approval for treasury operations
+ * @notice Protocol withdrawals and admin transfers are proposed by a signer,
+ *         approved by `threshold` signers, wait out `delay` and are then
+ *         executed. Any signer can cancel an operation before it executes.
+ * @dev The delay starts counting once the approval threshold is reached
+ */
+contract TreasuryTimelock {
+    
+    // ============ STRUCTS ============
+    
+    enum OperationType { Withdraw, TransferAdmin }
+    
+    struct Operation {
+        uint256 id;
+        OperationType opType;
+        address target; // Withdrawal recipient or new admin
+        uint256 amount;
+        address proposer;
+        uint256 approvals;
+        uint256 proposedAt;
+        uint256 eta; // 0 until the threshold is reached
+        bool executed;
+        bool cancelled;
+    }
+    
+    // ============ STATE VARIABLES ============
+    
+    ITrustCirclesTreasury public immutable trustCircles;
+    uint256 public immutable threshold;
+    uint256 public immutable delay;
+    
+    address[] private signers;
+    mapping(address => bool) public isSigner;
+    
+    uint256 public operationCount;
+    mapping(uint256 => Operation) public operations;
+    mapping(uint256 => mapping(address => bool)) public hasApproved;
+    
+    // ============ EVENTS ============
+    
+    event OperationProposed(uint256 indexed id, OperationType opType, address indexed target, uint256 amount, address indexed proposer);
+    event OperationApproved(uint256 indexed id, address indexed signer, uint256 approvals);
+    event OperationQueued(uint256 indexed id, uint256 eta);
+    event OperationExecuted(uint256 indexed id, address indexed executor);
+    event OperationCancelled(uint256 indexed id, address indexed signer);
+    
+    // ============ MODIFIERS ============
+    
+    modifier onlySigner() {
+        require(isSigner[msg.sender], "Only signer");
+        _;
+    }
+    
+    modifier pendingOperation(uint256 _id) {
+        require(_id > 0 && _id <= operationCount, "Invalid operation");
+        require(!operations[_id].executed, "Already executed");
+        require(!operations[_id].cancelled, "Operation cancelled");
+        _;
+    }
+    
+    // ============ CONSTRUCTOR ============
+    
+    constructor(address _trustCircles, address[] memory _signers, uint256 _threshold, uint256 _delay) {
+        require(_trustCircles != address(0), "Invalid address");
+        require(_threshold > 0 && _threshold <= _signers.length, "Invalid threshold");
+        
+        for (uint256 i = 0; i < _signers.length; i++) {
+            require(_signers[i] != address(0), "Invalid address");
+            require(!isSigner[_signers[i]], "Duplicate signer");
+            isSigner[_signers[i]] = true;
+            signers.push(_signers[i]);
+        }
+        
+        trustCircles = ITrustCirclesTreasury(_trustCircles);
+        threshold = _threshold;
+        delay = _delay;
+    }
+    
+    // ============ PROPOSALS ============
+    
+    /**
+     * @notice Propose withdrawing protocol liquidity to a recipient
+     */
+    function proposeWithdraw(uint256 _amount, address _recipient) external onlySigner returns (uint256) {
+        require(_amount > 0, "Amount must be greater than 0");
+        require(_recipient != address(0), "Invalid address");
+        return _propose(OperationType.Withdraw, _recipient, _amount);
+    }
+    
+    /**
+     * @notice Propose handing TrustCircles admin rights to a new address
+     */
+    function proposeTransferAdmin(address _newAdmin) external onlySigner returns (uint256) {
+        require(_newAdmin != address(0), "Invalid address");
+        return _propose(OperationType.TransferAdmin, _newAdmin, 0);
+    }
+    
+    /**
+     * @notice Record a new operation; the proposer's approval counts
+     */
+    function _propose(OperationType _opType, address _target, uint256 _amount) internal returns (uint256) {
+        operationCount++;
+        uint256 id = operationCount;
+        
+        operations[id] = Operation({
+            id: id,
+            opType: _opType,
+            target: _target,
+            amount: _amount,
+            proposer: msg.sender,
+            approvals: 0,
+            proposedAt: block.timestamp,
+            eta: 0,
+            executed: false,
+            cancelled: false
+        });
+        
+        emit OperationProposed(id, _opType, _target, _amount, msg.sender);
+        
+        _approve(id);
+        
+        return id;
+    }
+    
+    // ============ APPROVAL & EXECUTION ============
+    
+    /**
+     * @notice Approve a pending operation
+     */
+    function approve(uint256 _id) external onlySigner pendingOperation(_id) {
+        _approve(_id);
+    }
+    
+    /**
+     * @notice Count an approval and start the timelock at the threshold
+     */
+    function _approve(uint256 _id) internal {
+        require(!hasApproved[_id][msg.sender], "Already approved");
+        
+        Operation storage op = operations[_id];
+        hasApproved[_id][msg.sender] = true;
+        op.approvals++;
+        
+        emit OperationApproved(_id, msg.sender, op.approvals);
+        
+        if (op.approvals == threshold) {
+            op.eta = block.timestamp + delay;
+            emit OperationQueued(_id, op.eta);
+        }
+    }
+    
+    /**
+     * @notice Execute an approved operation once its timelock has passed
+     */
+    function execute(uint256 _id) external onlySigner pendingOperation(_id) {
+        Operation storage op = operations[_id];
+        require(op.eta > 0, "Not enough approvals");
+        require(block.timestamp >= op.eta, "Timelock not expired");
+        
+        op.executed = true;
+        
+        emit OperationExecuted(_id, msg.sender);
+        
+        if (op.opType == OperationType.Withdraw) {
+            // TrustCircles pays the withdrawal to this contract; pass it on
+            trustCircles.withdraw(op.amount);
+            (bool success, ) = payable(op.target).call{value: op.amount}("");
+            require(success, "Transfer failed");
+        } else {
+            trustCircles.transferAdmin(op.target);
+        }
+    }
+    
+    /**
+     * @notice Cancel an operation that has not executed yet (any signer)
+     */
+    function cancel(uint256 _id) external onlySigner pendingOperation(_id) {
+        operations[_id].cancelled = true;
+        emit OperationCancelled(_id, msg.sender);
+    }
+    
+    /**
+     * @notice Accept withdrawals from TrustCircles
+     */
+    receive() external payable {
+        require(msg.sender == address(trustCircles), "Only TrustCircles");
+    }
+    
+    // ============ VIEW FUNCTIONS ============
+    
+    /**
+     * @notice Get the signer set
+     */
+    function getSigners() external view returns (address[] memory) {
+        return signers;
+    }
+    
+    /**
+     * @notice Get operation details
+     */
+    function getOperation(uint256 _id) external view returns (Operation memory) {
+        return operations[_id];
+    }
+}
@@ -1,10 +1,17 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.20;
 
+import "./LiquidityPool.sol";
+import "./TreasuryTimelock.sol";
+import "./RiskParameters.sol";
+import "./CircleAdmissions.sol";
+import "./AssetRegistry.sol";
+import "./CreditLines.sol";
+
 /**
  * @title TrustCircles - Community-Based Micro-Lending Platform
  * @notice Enables peer-to-peer lending with trust circles and credit scoring
- * @dev All loans have 7-day duration, scores range 0-100
+ * @dev Loans repay in weekly installments (7 days each), scores range 0-100
  */
 contract TrustCircles {
     
@@ -17,6 +24,8 @@ contract TrustCircles {
         uint256 totalStake;
         uint256 createdAt;
         bool isActive;
+        address creator;
+        address asset; // Bonds and loans in this circle use this asset (address(0) = POL)
     }
     
     struct MemberData {
@@ -27,15 +36,15 @@ contract TrustCircles {
         uint256 totalRepaid;
         uint256 loansCompleted;
         bool isActive;
-        bool hasActiveLoan;
+        bool hasActiveLoan; // Installment loan or drawn credit line outstanding
     }
     
     struct Loan {
         uint256 id;
         address borrower;
         uint256 amount;
-        uint256 interestAmount;
-        uint256 totalRepayment;
+        uint256 interestAmount; // Interest accrued so far
+        uint256 totalRepayment; // Principal plus interest accrued so far
         uint256 requestTime;
         uint256 approvalTime;
         uint256 disbursementTime;
@@ -44,31 +53,60 @@ contract TrustCircles {
         bool approved;
         bool disbursed;
         bool repaid;
+        bool defaulted;
         string purpose;
+        uint256 installmentCount;
+        uint256 installmentsPaid;
+        uint256 amountRepaid;
+        uint256 creditBonus; // Worst bonus earned across installments
+        uint256[] installmentDueDates;
+        address merchant; // Paid instead of the borrower for checkout purchases
+        uint256 interestRate; // Annual rate in basis points, fixed at request time
+        uint256 penaltyRate; // Extra annual rate in basis points while overdue
+        uint256 principalRepaid;
+        uint256 lastAccrual;
+        address asset; // The borrower's circle asset at request time
+    }
+    
+    struct Merchant {
+        string name;
+        bool isActive;
+        uint256 totalSales; // Summed across assets; MerchantPurchase events carry the asset
+        uint256 purchaseCount;
     }
     
     // ============ STATE VARIABLES ============
     
-    address public admin;
+    address public admin; // Grants and revokes roles
+    LiquidityPool public liquidityPool; // Lender deposits that fund loans
+    address public treasuryTimelock; // M-of-N signers for withdrawals and admin transfers
+    RiskParameters public immutable riskParameters; // Tiers, timings, weights and score adjustments
+    CircleAdmissions public immutable circleAdmissions; // Join requests and member vouching
+    AssetRegistry public immutable assetRegistry; // Allow-listed ERC-20 assets and their pools
+    CreditLines public immutable creditLines; // Revolving credit lines drawn from the pools
     uint256 public circleCount;
     uint256 public loanCount;
+    mapping(address => uint256) public totalBonded; // Circle stakes held per asset, never lent out
     
     // Constants
     uint256 public constant MIN_CIRCLE_MEMBERS = 3;
     uint256 public constant STARTING_SCORE = 50;
     uint256 public constant MAX_SCORE = 100;
+    uint256 public constant MAX_OFFCHAIN_POINTS = 20; // Cap on the risk oracle's off-chain trust points
     uint256 public constant MIN_STAKE = 500000000000000000; // 0.5 ether in wei
-    uint256 public constant LOAN_DURATION = 7 days;
-    uint256 public constant INDIVIDUAL_WEIGHT = 60; // 60%
-    uint256 public constant CIRCLE_WEIGHT = 40; // 40%
-    
-    // Score adjustments
-    uint256 public constant ON_TIME_BONUS = 10;
-    uint256 public constant EARLY_BONUS = 15;
-    uint256 public constant LATE_PENALTY = 5;
-    uint256 public constant VERY_LATE_PENALTY = 30;
-    uint256 public constant DEFAULT_PENALTY = 50;
-    uint256 public constant CIRCLE_DEFAULT_PENALTY = 20;
+    uint256 public constant MAX_INSTALLMENTS = 12;
+    uint256 public constant LEAVE_COOLDOWN = 7 days;
+    uint256 public constant RATE_DENOMINATOR = 10000 * 365 days; // Basis points per year
+    
+    // Roles
+    bytes32 public constant LOAN_OFFICER_ROLE = keccak256("LOAN_OFFICER_ROLE"); // Approve and disburse loans
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE"); // Deposit protocol funds
+    bytes32 public constant RISK_MANAGER_ROLE = keccak256("RISK_MANAGER_ROLE"); // Freeze and unfreeze accounts
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE"); // Pause and unpause the protocol
+    
+    // Circuit breaker: blocks new circles, joins and loans; repayments stay open
+    bool public paused;
+    string public pauseReason;
     
     // Demo mode (can be toggled for hackathon)
     bool public isDemoMode = false;
@@ -77,25 +115,47 @@ contract TrustCircles {
     // Mappings
     mapping(uint256 => Circle) public circles;
     mapping(address => MemberData) public members;
-    mapping(uint256 => Loan) public loans;
+    mapping(uint256 => Loan) internal loans;
     mapping(address => uint256[]) public userLoans;
     mapping(uint256 => bool) public circleExists;
+    mapping(address => Merchant) public merchants;
+    mapping(bytes32 => mapping(address => bool)) public hasRole;
+    mapping(address => uint256) public leaveRequestedAt;
+    mapping(address => uint256) public offChainPoints; // Oracle-attested points added to the individual score
     
     // ============ EVENTS ============
     
     event CircleCreated(uint256 indexed circleId, string name, address indexed creator);
     event MemberJoined(uint256 indexed circleId, address indexed member, uint256 totalMembers);
     event CircleActivated(uint256 indexed circleId);
+    event CircleDeactivated(uint256 indexed circleId);
+    event LeaveRequested(uint256 indexed circleId, address indexed member, uint256 availableAt);
+    event LeaveCancelled(uint256 indexed circleId, address indexed member);
+    event MemberLeft(uint256 indexed circleId, address indexed member, uint256 refund, uint256 totalMembers);
     event LoanRequested(uint256 indexed loanId, address indexed borrower, uint256 amount, string purpose);
     event LoanApproved(uint256 indexed loanId, address indexed borrower);
     event LoanDisbursed(uint256 indexed loanId, address indexed borrower, uint256 amount);
     event LoanRepaid(uint256 indexed loanId, address indexed borrower, uint256 creditBonus);
+    event InstallmentPaid(uint256 indexed loanId, address indexed borrower, uint256 amount, uint256 installmentsPaid, uint256 remainingBalance);
     event ScoreUpdated(address indexed user, uint256 newScore, string reason);
     event CircleScoreUpdated(uint256 indexed circleId, uint256 newAverage);
     event AccountFrozen(address indexed user, string reason);
     event DemoModeToggled(bool enabled);
+    event Paused(address indexed account, string reason);
+    event Unpaused(address indexed account, string reason);
     event LiquidityDeposited(address indexed admin, uint256 amount, uint256 newBalance);
     event FundsWithdrawn(address indexed admin, uint256 amount, uint256 remainingBalance);
+    event LiquidityPoolSet(address indexed pool);
+    event TreasuryTimelockSet(address indexed timelock);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event AccountUnfrozen(address indexed user);
+    event MerchantRegistered(address indexed merchant, string name);
+    event MerchantStatusChanged(address indexed merchant, bool isActive);
+    event LoanDefaulted(uint256 indexed loanId, address indexed borrower, address indexed triggeredBy, uint256 outstandingPrincipal, uint256 recovered);
+    event BondSlashed(uint256 indexed loanId, address indexed member, uint256 amount, uint256 remainingBond);
+    event MerchantPurchase(uint256 indexed loanId, address indexed borrower, address indexed merchant, uint256 amount, string orderRef, address asset);
     
     // ============ MODIFIERS ============
     
@@ -104,6 +164,26 @@ contract TrustCircles {
         _;
     }
     
+    modifier onlyRole(bytes32 _role) {
+        require(hasRole[_role][msg.sender], "Missing role");
+        _;
+    }
+    
+    modifier onlyTimelock() {
+        require(msg.sender == treasuryTimelock, "Only timelock");
+        _;
+    }
+    
+    modifier whenNotPaused() {
+        require(!paused, "Protocol paused");
+        _;
+    }
+    
+    modifier onlyCreditLines() {
+        require(msg.sender == address(creditLines), "Only credit lines");
+        _;
+    }
+    
     modifier notFrozen() {
         require(members[msg.sender].isActive, "Account frozen");
         _;
@@ -120,6 +200,16 @@ contract TrustCircles {
     
     constructor() {
         admin = msg.sender;
+        riskParameters = new RiskParameters(address(this));
+        circleAdmissions = new CircleAdmissions(address(this));
+        assetRegistry = new AssetRegistry(address(this));
+        creditLines = new CreditLines(address(this));
+        
+        // Deployer starts with every role and hands them out from there
+        _grantRole(LOAN_OFFICER_ROLE, msg.sender);
+        _grantRole(TREASURER_ROLE, msg.sender);
+        _grantRole(RISK_MANAGER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
     }
     
     // ============ CIRCLE MANAGEMENT ============
@@ -127,11 +217,14 @@ contract TrustCircles {
     /**
      * @notice Create a new Trust Circle
      * @param _name Name of the circle
+     * @param _asset Asset for the circle's bonds and loans (address(0) = POL)
+     * @param _stake Bond to post; POL bonds are sent as msg.value, tokens need an approval
      */
-    function createCircle(string memory _name) external payable {
-        require(msg.value >= MIN_STAKE, "Stake at least 0.5 POL");
+    function createCircle(string memory _name, address _asset, uint256 _stake) external payable whenNotPaused {
+        require(_stake >= _minStake(_asset), "Stake below minimum");
         require(members[msg.sender].circleId == 0, "Already in a circle");
         require(bytes(_name).length > 0, "Name required");
+        _collect(_asset, _stake, address(this));
         
         circleCount++;
         
@@ -142,52 +235,41 @@ contract TrustCircles {
             id: circleCount,
             name: _name,
             members: initialMembers,
-            totalStake: msg.value,
+            totalStake: _stake,
             createdAt: block.timestamp,
-            isActive: false // Needs 3 members
-        });
-        
-        members[msg.sender] = MemberData({
-            circleId: circleCount,
-            individualScore: STARTING_SCORE,
-            trustBond: msg.value,
-            totalBorrowed: 0,
-            totalRepaid: 0,
-            loansCompleted: 0,
-            isActive: true,
-            hasActiveLoan: false
+            isActive: false, // Needs 3 members
+            creator: msg.sender,
+            asset: _asset
         });
         
+        _enrollMember(circleCount, _stake);
         circleExists[circleCount] = true;
         
         emit CircleCreated(circleCount, _name, msg.sender);
     }
     
     /**
-     * @notice Join an existing Trust Circle
+     * @notice Join a circle that has admitted you
+     * @dev Circles left without members accept anyone, since nobody can vote
      * @param _circleId ID of the circle to join
+     * @param _stake Bond to post in the circle's asset
      */
-    function joinCircle(uint256 _circleId) external payable {
-        require(msg.value >= MIN_STAKE, "Stake at least 0.5 POL");
+    function joinCircle(uint256 _circleId, uint256 _stake) external payable whenNotPaused {
         require(members[msg.sender].circleId == 0, "Already in a circle");
         require(circleExists[_circleId], "Circle doesn't exist");
         
         Circle storage circle = circles[_circleId];
+        require(_stake >= _minStake(circle.asset), "Stake below minimum");
         require(circle.members.length < 10, "Circle full");
+        require(
+            circleAdmissions.consumeAdmission(_circleId, msg.sender) || circle.members.length == 0,
+            "Not approved by circle"
+        );
         
+        _collect(circle.asset, _stake, address(this));
         circle.members.push(msg.sender);
-        circle.totalStake += msg.value;
-        
-        members[msg.sender] = MemberData({
-            circleId: _circleId,
-            individualScore: STARTING_SCORE,
-            trustBond: msg.value,
-            totalBorrowed: 0,
-            totalRepaid: 0,
-            loansCompleted: 0,
-            isActive: true,
-            hasActiveLoan: false
-        });
+        circle.totalStake += _stake;
+        _enrollMember(_circleId, _stake);
         
         // Activate circle when it reaches minimum members
         if (circle.members.length >= MIN_CIRCLE_MEMBERS && !circle.isActive) {
@@ -198,6 +280,115 @@ contract TrustCircles {
         emit MemberJoined(_circleId, msg.sender, circle.members.length);
     }
     
+    /**
+     * @notice Record msg.sender's bond and circle membership
+     * @dev Members returning after leaving a circle keep their score and
+     *      history; leaving requires an unfrozen account, so isActive marks them
+     */
+    function _enrollMember(uint256 _circleId, uint256 _stake) internal {
+        MemberData storage member = members[msg.sender];
+        if (!member.isActive) {
+            members[msg.sender] = MemberData({
+                circleId: _circleId,
+                individualScore: STARTING_SCORE,
+                trustBond: _stake,
+                totalBorrowed: 0,
+                totalRepaid: 0,
+                loansCompleted: 0,
+                isActive: true,
+                hasActiveLoan: false
+            });
+        } else {
+            member.circleId = _circleId;
+            member.trustBond = _stake;
+        }
+        
+        totalBonded[circles[_circleId].asset] += _stake;
+    }
+    
+    /**
+     * @notice Start the cooldown to leave your circle
+     * @dev Borrowing is blocked while a leave is pending
+     */
+    function requestLeaveCircle() external notFrozen {
+        uint256 circleId = members[msg.sender].circleId;
+        require(circleId > 0, "Not in a circle");
+        require(leaveRequestedAt[msg.sender] == 0, "Leave already requested");
+        require(!circleHasActiveLoan(circleId), "Circle has an active loan");
+        
+        leaveRequestedAt[msg.sender] = block.timestamp;
+        
+        emit LeaveRequested(circleId, msg.sender, block.timestamp + getLeaveCooldown());
+    }
+    
+    /**
+     * @notice Cancel a pending leave request
+     */
+    function cancelLeaveCircle() external {
+        require(leaveRequestedAt[msg.sender] > 0, "No leave requested");
+        delete leaveRequestedAt[msg.sender];
+        emit LeaveCancelled(members[msg.sender].circleId, msg.sender);
+    }
+    
+    /**
+     * @notice Leave your circle after the cooldown and get your bond back
+     * @dev The circle is deactivated if it drops below MIN_CIRCLE_MEMBERS
+     */
+    function leaveCircle() external notFrozen {
+        MemberData storage member = members[msg.sender];
+        uint256 circleId = member.circleId;
+        uint256 requestedAt = leaveRequestedAt[msg.sender];
+        require(circleId > 0, "Not in a circle");
+        require(requestedAt > 0, "Request to leave first");
+        require(block.timestamp >= requestedAt + getLeaveCooldown(), "Cooldown not over");
+        require(!circleHasActiveLoan(circleId), "Circle has an active loan");
+        
+        Circle storage circle = circles[circleId];
+        for (uint i = 0; i < circle.members.length; i++) {
+            if (circle.members[i] == msg.sender) {
+                circle.members[i] = circle.members[circle.members.length - 1];
+                circle.members.pop();
+                break;
+            }
+        }
+        
+        uint256 refund = member.trustBond;
+        circle.totalStake -= refund;
+        totalBonded[circle.asset] -= refund;
+        member.trustBond = 0;
+        member.circleId = 0;
+        delete leaveRequestedAt[msg.sender];
+        
+        if (circle.isActive && circle.members.length < MIN_CIRCLE_MEMBERS) {
+            circle.isActive = false;
+            emit CircleDeactivated(circleId);
+        }
+        
+        emit MemberLeft(circleId, msg.sender, refund, circle.members.length);
+        
+        if (refund > 0) {
+            _send(circle.asset, msg.sender, refund);
+        }
+    }
+    
+    /**
+     * @notice Whether any member of a circle has an outstanding loan or request
+     */
+    function circleHasActiveLoan(uint256 _circleId) public view returns (bool) {
+        address[] storage circleMembers = circles[_circleId].members;
+        for (uint i = 0; i < circleMembers.length; i++) {
+            if (members[circleMembers[i]].hasActiveLoan) return true;
+        }
+        return false;
+    }
+    
+    /**
+     * @notice Cooldown between requesting to leave and leaving
+     */
+    function getLeaveCooldown() public view returns (uint256) {
+        return isDemoMode ? demoLoanDuration : LEAVE_COOLDOWN;
+    }
+    
     // ============ SCORE CALCULATIONS ============
     
     /**
@@ -205,42 +396,52 @@ contract TrustCircles {
      * @param _circleId ID of the circle
      */
     function getCircleAverageScore(uint256 _circleId) public view returns (uint256) {
-        Circle memory circle = circles[_circleId];
+        Circle storage circle = circles[_circleId];
         if (circle.members.length == 0) return STARTING_SCORE;
         
         uint256 totalScore = 0;
         for (uint i = 0; i < circle.members.length; i++) {
-            MemberData memory member = members[circle.members[i]];
-            uint256 score = member.individualScore > 0 ? member.individualScore : STARTING_SCORE;
-            totalScore += score;
+            totalScore += _individualScore(circle.members[i]);
         }
         
         return totalScore / circle.members.length;
     }
     
+    /**
+     * @notice Individual score including the oracle's off-chain points, capped at MAX_SCORE
+     */
+    function _individualScore(address _user) internal view returns (uint256) {
+        uint256 score = members[_user].individualScore > 0 ? members[_user].individualScore : STARTING_SCORE;
+        score += offChainPoints[_user];
+        return score > MAX_SCORE ? MAX_SCORE : score;
+    }
+    
     /**
      * @notice Calculate user's final trust score
      * @param _user Address of the user
      * @return Final trust score (0-100)
      */
     function getTrustScore(address _user) public view returns (uint256) {
-        MemberData memory member = members[_user];
+        MemberData storage member = members[_user];
         
-        uint256 individualScore = member.individualScore > 0 ? member.individualScore : STARTING_SCORE;
+        uint256 individualScore = _individualScore(_user);
         
         if (member.circleId == 0) {
             return individualScore;
         }
         
-        Circle memory circle = circles[member.circleId];
+        Circle storage circle = circles[member.circleId];
         if (!circle.isActive) {
             return individualScore;
         }
         
         uint256 circleAverage = getCircleAverageScore(member.circleId);
         
-        // Final = (Individual × 60%) + (Circle × 40%)
-        uint256 finalScore = (individualScore * INDIVIDUAL_WEIGHT + circleAverage * CIRCLE_WEIGHT) / 100;
+        // Final = (Individual × 60%) + (Circle × 40%) with the default weights
+        uint256 finalScore = (
+            individualScore * riskParameters.individualWeight() +
+            circleAverage * riskParameters.circleWeight()
+        ) / 100;
         
         return finalScore;
     }
@@ -250,13 +451,14 @@ contract TrustCircles {
      * @param _user Address of the user
      */
     function getMaxLoanAmount(address _user) public view returns (uint256) {
-        uint256 score = getTrustScore(_user);
-        
-        if (score < 60) return 10 ether;
-        if (score < 70) return 20 ether;
-        if (score < 80) return 50 ether;
-        if (score < 90) return 100 ether;
-        return 200 ether;
+        return _loanLimit(circles[members[_user].circleId].asset, riskParameters.getMaxLoanAmount(getTrustScore(_user)));
+    }
+    
+    /**
+     * @notice Tier limit in the given asset's units
+     */
+    function _loanLimit(address _asset, uint256 _tierLimit) internal view returns (uint256) {
+        return _asset == address(0) ? _tierLimit : assetRegistry.getLoanLimit(_asset, _tierLimit);
     }
     
     /**
@@ -264,13 +466,7 @@ contract TrustCircles {
      * @param _user Address of the user
      */
     function getInterestRate(address _user) public view returns (uint256) {
-        uint256 score = getTrustScore(_user);
-        
-        if (score < 60) return 6;
-        if (score < 70) return 4;
-        if (score < 80) return 4;
-        if (score < 90) return 2;
-        return 2;
+        return riskParameters.getInterestRate(getTrustScore(_user));
     }
     
     // ============ LOAN MANAGEMENT ============
@@ -279,153 +475,276 @@ contract TrustCircles {
      * @notice Request a new loan
      * @param _amount Amount to borrow in wei
      * @param _purpose Purpose of the loan
+     * @param _installments Number of weekly installments (1 = single payment)
+     */
+    function requestLoan(uint256 _amount, string memory _purpose, uint256 _installments) 
+        external 
+        whenNotPaused 
+        notFrozen 
+        inActiveCircle 
+    {
+        _createLoan(_amount, _purpose, _installments);
+    }
+    
+    /**
+     * @notice Buy now, pay later: pay a registered merchant from the pool
+     * @dev Checkout purchases are approved instantly within the borrower's
+     *      limit; the borrower then owes the installments
+     * @param _merchant Registered merchant to pay
+     * @param _amount Purchase amount in the smallest unit of the circle's asset
+     * @param _orderRef Merchant's order or payment intent reference
+     * @param _installments Number of weekly installments
      */
-    function requestLoan(uint256 _amount, string memory _purpose) 
+    function checkout(
+        address _merchant,
+        uint256 _amount,
+        string memory _orderRef,
+        uint256 _installments
+    ) 
         external 
+        whenNotPaused 
         notFrozen 
         inActiveCircle 
+    {
+        Merchant storage merchant = merchants[_merchant];
+        require(merchant.isActive, "Merchant not active");
+        require(_merchant != msg.sender, "Cannot buy from yourself");
+        require(bytes(_orderRef).length > 0, "Order reference required");
+        
+        uint256 loanId = _createLoan(_amount, string.concat("Purchase: ", _orderRef), _installments);
+        Loan storage loan = loans[loanId];
+        loan.merchant = _merchant;
+        loan.approved = true;
+        loan.approvalTime = block.timestamp;
+        
+        merchant.totalSales += _amount;
+        merchant.purchaseCount++;
+        
+        emit LoanApproved(loanId, msg.sender);
+        emit MerchantPurchase(loanId, msg.sender, _merchant, _amount, _orderRef, loan.asset);
+        
+        _disburseLoan(loan);
+    }
+    
+    /**
+     * @notice Validate and record a new loan for msg.sender
+     */
+    function _createLoan(uint256 _amount, string memory _purpose, uint256 _installments) 
+        internal 
+        returns (uint256) 
     {
         require(!members[msg.sender].hasActiveLoan, "Already have active loan");
+        require(leaveRequestedAt[msg.sender] == 0, "Leaving circle");
         require(_amount > 0, "Amount must be greater than 0");
         require(bytes(_purpose).length > 0, "Purpose required");
+        require(_installments > 0 && _installments <= MAX_INSTALLMENTS, "Invalid installment count");
         
         uint256 maxAmount = getMaxLoanAmount(msg.sender);
         require(_amount <= maxAmount, "Amount exceeds limit");
         
-        uint256 interestRate = getInterestRate(msg.sender);
-        uint256 interest = (_amount * interestRate) / 100;
-        uint256 totalRepayment = _amount + interest;
-        
         loanCount++;
         
-        loans[loanCount] = Loan({
-            id: loanCount,
-            borrower: msg.sender,
-            amount: _amount,
-            interestAmount: interest,
-            totalRepayment: totalRepayment,
-            requestTime: block.timestamp,
-            approvalTime: 0,
-            disbursementTime: 0,
-            dueDate: 0,
-            repaymentTime: 0,
-            approved: false,
-            disbursed: false,
-            repaid: false,
-            purpose: _purpose
-        });
+        Loan storage loan = loans[loanCount];
+        loan.id = loanCount;
+        loan.borrower = msg.sender;
+        loan.amount = _amount;
+        loan.totalRepayment = _amount;
+        loan.interestRate = getInterestRate(msg.sender);
+        loan.penaltyRate = riskParameters.penaltyRate();
+        loan.asset = circles[members[msg.sender].circleId].asset;
+        loan.requestTime = block.timestamp;
+        loan.purpose = _purpose;
+        loan.installmentCount = _installments;
         
         userLoans[msg.sender].push(loanCount);
         members[msg.sender].hasActiveLoan = true;
         
         emit LoanRequested(loanCount, msg.sender, _amount, _purpose);
+        
+        return loanCount;
     }
     
     /**
-     * @notice Approve and disburse loan in one transaction (admin only)
+     * @notice Approve and disburse loan in one transaction (loan officer only)
      * @param _loanId ID of the loan
      */
-    function approveLoan(uint256 _loanId) external onlyAdmin {
+    function approveLoan(uint256 _loanId) external onlyRole(LOAN_OFFICER_ROLE) whenNotPaused {
         Loan storage loan = loans[_loanId];
         require(loan.borrower != address(0), "Loan doesn't exist");
         require(!loan.approved, "Already approved");
         require(!loan.disbursed, "Already disbursed");
-        require(address(this).balance >= loan.amount, "Insufficient contract balance");
+        require(_poolFor(loan.asset).availableLiquidity() >= loan.amount, "Insufficient contract balance");
         
         // Approve loan
         loan.approved = true;
         loan.approvalTime = block.timestamp;
         
+        emit LoanApproved(_loanId, loan.borrower);
+        
         // Immediately disburse
+        _disburseLoan(loan);
+    }
+    
+    /**
+     * @notice Send loan funds and start the repayment schedule
+     * @dev Checkout loans pay the merchant, all others pay the borrower
+     */
+    function _disburseLoan(Loan storage loan) internal {
         loan.disbursed = true;
         loan.disbursementTime = block.timestamp;
+        loan.lastAccrual = block.timestamp;
         
-        // Set due date
-        uint256 duration = isDemoMode ? demoLoanDuration : LOAN_DURATION;
-        loan.dueDate = block.timestamp + duration;
+        _startRepaymentSchedule(loan);
         
         members[loan.borrower].totalBorrowed += loan.amount;
         
-        // Transfer funds to borrower
-        payable(loan.borrower).transfer(loan.amount);
+        address recipient = loan.merchant != address(0) ? loan.merchant : loan.borrower;
+        _poolFor(loan.asset).lend(recipient, loan.amount);
         
-        emit LoanApproved(_loanId, loan.borrower);
-        emit LoanDisbursed(_loanId, loan.borrower, loan.amount);
+        emit LoanDisbursed(loan.id, loan.borrower, loan.amount);
     }
     
     /**
-     * @notice Disburse approved loan (admin only)
-     * @param _loanId ID of the loan
+     * @notice Set installment due dates once a loan is disbursed
      */
-    function disburseLoan(uint256 _loanId) external payable onlyAdmin {
-        Loan storage loan = loans[_loanId];
-        require(loan.approved, "Not approved");
-        require(!loan.disbursed, "Already disbursed");
-        require(msg.value == loan.amount, "Incorrect amount");
-        
-        loan.disbursed = true;
-        loan.disbursementTime = block.timestamp;
+    function _startRepaymentSchedule(Loan storage loan) internal {
+        uint256 interval = isDemoMode ? demoLoanDuration : riskParameters.installmentInterval();
         
-        // Set due date
-        uint256 duration = isDemoMode ? demoLoanDuration : LOAN_DURATION;
-        loan.dueDate = block.timestamp + duration;
-        
-        members[loan.borrower].totalBorrowed += loan.amount;
-        
-        // Transfer funds to borrower
-        payable(loan.borrower).transfer(loan.amount);
+        for (uint i = 1; i <= loan.installmentCount; i++) {
+            loan.installmentDueDates.push(block.timestamp + interval * i);
+        }
         
-        emit LoanDisbursed(_loanId, loan.borrower, loan.amount);
+        // dueDate always tracks the next unpaid installment
+        loan.dueDate = loan.installmentDueDates[0];
+        loan.creditBonus = riskParameters.earlyBonus();
     }
     
     /**
-     * @notice Repay a loan
+     * @notice Repay a loan, fully or partially
+     * @dev Interest is accrued up to now first. Payments cover accrued interest
+     *      before principal, and installments are marked paid by principal.
+     *      Anything above the live amount owed is refunded, so a full
+     *      repayment can be sent with a little headroom.
      * @param _loanId ID of the loan
+     * @param _amount Amount to pay; POL loans send it as msg.value, token
+     *        loans need an approval (only the amount owed is pulled)
      */
-    function repayLoan(uint256 _loanId) external payable {
+    function repayLoan(uint256 _loanId, uint256 _amount) external payable {
         Loan storage loan = loans[_loanId];
         require(loan.borrower == msg.sender, "Not your loan");
         require(loan.disbursed, "Not disbursed yet");
         require(!loan.repaid, "Already repaid");
-        require(msg.value == loan.totalRepayment, "Incorrect amount");
+        require(!loan.defaulted, "Loan defaulted");
+        require(_amount > 0, "Amount must be greater than 0");
         
-        loan.repaid = true;
-        loan.repaymentTime = block.timestamp;
+        _accrueInterest(loan);
+        
+        uint256 owed = loan.totalRepayment - loan.amountRepaid;
+        uint256 payment = _amount < owed ? _amount : owed;
+        uint256 interestUnpaid = loan.interestAmount - (loan.amountRepaid - loan.principalRepaid);
+        uint256 principalPaid = payment > interestUnpaid ? payment - interestUnpaid : 0;
+        
+        loan.amountRepaid += payment;
+        loan.principalRepaid += principalPaid;
+        members[msg.sender].totalRepaid += payment;
+        
+        _applyInstallmentPayments(loan);
+        
+        // Return principal and interest to lenders
+        LiquidityPool pool = _poolFor(loan.asset);
+        bool native = loan.asset == address(0);
+        if (native) {
+            require(msg.value == _amount, "Incorrect amount");
+        } else {
+            _collect(loan.asset, payment, address(pool));
+        }
+        pool.repay{value: native ? payment : 0}(principalPaid, payment);
         
-        members[msg.sender].totalRepaid += loan.totalRepayment;
-        members[msg.sender].loansCompleted++;
-        members[msg.sender].hasActiveLoan = false;
+        emit InstallmentPaid(
+            _loanId,
+            msg.sender,
+            payment,
+            loan.installmentsPaid,
+            owed - payment
+        );
         
-        // Calculate credit bonus
-        uint256 creditBonus = _calculateCreditBonus(loan.dueDate, block.timestamp);
+        if (payment == owed) {
+            loan.repaid = true;
+            loan.repaymentTime = block.timestamp;
+            
+            members[msg.sender].loansCompleted++;
+            members[msg.sender].hasActiveLoan = false;
+            
+            // Update scores with the worst bonus earned across installments
+            _updateScoresOnRepayment(msg.sender, loan.creditBonus);
+            
+            emit LoanRepaid(_loanId, msg.sender, loan.creditBonus);
+        }
         
-        // Update scores
-        _updateScoresOnRepayment(msg.sender, creditBonus);
+        if (msg.value > payment) {
+            payable(msg.sender).transfer(msg.value - payment);
+        }
+    }
+    
+    /**
+     * @notice Mark installments covered by the amount repaid so far
+     */
+    function _applyInstallmentPayments(Loan storage loan) internal {
+        while (
+            loan.installmentsPaid < loan.installmentCount &&
+            loan.principalRepaid >= _cumulativeInstallmentPrincipal(loan, loan.installmentsPaid + 1)
+        ) {
+            uint256 bonus = riskParameters.getCreditBonus(loan.installmentDueDates[loan.installmentsPaid], block.timestamp);
+            if (bonus < loan.creditBonus) {
+                loan.creditBonus = bonus;
+            }
+            
+            loan.installmentsPaid++;
+        }
         
-        emit LoanRepaid(_loanId, msg.sender, creditBonus);
+        if (loan.installmentsPaid < loan.installmentCount) {
+            loan.dueDate = loan.installmentDueDates[loan.installmentsPaid];
+        }
     }
     
     /**
-     * @notice Calculate credit bonus based on repayment timing
+     * @notice Principal owed through installment `_number` (1-based)
+     * @dev The last installment absorbs any rounding remainder
      */
-    function _calculateCreditBonus(uint256 _dueDate, uint256 _repaymentTime) 
+    function _cumulativeInstallmentPrincipal(Loan storage loan, uint256 _number) 
         internal 
-        pure 
+        view 
         returns (uint256) 
     {
-        if (_repaymentTime < _dueDate) {
-            // Early repayment
-            return EARLY_BONUS;
-        } else if (_repaymentTime <= _dueDate + 3 days) {
-            // On time or slightly late
-            return ON_TIME_BONUS;
-        } else if (_repaymentTime <= _dueDate + 7 days) {
-            // Late but recoverable
-            return LATE_PENALTY; // Actually reduces score
-        } else {
-            // Very late
-            return 0; // No bonus
+        if (_number >= loan.installmentCount) {
+            return loan.amount;
         }
+        return (loan.amount / loan.installmentCount) * _number;
+    }
+    
+    /**
+     * @notice Add interest accrued since the last accrual to the loan balance
+     */
+    function _accrueInterest(Loan storage loan) internal {
+        uint256 interest = _pendingInterest(loan);
+        loan.interestAmount += interest;
+        loan.totalRepayment += interest;
+        loan.lastAccrual = block.timestamp;
+    }
+    
+    /**
+     * @notice Interest accrued on outstanding principal since the last accrual
+     * @dev Charged per second at the loan's annual rate, plus the penalty rate
+     *      for any time past the current installment's due date
+     */
+    function _pendingInterest(Loan storage loan) internal view returns (uint256) {
+        uint256 from = loan.lastAccrual;
+        uint256 dueDate = loan.dueDate;
+        uint256 overdue = block.timestamp > dueDate ? block.timestamp - (from > dueDate ? from : dueDate) : 0;
+        
+        return (loan.amount - loan.principalRepaid) *
+            (loan.interestRate * (block.timestamp - from) + loan.penaltyRate * overdue) /
+            RATE_DENOMINATOR;
     }
     
     /**
@@ -453,21 +772,58 @@ contract TrustCircles {
     }
     
     /**
-     * @notice Penalize user for loan default (admin only)
+     * @notice Declare a loan in default (callable by anyone)
+     * @dev Allowed once the next installment is past the default grace period.
+     *      Outstanding principal is recovered from the defaulter's bond first,
+     *      then pro rata from the other circle members' bonds.
      * @param _loanId ID of the defaulted loan
      */
-    function penalizeDefault(uint256 _loanId) external onlyAdmin {
+    function penalizeDefault(uint256 _loanId) external {
         Loan storage loan = loans[_loanId];
         require(loan.disbursed, "Not disbursed");
         require(!loan.repaid, "Already repaid");
-        require(block.timestamp > loan.dueDate + 14 days, "Not overdue enough");
+        require(!loan.defaulted, "Already defaulted");
+        require(block.timestamp > loan.dueDate + riskParameters.defaultGracePeriod(), "Not overdue enough");
         
-        address borrower = loan.borrower;
-        MemberData storage member = members[borrower];
+        loan.defaulted = true;
+        _default(_loanId, loan.borrower, loan.asset, loan.amount - loan.principalRepaid, msg.sender);
+    }
+    
+    /**
+     * @notice Slash bonds for lost principal, write it off in the pool and
+     *         penalize the defaulter and their circle
+     * @param _loanId Defaulted loan, or the loan booked for a defaulted credit line
+     * @return recovered Slashed bonds paid into the pool
+     */
+    function _default(
+        uint256 _loanId,
+        address _borrower,
+        address _asset,
+        uint256 _outstanding,
+        address _triggeredBy
+    ) 
+        internal 
+        returns (uint256 recovered) 
+    {
+        MemberData storage member = members[_borrower];
+        member.hasActiveLoan = false;
+        
+        recovered = _slashBonds(_loanId, _borrower, _outstanding);
+        
+        // Slashed bonds go to lenders to cover the lost principal
+        LiquidityPool pool = _poolFor(_asset);
+        bool native = _asset == address(0);
+        if (!native) {
+            _send(_asset, address(pool), recovered);
+        }
+        pool.writeOff{value: native ? recovered : 0}(_outstanding, recovered);
+        
+        emit LoanDefaulted(_loanId, _borrower, _triggeredBy, _outstanding, recovered);
         
         // Slash individual score
-        if (member.individualScore >= DEFAULT_PENALTY) {
-            member.individualScore -= DEFAULT_PENALTY;
+        uint256 penalty = riskParameters.defaultPenalty();
+        if (member.individualScore >= penalty) {
+            member.individualScore -= penalty;
         } else {
             member.individualScore = 0;
         }
@@ -475,20 +831,77 @@ contract TrustCircles {
         // Freeze account
         member.isActive = false;
         
-        emit ScoreUpdated(borrower, member.individualScore, "Default penalty");
-        emit AccountFrozen(borrower, "Loan default");
+        emit ScoreUpdated(_borrower, member.individualScore, "Default penalty");
+        emit AccountFrozen(_borrower, "Loan default");
         
         // Penalize entire circle
         if (member.circleId > 0) {
-            _penalizeCircle(member.circleId, borrower);
+            _penalizeCircle(member.circleId, _borrower);
         }
     }
     
+    /**
+     * @notice Recover a default loss from circle bonds into the lending pool
+     * @return recovered Total amount slashed
+     */
+    function _slashBonds(uint256 _loanId, address _defaulter, uint256 _loss) 
+        internal 
+        returns (uint256 recovered) 
+    {
+        if (_loss == 0) return 0;
+        
+        // Defaulter's own bond covers the loss first
+        recovered = _slashMember(_loanId, _defaulter, _loss);
+        
+        uint256 circleId = members[_defaulter].circleId;
+        uint256 remaining = _loss - recovered;
+        if (remaining == 0 || circleId == 0) return recovered;
+        
+        // Then the rest of the circle, pro rata to each member's bond
+        Circle storage circle = circles[circleId];
+        uint256 otherBonds = circle.totalStake - members[_defaulter].trustBond;
+        if (otherBonds == 0) return recovered;
+        if (remaining > otherBonds) remaining = otherBonds;
+        
+        for (uint i = 0; i < circle.members.length; i++) {
+            address memberAddr = circle.members[i];
+            if (memberAddr != _defaulter) {
+                uint256 share = (remaining * members[memberAddr].trustBond) / otherBonds;
+                recovered += _slashMember(_loanId, memberAddr, share);
+            }
+        }
+        
+        return recovered;
+    }
+    
+    /**
+     * @notice Move part of a member's bond back into the lending pool
+     */
+    function _slashMember(uint256 _loanId, address _member, uint256 _amount) 
+        internal 
+        returns (uint256 slashed) 
+    {
+        MemberData storage member = members[_member];
+        slashed = _amount < member.trustBond ? _amount : member.trustBond;
+        if (slashed == 0) return 0;
+        
+        // Bond funds are already held by the contract; releasing them from
+        // totalBonded makes them available liquidity again
+        member.trustBond -= slashed;
+        circles[member.circleId].totalStake -= slashed;
+        totalBonded[circles[member.circleId].asset] -= slashed;
+        
+        emit BondSlashed(_loanId, _member, slashed, member.trustBond);
+        
+        return slashed;
+    }
+    
     /**
      * @notice Penalize entire circle for member default
      */
     function _penalizeCircle(uint256 _circleId, address _defaulter) internal {
         Circle storage circle = circles[_circleId];
+        uint256 penalty = riskParameters.circleDefaultPenalty();
         
         for (uint i = 0; i < circle.members.length; i++) {
             address memberAddr = circle.members[i];
@@ -496,8 +909,8 @@ contract TrustCircles {
                 MemberData storage member = members[memberAddr];
                 
                 // Reduce score for all circle members
-                if (member.individualScore >= CIRCLE_DEFAULT_PENALTY) {
-                    member.individualScore -= CIRCLE_DEFAULT_PENALTY;
+                if (member.individualScore >= penalty) {
+                    member.individualScore -= penalty;
                 } else {
                     member.individualScore = 0;
                 }
@@ -510,6 +923,84 @@ contract TrustCircles {
         emit CircleScoreUpdated(_circleId, newAverage);
     }
     
+    // ============ CREDIT LINES ============
+    
+    /**
+     * @notice Mark a member's credit line as drawn or paid off (credit lines only)
+     * @dev Lines share hasActiveLoan with installment loans, so a member holds
+     *      one or the other and circle-mates can't leave while a line is drawn
+     */
+    function setCreditLineOpen(address _user, bool _open) external onlyCreditLines {
+        members[_user].hasActiveLoan = _open;
+    }
+    
+    /**
+     * @notice Default a delinquent credit line (credit lines only)
+     * @dev The written-off balance is booked as a defaulted loan, so it shows
+     *      in the borrower's loan history and default events carry its ID
+     * @return Slashed bonds paid into the pool
+     */
+    function defaultCreditLine(address _borrower, address _asset, uint256 _outstanding, address _triggeredBy) 
+        external 
+        onlyCreditLines 
+        returns (uint256) 
+    {
+        loanCount++;
+        Loan storage loan = loans[loanCount];
+        loan.id = loanCount;
+        loan.borrower = _borrower;
+        loan.amount = _outstanding;
+        loan.totalRepayment = _outstanding;
+        loan.asset = _asset;
+        loan.purpose = "Credit line";
+        loan.requestTime = block.timestamp;
+        loan.approved = true;
+        loan.disbursed = true;
+        loan.defaulted = true;
+        userLoans[_borrower].push(loanCount);
+        
+        return _default(loanCount, _borrower, _asset, _outstanding, _triggeredBy);
+    }
+    
+    // ============ ASSETS ============
+    
+    /**
+     * @notice Smallest circle bond in an asset
+     */
+    function _minStake(address _asset) internal view returns (uint256) {
+        return _asset == address(0) ? MIN_STAKE : assetRegistry.getMinStake(_asset);
+    }
+    
+    /**
+     * @notice Pool that lends an asset
+     */
+    function _poolFor(address _asset) internal view returns (LiquidityPool) {
+        return _asset == address(0) ? liquidityPool : LiquidityPool(assetRegistry.getPool(_asset));
+    }
+    
+    /**
+     * @notice Take a payment from msg.value (POL) or by transferFrom (tokens)
+     */
+    function _collect(address _asset, uint256 _amount, address _to) internal {
+        if (_asset == address(0)) {
+            require(msg.value == _amount, "Incorrect amount");
+        } else {
+            require(msg.value == 0, "POL not accepted");
+            require(IERC20(_asset).transferFrom(msg.sender, _to, _amount), "Transfer failed");
+        }
+    }
+    
+    /**
+     * @notice Send POL or tokens held by this contract
+     */
+    function _send(address _asset, address _to, uint256 _amount) internal {
+        if (_asset == address(0)) {
+            payable(_to).transfer(_amount);
+        } else {
+            require(IERC20(_asset).transfer(_to, _amount), "Transfer failed");
+        }
+    }
+    
     // ============ VIEW FUNCTIONS ============
     
     /**
@@ -528,29 +1019,17 @@ contract TrustCircles {
         bool isActive
     ) {
         MemberData storage member = members[_user];
-        uint256 indScore = member.individualScore > 0 ? member.individualScore : STARTING_SCORE;
+        uint256 indScore = _individualScore(_user);
         uint256 trustScore = getTrustScore(_user);
         
-        uint256 maxLoan;
-        if (trustScore < 60) maxLoan = 10 ether;
-        else if (trustScore < 70) maxLoan = 20 ether;
-        else if (trustScore < 80) maxLoan = 50 ether;
-        else if (trustScore < 90) maxLoan = 100 ether;
-        else maxLoan = 200 ether;
-        
-        uint256 rate;
-        if (trustScore < 60) rate = 6;
-        else if (trustScore < 70) rate = 4;
-        else if (trustScore < 80) rate = 4;
-        else if (trustScore < 90) rate = 2;
-        else rate = 2;
+        RiskParameters.Tier memory tier = riskParameters.getTier(trustScore);
         
         return (
             member.circleId,
             indScore,
             trustScore,
-            maxLoan,
-            rate,
+            _loanLimit(circles[member.circleId].asset, tier.maxAmount),
+            tier.interestRate,
             member.totalBorrowed,
             member.totalRepaid,
             member.loansCompleted,
@@ -570,7 +1049,7 @@ contract TrustCircles {
         uint256 totalStake,
         bool isActive
     ) {
-        Circle memory circle = circles[_circleId];
+        Circle storage circle = circles[_circleId];
         return (
             circle.name,
             circle.members,
@@ -592,9 +1071,11 @@ contract TrustCircles {
         bool approved,
         bool disbursed,
         bool repaid,
-        string memory purpose
+        string memory purpose,
+        bool defaulted,
+        address asset
     ) {
-        Loan memory loan = loans[_loanId];
+        Loan storage loan = loans[_loanId];
         return (
             loan.borrower,
             loan.amount,
@@ -603,10 +1084,77 @@ contract TrustCircles {
             loan.approved,
             loan.disbursed,
             loan.repaid,
-            loan.purpose
+            loan.purpose,
+            loan.defaulted,
+            loan.asset
+        );
+    }
+    
+    /**
+     * @notice Get a loan's installment schedule
+     */
+    function getLoanSchedule(uint256 _loanId) external view returns (
+        uint256 installmentCount,
+        uint256 installmentsPaid,
+        uint256 amountRepaid,
+        uint256 remainingBalance,
+        uint256[] memory dueDates
+    ) {
+        Loan storage loan = loans[_loanId];
+        return (
+            loan.installmentCount,
+            loan.installmentsPaid,
+            loan.amountRepaid,
+            getAmountOwed(_loanId),
+            loan.installmentDueDates
         );
     }
     
+    /**
+     * @notice Live amount needed to repay a loan in full, including interest
+     *         accrued up to this block (0 unless the loan is outstanding)
+     */
+    function getAmountOwed(uint256 _loanId) public view returns (uint256) {
+        Loan storage loan = loans[_loanId];
+        if (!loan.disbursed || loan.repaid || loan.defaulted) {
+            return 0;
+        }
+        return loan.totalRepayment + _pendingInterest(loan) - loan.amountRepaid;
+    }
+    
+    /**
+     * @notice Get the next unpaid installment of a loan
+     * @return installmentNumber 1-based index (0 if fully repaid)
+     * @return amountDue Amount still owed for this installment
+     * @return dueDate When this installment is due (0 until disbursed)
+     */
+    function getNextInstallment(uint256 _loanId) external view returns (
+        uint256 installmentNumber,
+        uint256 amountDue,
+        uint256 dueDate
+    ) {
+        Loan storage loan = loans[_loanId];
+        if (loan.repaid || loan.installmentsPaid >= loan.installmentCount) {
+            return (0, 0, 0);
+        }
+        
+        installmentNumber = loan.installmentsPaid + 1;
+        amountDue = _cumulativeInstallmentPrincipal(loan, installmentNumber) - loan.principalRepaid;
+        if (loan.disbursed) {
+            amountDue += getAmountOwed(_loanId) - (loan.amount - loan.principalRepaid);
+        }
+        dueDate = loan.disbursed ? loan.installmentDueDates[loan.installmentsPaid] : 0;
+        
+        return (installmentNumber, amountDue, dueDate);
+    }
+    
+    /**
+     * @notice Get the merchant paid by a checkout loan (zero for cash loans)
+     */
+    function getLoanMerchant(uint256 _loanId) external view returns (address) {
+        return loans[_loanId].merchant;
+    }
+    
     /**
      * @notice Get user's loan IDs
      */
@@ -618,38 +1166,17 @@ contract TrustCircles {
      * @notice Check if loan is overdue
      */
     function isLoanOverdue(uint256 _loanId) external view returns (bool) {
-        Loan memory loan = loans[_loanId];
-        return loan.disbursed && !loan.repaid && block.timestamp > loan.dueDate;
+        Loan storage loan = loans[_loanId];
+        return loan.disbursed && !loan.repaid && !loan.defaulted && block.timestamp > loan.dueDate;
     }
     
     /**
-     * @notice Get circle members' scores
+     * @notice Check if anyone can call penalizeDefault on a loan yet
      */
-    function getCircleMembersScores(uint256 _circleId) 
-        external 
-        view 
-        returns (
-            address[] memory addresses,
-            uint256[] memory scores,
-            uint256 averageScore
-        ) 
-    {
-        Circle memory circle = circles[_circleId];
-        uint256 memberCount = circle.members.length;
-        
-        addresses = new address[](memberCount);
-        scores = new uint256[](memberCount);
-        uint256 totalScore = 0;
-        
-        for (uint i = 0; i < memberCount; i++) {
-            addresses[i] = circle.members[i];
-            scores[i] = members[circle.members[i]].individualScore;
-            totalScore += scores[i];
-        }
-        
-        averageScore = memberCount > 0 ? totalScore / memberCount : 0;
-        
-        return (addresses, scores, averageScore);
+    function canTriggerDefault(uint256 _loanId) external view returns (bool) {
+        Loan storage loan = loans[_loanId];
+        return loan.disbursed && !loan.repaid && !loan.defaulted &&
+            block.timestamp > loan.dueDate + riskParameters.defaultGracePeriod();
     }
     
     // ============ ADMIN FUNCTIONS ============
@@ -662,6 +1189,29 @@ contract TrustCircles {
         emit DemoModeToggled(_enabled);
     }
     
+    /**
+     * @notice Halt new circles, joins and loans (pauser only)
+     * @dev Repayments, leaving and lender withdrawals keep working so
+     *      nobody is locked in while the protocol is paused
+     */
+    function pause(string memory _reason) external onlyRole(PAUSER_ROLE) {
+        require(!paused, "Already paused");
+        require(bytes(_reason).length > 0, "Reason required");
+        paused = true;
+        pauseReason = _reason;
+        emit Paused(msg.sender, _reason);
+    }
+    
+    /**
+     * @notice Resume normal operation (pauser only)
+     */
+    function unpause(string memory _reason) external onlyRole(PAUSER_ROLE) {
+        require(paused, "Not paused");
+        paused = false;
+        pauseReason = "";
+        emit Unpaused(msg.sender, _reason);
+    }
+    
     /**
      * @notice Set demo loan duration
      */
@@ -670,21 +1220,83 @@ contract TrustCircles {
     }
     
     /**
-     * @notice Deposit liquidity for lending
+     * @notice Register a merchant that can accept checkout purchases
+     */
+    function registerMerchant(address _merchant, string memory _name) external onlyAdmin {
+        require(_merchant != address(0), "Invalid address");
+        require(bytes(_name).length > 0, "Name required");
+        
+        Merchant storage merchant = merchants[_merchant];
+        merchant.name = _name;
+        merchant.isActive = true;
+        
+        emit MerchantRegistered(_merchant, _name);
+    }
+    
+    /**
+     * @notice Enable or disable a registered merchant
+     */
+    function setMerchantActive(address _merchant, bool _active) external onlyAdmin {
+        require(bytes(merchants[_merchant].name).length > 0, "Merchant not registered");
+        merchants[_merchant].isActive = _active;
+        emit MerchantStatusChanged(_merchant, _active);
+    }
+    
+    /**
+     * @notice Connect the liquidity pool that funds loans (one time)
+     */
+    function setLiquidityPool(address _pool) external onlyAdmin {
+        require(address(liquidityPool) == address(0), "Pool already set");
+        require(LiquidityPool(_pool).lendingContract() == address(this), "Pool not linked");
+        liquidityPool = LiquidityPool(_pool);
+        emit LiquidityPoolSet(_pool);
+    }
+    
+    /**
+     * @notice Connect the multisig timelock that controls withdrawals and admin transfers (one time)
+     */
+    function setTreasuryTimelock(address _timelock) external onlyAdmin {
+        require(treasuryTimelock == address(0), "Timelock already set");
+        require(address(TreasuryTimelock(payable(_timelock)).trustCircles()) == address(this), "Timelock not linked");
+        treasuryTimelock = _timelock;
+        emit TreasuryTimelockSet(_timelock);
+    }
+    
+    /**
+     * @notice Deposit protocol liquidity into the pool
+     * @dev The protocol holds pool shares like any other lender and earns
+     *      the same interest
      */
-    function depositLiquidity() external payable onlyAdmin {
+    function depositLiquidity() external payable onlyRole(TREASURER_ROLE) {
         require(msg.value > 0, "Must deposit some amount");
-        emit LiquidityDeposited(msg.sender, msg.value, address(this).balance);
+        liquidityPool.deposit{value: msg.value}(msg.value);
+        emit LiquidityDeposited(msg.sender, msg.value, getProtocolLiquidity());
     }
     
     /**
-     * @notice Withdraw funds
+     * @notice Withdraw protocol liquidity from the pool
+     * @dev Pays the timelock, which forwards to the approved recipient
      */
-    function withdraw(uint256 _amount) external onlyAdmin {
+    function withdraw(uint256 _amount) external onlyTimelock {
         require(_amount > 0, "Amount must be greater than 0");
-        require(address(this).balance >= _amount, "Insufficient balance");
-        payable(admin).transfer(_amount);
-        emit FundsWithdrawn(admin, _amount, address(this).balance);
+        require(getProtocolLiquidity() >= _amount, "Insufficient balance");
+        liquidityPool.withdraw(_amount);
+        payable(msg.sender).transfer(_amount);
+        emit FundsWithdrawn(msg.sender, _amount, getProtocolLiquidity());
+    }
+    
+    /**
+     * @notice Value of the protocol's own pool shares
+     */
+    function getProtocolLiquidity() public view returns (uint256) {
+        return liquidityPool.convertToAssets(liquidityPool.balanceOf(address(this)));
+    }
+    
+    /**
+     * @notice Pool funds that can be lent right now
+     */
+    function getAvailableLiquidity() public view returns (uint256) {
+        return address(liquidityPool).balance;
     }
     
     /**
@@ -695,20 +1307,103 @@ contract TrustCircles {
     }
     
     /**
-     * @notice Unfreeze account (admin only, after penalty repayment)
+     * @notice Freeze a suspicious account (risk manager only)
      */
-    function unfreezeAccount(address _user) external onlyAdmin {
+    function freezeAccount(address _user, string memory _reason) external onlyRole(RISK_MANAGER_ROLE) {
+        require(members[_user].circleId > 0, "Not a member");
+        members[_user].isActive = false;
+        emit AccountFrozen(_user, _reason);
+    }
+    
+    /**
+     * @notice Unfreeze account (risk manager only, after penalty repayment)
+     */
+    function unfreezeAccount(address _user) external onlyRole(RISK_MANAGER_ROLE) {
+        require(members[_user].circleId > 0, "Not a member");
         members[_user].isActive = true;
+        emit AccountUnfrozen(_user);
+    }
+    
+    /**
+     * @notice Set a member's off-chain trust points (risk manager only)
+     * @dev LoanOracle holds the role to apply oracle-signed updates. The
+     *      points are added to the contract's own individual score rather
+     *      than replacing it, so repayment bonuses and default penalties
+     *      stick. Frozen accounts cannot receive points
+     */
+    function setOffChainPoints(address _user, uint256 _points) external onlyRole(RISK_MANAGER_ROLE) {
+        require(members[_user].isActive, "Not an active member");
+        require(_points <= MAX_OFFCHAIN_POINTS, "Invalid points");
+        
+        offChainPoints[_user] = _points;
+        emit ScoreUpdated(_user, _individualScore(_user), "Oracle update");
     }
     
     /**
-     * @notice Emergency: Transfer admin rights
+     * @notice Emergency: Transfer admin rights (timelock only)
+     * @dev Roles stay with their holders; the new admin can re-assign them
      */
-    function transferAdmin(address _newAdmin) external onlyAdmin {
+    function transferAdmin(address _newAdmin) external onlyTimelock {
         require(_newAdmin != address(0), "Invalid address");
+        emit AdminTransferred(admin, _newAdmin);
         admin = _newAdmin;
     }
     
+    // ============ ROLES ============
+    
+    /**
+     * @notice Give an account a role (admin only)
+     */
+    function grantRole(bytes32 _role, address _account) external onlyAdmin {
+        require(_account != address(0), "Invalid address");
+        _grantRole(_role, _account);
+    }
+    
+    /**
+     * @notice Take a role away from an account (admin only)
+     */
+    function revokeRole(bytes32 _role, address _account) external onlyAdmin {
+        _revokeRole(_role, _account);
+    }
+    
+    /**
+     * @notice Give up one of your own roles
+     */
+    function renounceRole(bytes32 _role) external {
+        _revokeRole(_role, msg.sender);
+    }
+    
+    function _grantRole(bytes32 _role, address _account) internal {
+        if (hasRole[_role][_account]) return;
+        hasRole[_role][_account] = true;
+        emit RoleGranted(_role, _account, msg.sender);
+    }
+    
+    function _revokeRole(bytes32 _role, address _account) internal {
+        if (!hasRole[_role][_account]) return;
+        hasRole[_role][_account] = false;
+        emit RoleRevoked(_role, _account, msg.sender);
+    }
+    
+    /**
+     * @notice Get every role an account holds, for the dashboard
+     */
+    function getRoles(address _account) external view returns (
+        bool isAdmin,
+        bool isLoanOfficer,
+        bool isTreasurer,
+        bool isRiskManager,
+        bool isPauser
+    ) {
+        return (
+            _account == admin,
+            hasRole[LOAN_OFFICER_ROLE][_account],
+            hasRole[TREASURER_ROLE][_account],
+            hasRole[RISK_MANAGER_ROLE][_account],
+            hasRole[PAUSER_ROLE][_account]
+        );
+    }
+    
     // ============ FALLBACK ============
     
     receive() external payable {}
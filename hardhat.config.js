@@ -9,6 +9,8 @@ module.exports = {
         enabled: true,
         runs: 200,
       },
+      // The IR pipeline keeps TrustCircles under the 24KB contract size limit
+      viaIR: true,
     },
   },
   networks: {
@@ -18,5 +20,15 @@ module.exports = {
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
       gasPrice: 35000000000,
     },
+    polygon: {
+      url: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com/",
+      chainId: 137,
+      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+    },
+    // `npx hardhat node`; deploys with its first funded account unless PRIVATE_KEY is set
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
   },
 };
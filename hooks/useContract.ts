@@ -1,89 +1,1052 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { parseEther, formatEther } from 'viem';
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '@/lib/contract';
+import { useEffect, useMemo } from 'react';
+import { useReadContract, usePublicClient, useChainId, useSignTypedData } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { parseEther, formatEther, zeroAddress, erc20Abi, parseSignature } from 'viem';
+import { CONTRACT_ABI, POOL_ABI, TIMELOCK_ABI, RISK_PARAMS_ABI, ADMISSIONS_ABI, ASSET_REGISTRY_ABI, CREDIT_LINES_ABI, LOAN_ORACLE_ABI, ROLES, RoleName } from '@/lib/contract';
+import { AssetInfo, ListedAsset, NATIVE_ASSET, ERC20_PERMIT_ABI, isNativeAsset, parseAmount, sameAsset } from '@/lib/assets';
+import { getDeployment } from '@/config/deployments';
+import { borrowerCheck, creditDrawCheck, newMemberCheck, screeningCheck } from '@/lib/preflight';
+import { useContractWrite } from './useTransaction';
+
+// The deployment on the chain the app reads from (undefined if Zentra is not deployed there)
+export function useDeployment() {
+  const chainId = useChainId();
+  return useMemo(() => getDeployment(chainId), [chainId]);
+}
 
 // Read user stats
 export function useUserStats(address: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getUserStats',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  });
+}
+
+// Read circle details
+export function useCircleDetails(circleId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getCircleDetails',
+    args: circleId !== undefined ? [circleId] : undefined,
+    query: {
+      enabled: circleId !== undefined && circleId > BigInt(0),
+    },
+  });
+}
+
+// Read raw member record (circle, score, bond, ...)
+export function useMemberData(address: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'members',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  });
+}
+
+// Read when a member asked to leave their circle (0 = no pending request)
+export function useLeaveRequestedAt(address: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'leaveRequestedAt',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  });
+}
+
+// Read the leave cooldown in seconds
+export function useLeaveCooldown() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getLeaveCooldown',
+  });
+}
+
+// Read whether any circle member has an outstanding loan (blocks leaving)
+export function useCircleHasActiveLoan(circleId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'circleHasActiveLoan',
+    args: circleId !== undefined ? [circleId] : undefined,
+    query: {
+      enabled: circleId !== undefined && circleId > BigInt(0),
+    },
+  });
+}
+
+// Read circle record (creator, ...)
+export function useCircle(circleId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'circles',
+    args: circleId !== undefined ? [circleId] : undefined,
+    query: {
+      enabled: circleId !== undefined && circleId > BigInt(0),
+    },
+  });
+}
+
+// Read the circle admissions contract deployed by TrustCircles
+export function useAdmissionsAddress() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'circleAdmissions',
+  });
+}
+
+// Read a circle's applicants with their vote counts
+export function useJoinRequests(circleId: bigint | undefined) {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+
+  return useReadContract({
+    address: admissionsAddress,
+    abi: ADMISSIONS_ABI,
+    functionName: 'getJoinRequests',
+    args: circleId !== undefined ? [circleId] : undefined,
+    query: {
+      enabled: !!admissionsAddress && circleId !== undefined && circleId > BigInt(0),
+    },
+  });
+}
+
+// Read one applicant's join request (id, approvals, rejections, approved)
+export function useJoinRequest(circleId: bigint | undefined, applicant: `0x${string}` | undefined) {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+
+  return useReadContract({
+    address: admissionsAddress,
+    abi: ADMISSIONS_ABI,
+    functionName: 'joinRequests',
+    args: circleId !== undefined && applicant ? [circleId, applicant] : undefined,
+    query: {
+      enabled: !!admissionsAddress && circleId !== undefined && circleId > BigInt(0) && !!applicant,
+    },
+  });
+}
+
+// Read the % of members who must vouch for an applicant
+export function useAdmissionQuorum(circleId: bigint | undefined) {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+
+  return useReadContract({
+    address: admissionsAddress,
+    abi: ADMISSIONS_ABI,
+    functionName: 'admissionQuorum',
+    args: circleId !== undefined ? [circleId] : undefined,
+    query: {
+      enabled: !!admissionsAddress && circleId !== undefined && circleId > BigInt(0),
+    },
+  });
+}
+
+// Read how many vouches an applicant needs right now
+export function useRequiredApprovals(circleId: bigint | undefined) {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+
+  return useReadContract({
+    address: admissionsAddress,
+    abi: ADMISSIONS_ABI,
+    functionName: 'getRequiredApprovals',
+    args: circleId !== undefined ? [circleId] : undefined,
+    query: {
+      enabled: !!admissionsAddress && circleId !== undefined && circleId > BigInt(0),
+    },
+  });
+}
+
+// Read the individual votes cast on a join request
+export function useJoinVotes(requestId: bigint | undefined) {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+  const { data: admissionsAddress } = useAdmissionsAddress();
+
+  return useQuery({
+    queryKey: ['joinVotes', admissionsAddress, requestId?.toString()],
+    queryFn: async () => {
+      const logs = await publicClient!.getContractEvents({
+        address: admissionsAddress!,
+        abi: ADMISSIONS_ABI,
+        eventName: 'JoinVoteCast',
+        args: { requestId },
+        fromBlock: deployment!.deploymentBlock,
+        strict: true,
+      });
+      return logs.map(log => ({ voter: log.args.voter, approve: log.args.approve }));
+    },
+    enabled: !!publicClient && !!deployment && !!admissionsAddress && requestId !== undefined && requestId > BigInt(0),
+    refetchInterval: 15_000,
+  });
+}
+
+// Read user loans
+export function useUserLoans(address: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getUserLoans',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  });
+}
+
+// Read loan details
+export function useLoanDetails(loanId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getLoanDetails',
+    args: loanId !== undefined ? [loanId] : undefined,
+    query: {
+      enabled: loanId !== undefined && loanId > BigInt(0),
+    },
+  });
+}
+
+// Read loan installment schedule
+export function useLoanSchedule(loanId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getLoanSchedule',
+    args: loanId !== undefined ? [loanId] : undefined,
+    query: {
+      enabled: loanId !== undefined && loanId > BigInt(0),
+    },
+  });
+}
+
+// Read the live amount needed to repay a loan in full, including accrued interest
+export function useAmountOwed(loanId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getAmountOwed',
+    args: loanId !== undefined ? [loanId] : undefined,
+    query: {
+      enabled: loanId !== undefined && loanId > BigInt(0),
+      refetchInterval: 15_000,
+    },
+  });
+}
+
+// Read next unpaid installment
+export function useNextInstallment(loanId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getNextInstallment',
+    args: loanId !== undefined ? [loanId] : undefined,
+    query: {
+      enabled: loanId !== undefined && loanId > BigInt(0),
+    },
+  });
+}
+
+// Read registered merchant
+export function useMerchant(merchant: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'merchants',
+    args: merchant ? [merchant] : undefined,
+    query: {
+      enabled: !!merchant,
+    },
+  });
+}
+
+// Read merchant paid by a checkout loan
+export function useLoanMerchant(loanId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getLoanMerchant',
+    args: loanId !== undefined ? [loanId] : undefined,
+    query: {
+      enabled: loanId !== undefined && loanId > BigInt(0),
+    },
+  });
+}
+
+// Read contract balance (admin)
+export function useContractBalance() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getContractBalance',
+  });
+}
+
+// Read liquidity available to lend (excludes circle bonds)
+export function useAvailableLiquidity() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getAvailableLiquidity',
+  });
+}
+
+// Read the value of the protocol's own pool shares (admin deposits)
+export function useProtocolLiquidity() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getProtocolLiquidity',
+  });
+}
+
+// Read the asset registry deployed by TrustCircles
+export function useAssetRegistryAddress() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'assetRegistry',
+  });
+}
+
+// Read POL plus every allow-listed token with its pool, limits and status
+export function useAssets() {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+  const { data: registryAddress } = useAssetRegistryAddress();
+
+  return useQuery({
+    queryKey: ['assets', registryAddress],
+    queryFn: async (): Promise<ListedAsset[]> => {
+      const [nativePool, nativeMinStake, tokens] = await Promise.all([
+        publicClient!.readContract({ address: deployment!.trustCircles, abi: CONTRACT_ABI, functionName: 'liquidityPool' }),
+        publicClient!.readContract({ address: deployment!.trustCircles, abi: CONTRACT_ABI, functionName: 'MIN_STAKE' }),
+        publicClient!.readContract({ address: registryAddress!, abi: ASSET_REGISTRY_ABI, functionName: 'getAssets' }),
+      ]);
+
+      const listed = await Promise.all(
+        tokens.map(async token => {
+          const [[pool, decimals, minStake, maxLoanAmount, enabled], symbol] = await Promise.all([
+            publicClient!.readContract({ address: registryAddress!, abi: ASSET_REGISTRY_ABI, functionName: 'assets', args: [token] }),
+            publicClient!.readContract({ address: token, abi: erc20Abi, functionName: 'symbol' }),
+          ]);
+          return { address: token, symbol, decimals, pool, minStake, maxLoanAmount, enabled };
+        })
+      );
+
+      return [{ ...NATIVE_ASSET, pool: nativePool, minStake: nativeMinStake, enabled: true }, ...listed];
+    },
+    enabled: !!publicClient && !!deployment && !!registryAddress,
+    refetchInterval: 60_000,
+  });
+}
+
+// Read an asset's symbol and decimals (POL needs no lookup)
+export function useAssetInfo(asset: `0x${string}` | undefined): AssetInfo | undefined {
+  const { data: assets } = useAssets();
+
+  if (!asset) return undefined;
+  return assets?.find(listed => sameAsset(listed.address, asset)) ?? (isNativeAsset(asset) ? NATIVE_ASSET : undefined);
+}
+
+// Read the asset a circle bonds and lends in
+export function useCircleAsset(circleId: bigint | undefined) {
+  const { data: circle } = useCircle(circleId);
+  return useAssetInfo(circle?.[6]);
+}
+
+// Read the asset a loan was made in
+export function useLoanAsset(loanId: bigint | undefined) {
+  const { data: loanDetails } = useLoanDetails(loanId);
+  return useAssetInfo(loanDetails?.[9]);
+}
+
+// Read an ERC-20 balance
+export function useTokenBalance(token: `0x${string}` | undefined, owner: `0x${string}` | undefined) {
+  return useReadContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'balanceOf',
+    args: owner ? [owner] : undefined,
+    query: {
+      enabled: !!token && !isNativeAsset(token) && !!owner,
+    },
+  });
+}
+
+// Read an ERC-20's decimals
+export function useTokenDecimals(token: `0x${string}` | undefined) {
+  return useReadContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: 'decimals',
+    query: {
+      enabled: !!token && !isNativeAsset(token),
+    },
+  });
+}
+
+// Approve `spender` to pull a token amount; POL never needs approval
+export function useTokenApproval(
+  asset: AssetInfo | undefined,
+  owner: `0x${string}` | undefined,
+  spender: `0x${string}` | undefined,
+  amount: bigint
+) {
+  const isToken = !!asset && !isNativeAsset(asset);
+  const { data: allowance, refetch } = useReadContract({
+    address: isToken ? asset.address : undefined,
+    abi: erc20Abi,
+    functionName: 'allowance',
+    args: owner && spender ? [owner, spender] : undefined,
+    query: {
+      enabled: isToken && !!owner && !!spender,
+    },
+  });
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Approve token');
+
+  useEffect(() => {
+    if (isSuccess) refetch();
+  }, [isSuccess, refetch]);
+
+  const approve = async () => {
+    if (!isToken || !spender) return;
+    const request = {
+      address: asset.address,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [spender, amount],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  const needsApproval = isToken && (allowance === undefined || allowance < amount);
+
+  return { needsApproval, approve, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Read the liquidity pool that lends an asset (defaults to the POL pool)
+export function usePoolAddress(asset: `0x${string}` = zeroAddress) {
+  const deployment = useDeployment();
+  const { data: registryAddress } = useAssetRegistryAddress();
+  const isNative = isNativeAsset(asset);
+
+  const nativePool = useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'liquidityPool',
+    query: {
+      enabled: isNative,
+    },
+  });
+  const tokenPool = useReadContract({
+    address: registryAddress,
+    abi: ASSET_REGISTRY_ABI,
+    functionName: 'getPool',
+    args: [asset],
+    query: {
+      enabled: !isNative && !!registryAddress,
+    },
+  });
+
+  return isNative ? nativePool : tokenPool;
+}
+
+// Read pool assets, idle liquidity, principal lent, share supply, interest and losses
+export function usePoolStats(asset: `0x${string}` = zeroAddress) {
+  const { data: poolAddress } = usePoolAddress(asset);
+
+  return useReadContract({
+    address: poolAddress,
+    abi: POOL_ABI,
+    functionName: 'getPoolStats',
+    query: {
+      enabled: !!poolAddress,
+    },
+  });
+}
+
+// Read share of pool assets currently lent out, in basis points
+export function usePoolUtilization(asset: `0x${string}` = zeroAddress) {
+  const { data: poolAddress } = usePoolAddress(asset);
+
+  return useReadContract({
+    address: poolAddress,
+    abi: POOL_ABI,
+    functionName: 'getUtilization',
+    query: {
+      enabled: !!poolAddress,
+    },
+  });
+}
+
+// Read a lender's pool share balance
+export function usePoolShares(address: `0x${string}` | undefined, asset: `0x${string}` = zeroAddress) {
+  const { data: poolAddress } = usePoolAddress(asset);
+
+  return useReadContract({
+    address: poolAddress,
+    abi: POOL_ABI,
+    functionName: 'balanceOf',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!poolAddress && !!address,
+    },
+  });
+}
+
+// Read the asset value of an amount of pool shares
+export function usePoolShareValue(shares: bigint | undefined, asset: `0x${string}` = zeroAddress) {
+  const { data: poolAddress } = usePoolAddress(asset);
+
+  return useReadContract({
+    address: poolAddress,
+    abi: POOL_ABI,
+    functionName: 'convertToAssets',
+    args: shares !== undefined ? [shares] : undefined,
+    query: {
+      enabled: !!poolAddress && shares !== undefined,
+    },
+  });
+}
+
+// Read interest paid into the pool over the last `days` days
+export function usePoolInterestHistory(days: number = 30, asset: `0x${string}` = zeroAddress) {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+  const { data: poolAddress } = usePoolAddress(asset);
+
+  return useQuery({
+    queryKey: ['poolInterest', poolAddress, days],
+    queryFn: async () => {
+      const logs = await publicClient!.getContractEvents({
+        address: poolAddress!,
+        abi: POOL_ABI,
+        eventName: 'InterestEarned',
+        fromBlock: deployment!.deploymentBlock,
+        strict: true,
+      });
+
+      const blocks = await Promise.all(
+        logs.map(log => publicClient!.getBlock({ blockNumber: log.blockNumber }))
+      );
+      const since = BigInt(Math.floor(Date.now() / 1000 - days * 24 * 60 * 60));
+
+      return logs
+        .filter((_, i) => blocks[i].timestamp >= since)
+        .reduce((total, log) => total + log.args.interest, BigInt(0));
+    },
+    enabled: !!publicClient && !!deployment && !!poolAddress,
+    refetchInterval: 60_000,
+  });
+}
+
+// Read whether a loan can be declared in default
+export function useCanTriggerDefault(loanId: bigint | undefined) {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'canTriggerDefault',
+    args: loanId !== undefined ? [loanId] : undefined,
+    query: {
+      enabled: loanId !== undefined && loanId > BigInt(0),
+    },
+  });
+}
+
+// Read default history with the bonds slashed for each default
+export function useDefaultHistory() {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['defaultHistory', deployment?.trustCircles],
+    queryFn: async () => {
+      const [defaults, slashes] = await Promise.all([
+        publicClient!.getContractEvents({
+          address: deployment!.trustCircles,
+          abi: CONTRACT_ABI,
+          eventName: 'LoanDefaulted',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: deployment!.trustCircles,
+          abi: CONTRACT_ABI,
+          eventName: 'BondSlashed',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+      ]);
+
+      return defaults
+        .map(log => ({
+          ...log.args,
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          slashes: slashes
+            .filter(slash => slash.args.loanId === log.args.loanId)
+            .map(slash => slash.args),
+        }))
+        .reverse(); // Most recent first
+    },
+    enabled: !!publicClient && !!deployment,
+    refetchInterval: 15_000,
+  });
+}
+
+// Read the credit lines contract deployed by TrustCircles
+export function useCreditLinesAddress() {
+  const deployment = useDeployment();
+  return useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'creditLines',
+  });
+}
+
+// Read a member's credit line statement: limit, live balance, available credit,
+// utilization (basis points), minimum due, due date, APR (basis points) and whether it is overdue
+export function useCreditStatement(address: `0x${string}` | undefined) {
+  const { data: creditLinesAddress } = useCreditLinesAddress();
+
+  return useReadContract({
+    address: creditLinesAddress,
+    abi: CREDIT_LINES_ABI,
+    functionName: 'getStatement',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!creditLinesAddress && !!address,
+      refetchInterval: 15_000,
+    },
+  });
+}
+
+// Read a member's raw credit line (principal, interest, rates, totals drawn and repaid, asset)
+export function useCreditLine(address: `0x${string}` | undefined) {
+  const { data: creditLinesAddress } = useCreditLinesAddress();
+
+  return useReadContract({
+    address: creditLinesAddress,
+    abi: CREDIT_LINES_ABI,
+    functionName: 'lines',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!creditLinesAddress && !!address,
+    },
+  });
+}
+
+// Read a member's draws, payments and statements, most recent first
+export function useCreditActivity(address: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+  const { data: creditLinesAddress } = useCreditLinesAddress();
+
+  return useQuery({
+    queryKey: ['creditActivity', creditLinesAddress, address],
+    queryFn: async () => {
+      const events = { address: creditLinesAddress!, abi: CREDIT_LINES_ABI, fromBlock: deployment!.deploymentBlock, strict: true } as const;
+      const [draws, payments, statements] = await Promise.all([
+        publicClient!.getContractEvents({ ...events, eventName: 'CreditDrawn', args: { borrower: address } }),
+        publicClient!.getContractEvents({ ...events, eventName: 'CreditRepaid', args: { borrower: address } }),
+        publicClient!.getContractEvents({ ...events, eventName: 'StatementIssued', args: { borrower: address } }),
+      ]);
+
+      const entries = [
+        ...draws.map(log => ({ log, kind: 'draw' as const, amount: log.args.amount, balance: log.args.balance })),
+        ...payments.map(log => ({ log, kind: 'payment' as const, amount: log.args.amount, balance: log.args.balance })),
+        ...statements.map(log => ({ log, kind: 'statement' as const, amount: log.args.minimumDue, balance: log.args.balance })),
+      ].sort((a, b) =>
+        a.log.blockNumber === b.log.blockNumber
+          ? a.log.logIndex - b.log.logIndex
+          : Number(a.log.blockNumber - b.log.blockNumber)
+      );
+
+      const blocks = await Promise.all(
+        entries.map(({ log }) => publicClient!.getBlock({ blockNumber: log.blockNumber }))
+      );
+
+      return entries
+        .map(({ log, kind, amount, balance }, i) => ({
+          kind,
+          amount, // Minimum due for statements
+          balance,
+          timestamp: blocks[i].timestamp,
+          txHash: log.transactionHash,
+        }))
+        .reverse();
+    },
+    enabled: !!publicClient && !!deployment && !!creditLinesAddress && !!address,
+    refetchInterval: 30_000,
+  });
+}
+
+// Read the multisig timelock address linked to TrustCircles
+export function useTimelockAddress() {
+  const deployment = useDeployment();
   return useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: deployment?.trustCircles,
     abi: CONTRACT_ABI,
-    functionName: 'getUserStats',
-    args: address ? [address] : undefined,
+    functionName: 'treasuryTimelock',
+  });
+}
+
+// Read timelock signers, approval threshold and delay (seconds)
+export function useTimelockConfig() {
+  const { data: timelockAddress } = useTimelockAddress();
+  const isLinked = !!timelockAddress && timelockAddress !== zeroAddress;
+
+  const { data: signers } = useReadContract({
+    address: timelockAddress,
+    abi: TIMELOCK_ABI,
+    functionName: 'getSigners',
     query: {
-      enabled: !!address,
+      enabled: isLinked,
     },
   });
+  const { data: threshold } = useReadContract({
+    address: timelockAddress,
+    abi: TIMELOCK_ABI,
+    functionName: 'threshold',
+    query: {
+      enabled: isLinked,
+    },
+  });
+  const { data: delay } = useReadContract({
+    address: timelockAddress,
+    abi: TIMELOCK_ABI,
+    functionName: 'delay',
+    query: {
+      enabled: isLinked,
+    },
+  });
+
+  return { timelockAddress: isLinked ? timelockAddress : undefined, signers, threshold, delay };
 }
 
-// Read circle details
-export function useCircleDetails(circleId: bigint | undefined) {
+export type TimelockOperationStatus = 'pending' | 'queued' | 'executed' | 'cancelled';
+
+// Read timelock operations with their approvals, queue time and outcome
+export function useTimelockOperations() {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+  const { timelockAddress } = useTimelockConfig();
+
+  return useQuery({
+    queryKey: ['timelockOperations', timelockAddress],
+    queryFn: async () => {
+      const [proposed, approved, queued, executed, cancelled] = await Promise.all([
+        publicClient!.getContractEvents({
+          address: timelockAddress!,
+          abi: TIMELOCK_ABI,
+          eventName: 'OperationProposed',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: timelockAddress!,
+          abi: TIMELOCK_ABI,
+          eventName: 'OperationApproved',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: timelockAddress!,
+          abi: TIMELOCK_ABI,
+          eventName: 'OperationQueued',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: timelockAddress!,
+          abi: TIMELOCK_ABI,
+          eventName: 'OperationExecuted',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: timelockAddress!,
+          abi: TIMELOCK_ABI,
+          eventName: 'OperationCancelled',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+      ]);
+
+      return proposed
+        .map(log => {
+          const { id } = log.args;
+          const eta = queued.find(q => q.args.id === id)?.args.eta;
+          const executedBy = executed.find(x => x.args.id === id)?.args.executor;
+          const cancelledBy = cancelled.find(c => c.args.id === id)?.args.signer;
+          const status: TimelockOperationStatus = executedBy
+            ? 'executed'
+            : cancelledBy ? 'cancelled' : eta !== undefined ? 'queued' : 'pending';
+
+          return {
+            ...log.args,
+            approvers: approved.filter(a => a.args.id === id).map(a => a.args.signer),
+            eta,
+            executedBy,
+            cancelledBy,
+            status,
+            txHash: log.transactionHash,
+          };
+        })
+        .reverse(); // Most recent first
+    },
+    enabled: !!publicClient && !!deployment && !!timelockAddress,
+    refetchInterval: 15_000,
+  });
+}
+
+// Read the risk parameter table deployed by TrustCircles
+export function useRiskParametersAddress() {
+  const deployment = useDeployment();
   return useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: deployment?.trustCircles,
     abi: CONTRACT_ABI,
-    functionName: 'getCircleDetails',
-    args: circleId !== undefined ? [circleId] : undefined,
+    functionName: 'riskParameters',
+  });
+}
+
+// Read credit tiers: score band floor, max loan amount and APR (basis points)
+export function useRiskTiers() {
+  const { data: riskParametersAddress } = useRiskParametersAddress();
+
+  return useReadContract({
+    address: riskParametersAddress,
+    abi: RISK_PARAMS_ABI,
+    functionName: 'getTiers',
     query: {
-      enabled: circleId !== undefined && circleId > BigInt(0),
+      enabled: !!riskParametersAddress,
     },
   });
 }
 
-// Read user loans
-export function useUserLoans(address: `0x${string}` | undefined) {
+// Read timings, score weights and bonus/penalty sizes
+export function useRiskParams() {
+  const { data: riskParametersAddress } = useRiskParametersAddress();
+
   return useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: CONTRACT_ABI,
-    functionName: 'getUserLoans',
-    args: address ? [address] : undefined,
+    address: riskParametersAddress,
+    abi: RISK_PARAMS_ABI,
+    functionName: 'getParams',
     query: {
-      enabled: !!address,
+      enabled: !!riskParametersAddress,
     },
   });
 }
 
-// Read loan details
-export function useLoanDetails(loanId: bigint | undefined) {
-  return useReadContract({
-    address: CONTRACT_ADDRESS,
+// Read circuit breaker state and the reason it was tripped
+export function usePauseStatus() {
+  const deployment = useDeployment();
+  const { data: paused, refetch } = useReadContract({
+    address: deployment?.trustCircles,
     abi: CONTRACT_ABI,
-    functionName: 'getLoanDetails',
-    args: loanId !== undefined ? [loanId] : undefined,
+    functionName: 'paused',
     query: {
-      enabled: loanId !== undefined && loanId > BigInt(0),
+      refetchInterval: 15_000,
+    },
+  });
+  const { data: reason } = useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'pauseReason',
+    query: {
+      enabled: !!paused,
+      refetchInterval: 15_000,
     },
   });
+
+  return { isPaused: !!paused, reason, refetch };
 }
 
-// Read contract balance (admin)
-export function useContractBalance() {
-  return useReadContract({
-    address: CONTRACT_ADDRESS,
-    abi: CONTRACT_ABI,
-    functionName: 'getContractBalance',
+// Read pause and unpause events with their reasons
+export function usePauseHistory() {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['pauseHistory', deployment?.trustCircles],
+    queryFn: async () => {
+      const [paused, unpaused] = await Promise.all([
+        publicClient!.getContractEvents({
+          address: deployment!.trustCircles,
+          abi: CONTRACT_ABI,
+          eventName: 'Paused',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: deployment!.trustCircles,
+          abi: CONTRACT_ABI,
+          eventName: 'Unpaused',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+      ]);
+
+      return [...paused, ...unpaused]
+        .sort((a, b) =>
+          a.blockNumber === b.blockNumber
+            ? b.logIndex - a.logIndex
+            : a.blockNumber < b.blockNumber ? 1 : -1
+        ) // Most recent first
+        .map(log => ({
+          paused: log.eventName === 'Paused',
+          account: log.args.account,
+          reason: log.args.reason,
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+        }));
+    },
+    enabled: !!publicClient && !!deployment,
+    refetchInterval: 15_000,
   });
 }
 
 // Read admin address
 export function useAdmin() {
+  const deployment = useDeployment();
   return useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: deployment?.trustCircles,
     abi: CONTRACT_ABI,
     functionName: 'admin',
   });
 }
 
+// Read the on-chain roles held by an address
+export function useRoles(address: `0x${string}` | undefined) {
+  const deployment = useDeployment();
+  const { data, isLoading, refetch } = useReadContract({
+    address: deployment?.trustCircles,
+    abi: CONTRACT_ABI,
+    functionName: 'getRoles',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  });
+
+  const [isAdmin, isLoanOfficer, isTreasurer, isRiskManager, isPauser] = data ?? [false, false, false, false, false];
+
+  return {
+    isAdmin,
+    isLoanOfficer,
+    isTreasurer,
+    isRiskManager,
+    isPauser,
+    hasAnyRole: isAdmin || isLoanOfficer || isTreasurer || isRiskManager || isPauser,
+    isLoading,
+    refetch,
+  };
+}
+
+// Read current holders of each role from grant/revoke events
+export function useRoleMembers() {
+  const deployment = useDeployment();
+  const publicClient = usePublicClient();
+
+  return useQuery({
+    queryKey: ['roleMembers', deployment?.trustCircles],
+    queryFn: async () => {
+      const [granted, revoked] = await Promise.all([
+        publicClient!.getContractEvents({
+          address: deployment!.trustCircles,
+          abi: CONTRACT_ABI,
+          eventName: 'RoleGranted',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+        publicClient!.getContractEvents({
+          address: deployment!.trustCircles,
+          abi: CONTRACT_ABI,
+          eventName: 'RoleRevoked',
+          fromBlock: deployment!.deploymentBlock,
+          strict: true,
+        }),
+      ]);
+
+      // Replay grants and revokes in chain order
+      const logs = [...granted, ...revoked].sort((a, b) =>
+        a.blockNumber === b.blockNumber
+          ? a.logIndex - b.logIndex
+          : a.blockNumber < b.blockNumber ? -1 : 1
+      );
+
+      const holders = Object.fromEntries(
+        (Object.keys(ROLES) as RoleName[]).map(name => [name, new Set<`0x${string}`>()])
+      ) as Record<RoleName, Set<`0x${string}`>>;
+
+      for (const log of logs) {
+        const name = (Object.keys(ROLES) as RoleName[]).find(key => ROLES[key] === log.args.role);
+        if (!name) continue;
+        if (log.eventName === 'RoleGranted') {
+          holders[name].add(log.args.account);
+        } else {
+          holders[name].delete(log.args.account);
+        }
+      }
+
+      return (Object.keys(holders) as RoleName[]).map(name => ({
+        role: name,
+        accounts: Array.from(holders[name]),
+      }));
+    },
+    enabled: !!publicClient && !!deployment,
+    refetchInterval: 15_000,
+  });
+}
+
 // Read total counts
 export function useLoanCount() {
+  const deployment = useDeployment();
   return useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: deployment?.trustCircles,
     abi: CONTRACT_ABI,
     functionName: 'loanCount',
   });
 }
 
 export function useCircleCount() {
+  const deployment = useDeployment();
   return useReadContract({
-    address: CONTRACT_ADDRESS,
+    address: deployment?.trustCircles,
     abi: CONTRACT_ABI,
     functionName: 'circleCount',
   });
@@ -91,68 +1054,203 @@ export function useCircleCount() {
 
 // Write functions
 export function useCreateCircle() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Create circle');
 
-  const createCircle = (name: string, stake: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  // Token stakes need an approval for TrustCircles first
+  const createCircle = async (name: string, asset: AssetInfo, stake: bigint) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
       functionName: 'createCircle',
-      args: [name],
-      value: parseEther(stake),
-    });
+      args: [name, asset.address, stake],
+      value: isNativeAsset(asset) ? stake : undefined,
+    } as const;
+    if (await preflight(request, [screeningCheck('circle_join'), newMemberCheck()])) writeContract(request);
+  };
+
+  return { createCircle, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useRequestToJoin() {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Request to join circle');
+
+  const requestToJoin = async (circleId: bigint) => {
+    if (!admissionsAddress) return;
+    const request = {
+      address: admissionsAddress,
+      abi: ADMISSIONS_ABI,
+      functionName: 'requestToJoin',
+      args: [circleId],
+    } as const;
+    if (await preflight(request, [screeningCheck('circle_join'), newMemberCheck(circleId)])) writeContract(request);
+  };
+
+  return { requestToJoin, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useVoteOnJoinRequest() {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Vote on join request');
+
+  const voteOnJoinRequest = async (applicant: `0x${string}`, approve: boolean) => {
+    if (!admissionsAddress) return;
+    const request = {
+      address: admissionsAddress,
+      abi: ADMISSIONS_ABI,
+      functionName: 'voteOnJoinRequest',
+      args: [applicant, approve],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { voteOnJoinRequest, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useSetAdmissionQuorum() {
+  const { data: admissionsAddress } = useAdmissionsAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Set admission quorum');
+
+  const setAdmissionQuorum = async (circleId: bigint, quorum: number) => {
+    if (!admissionsAddress) return;
+    const request = {
+      address: admissionsAddress,
+      abi: ADMISSIONS_ABI,
+      functionName: 'setAdmissionQuorum',
+      args: [circleId, BigInt(quorum)],
+    } as const;
+    if (await preflight(request)) writeContract(request);
   };
 
-  return { createCircle, isPending, isConfirming, isSuccess, hash };
+  return { setAdmissionQuorum, isPending, isConfirming, isSuccess, hash, error };
 }
 
 export function useJoinCircle() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Join circle');
 
-  const joinCircle = (circleId: bigint, stake: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  const joinCircle = async (circleId: bigint, asset: AssetInfo, stake: bigint) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
       functionName: 'joinCircle',
-      args: [circleId],
-      value: parseEther(stake),
-    });
+      args: [circleId, stake],
+      value: isNativeAsset(asset) ? stake : undefined,
+    } as const;
+    if (await preflight(request, [screeningCheck('circle_join'), newMemberCheck(circleId)])) writeContract(request);
+  };
+
+  return { joinCircle, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useRequestLeaveCircle() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Request to leave circle');
+
+  const requestLeaveCircle = async () => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'requestLeaveCircle',
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { requestLeaveCircle, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useCancelLeaveCircle() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Cancel leave request');
+
+  const cancelLeaveCircle = async () => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'cancelLeaveCircle',
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { cancelLeaveCircle, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Leave after the cooldown; refunds the remaining trust bond
+export function useLeaveCircle() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Leave circle');
+
+  const leaveCircle = async () => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'leaveCircle',
+    } as const;
+    if (await preflight(request)) writeContract(request);
   };
 
-  return { joinCircle, isPending, isConfirming, isSuccess, hash };
+  return { leaveCircle, isPending, isConfirming, isSuccess, hash, error };
 }
 
 export function useRequestLoan() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Request loan');
 
-  const requestLoan = (amount: string, purpose: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  const requestLoan = async (amount: string, purpose: string, installments: number = 1, asset: AssetInfo = NATIVE_ASSET) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
       functionName: 'requestLoan',
-      args: [parseEther(amount), purpose],
-    });
+      args: [parseAmount(amount, asset), purpose, BigInt(installments)],
+    } as const;
+    if (await preflight(request, [screeningCheck('loan_request'), borrowerCheck(request.args[0])])) writeContract(request);
+  };
+
+  return { requestLoan, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useCheckout() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Checkout');
+
+  const checkout = async (merchant: `0x${string}`, amount: string, orderRef: string, installments: number, asset: AssetInfo = NATIVE_ASSET) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'checkout',
+      args: [merchant, parseAmount(amount, asset), orderRef, BigInt(installments)],
+    } as const;
+    if (await preflight(request, [screeningCheck('loan_request'), borrowerCheck(request.args[1])])) writeContract(request);
   };
 
-  return { requestLoan, isPending, isConfirming, isSuccess, hash };
+  return { checkout, isPending, isConfirming, isSuccess, hash, error };
 }
 
 export function useRepayLoan() {
-  const { data: hash, writeContract, isPending, error } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Repay loan');
 
-  const repayLoan = (loanId: bigint, amount: string) => {
+  // Token repayments need an approval for TrustCircles first
+  const repayLoan = async (loanId: bigint, amount: string, asset: AssetInfo = NATIVE_ASSET) => {
+    if (!deployment) return;
     try {
-      writeContract({
-        address: CONTRACT_ADDRESS,
+      const value = parseAmount(amount, asset);
+      const request = {
+        address: deployment.trustCircles,
         abi: CONTRACT_ABI,
         functionName: 'repayLoan',
-        args: [loanId],
-        value: parseEther(amount),
-      });
+        args: [loanId, value],
+        value: isNativeAsset(asset) ? value : undefined,
+      } as const;
+      if (await preflight(request)) writeContract(request);
     } catch (err) {
       console.error('Repay loan error:', err);
     }
@@ -161,86 +1259,535 @@ export function useRepayLoan() {
   return { repayLoan, isPending, isConfirming, isSuccess, hash, error };
 }
 
-// Admin functions
-export function useApproveLoan() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+// Anyone can trigger a default once the grace period has passed
+export function usePenalizeDefault() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Trigger default');
 
-  const approveLoan = (loanId: bigint) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  const penalizeDefault = async (loanId: bigint) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
-      functionName: 'approveLoan',
+      functionName: 'penalizeDefault',
       args: [loanId],
-    });
+    } as const;
+    if (await preflight(request)) writeContract(request);
   };
 
-  return { approveLoan, isPending, isConfirming, isSuccess, hash };
+  return { penalizeDefault, isPending, isConfirming, isSuccess, hash, error };
 }
 
-export function useDisburseLoan() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+// Credit line draws need no approval while they stay within the available credit
+export function useDrawCredit() {
+  const { data: creditLinesAddress } = useCreditLinesAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Draw credit');
 
-  const disburseLoan = (loanId: bigint, amount: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  const draw = async (amount: string, asset: AssetInfo = NATIVE_ASSET) => {
+    if (!creditLinesAddress) return;
+    try {
+      const value = parseAmount(amount, asset);
+      const request = {
+        address: creditLinesAddress,
+        abi: CREDIT_LINES_ABI,
+        functionName: 'draw',
+        args: [value],
+      } as const;
+      if (await preflight(request, [screeningCheck('loan_request'), creditDrawCheck(value)])) writeContract(request);
+    } catch (err) {
+      console.error('Draw credit error:', err);
+    }
+  };
+
+  return { draw, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Token payments need an approval for the credit lines contract first
+export function useRepayCredit() {
+  const { data: creditLinesAddress } = useCreditLinesAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Repay credit line');
+
+  const repay = async (amount: bigint, asset: AssetInfo = NATIVE_ASSET) => {
+    if (!creditLinesAddress) return;
+    const request = {
+      address: creditLinesAddress,
+      abi: CREDIT_LINES_ABI,
+      functionName: 'repay',
+      args: [amount],
+      value: isNativeAsset(asset) ? amount : undefined,
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { repay, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Submit a risk oracle attestation; LoanOracle approves and disburses the loan
+export function useApproveWithAttestation() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Claim approved loan');
+
+  const approveWithAttestation = async (loanId: bigint, expiresAt: number, signature: `0x${string}`) => {
+    if (!deployment?.loanOracle) return;
+    const request = {
+      address: deployment.loanOracle,
+      abi: LOAN_ORACLE_ABI,
+      functionName: 'approveWithAttestation',
+      args: [loanId, BigInt(expiresAt), signature],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { approveWithAttestation, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Admin functions
+export function useApproveLoan() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Approve loan');
+
+  const approveLoan = async (loanId: bigint) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
-      functionName: 'disburseLoan',
+      functionName: 'approveLoan',
       args: [loanId],
-      value: parseEther(amount),
-    });
+    } as const;
+    if (await preflight(request)) writeContract(request);
   };
 
-  return { disburseLoan, isPending, isConfirming, isSuccess, hash };
+  return { approveLoan, isPending, isConfirming, isSuccess, hash, error };
 }
 
 export function useDepositLiquidity() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Deposit liquidity');
 
-  const depositLiquidity = (amount: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  const depositLiquidity = async (amount: string) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
       functionName: 'depositLiquidity',
       value: parseEther(amount),
+    } as const;
+    if (await preflight(request, [screeningCheck('liquidity_deposit')])) writeContract(request);
+  };
+
+  return { depositLiquidity, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Lender pool deposits and withdrawals; token deposits need an approval for the pool
+export function usePoolDeposit(asset: AssetInfo = NATIVE_ASSET) {
+  const { data: poolAddress } = usePoolAddress(asset.address);
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Deposit to pool');
+
+  const deposit = async (amount: string) => {
+    if (!poolAddress) return;
+    const value = parseAmount(amount, asset);
+    const request = {
+      address: poolAddress,
+      abi: POOL_ABI,
+      functionName: 'deposit',
+      args: [value],
+      value: isNativeAsset(asset) ? value : undefined,
+    } as const;
+    if (await preflight(request, [screeningCheck('liquidity_deposit')])) writeContract(request);
+  };
+
+  return { deposit, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Token deposit with an EIP-2612 permit signature instead of a separate approval
+export function usePoolDepositWithPermit(asset: AssetInfo, owner: `0x${string}` | undefined) {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const { data: poolAddress } = usePoolAddress(asset.address);
+  const { signTypedDataAsync, isPending: isSigning } = useSignTypedData();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Deposit to pool');
+
+  const depositWithPermit = async (amount: string) => {
+    if (!poolAddress || !owner || !publicClient || isNativeAsset(asset)) return;
+    const value = parseAmount(amount, asset);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 60);
+
+    const [name, version, nonce] = await Promise.all([
+      publicClient.readContract({ address: asset.address, abi: erc20Abi, functionName: 'name' }),
+      publicClient.readContract({ address: asset.address, abi: ERC20_PERMIT_ABI, functionName: 'version' }).catch(() => '1'),
+      publicClient.readContract({ address: asset.address, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [owner] }),
+    ]);
+
+    const signature = await signTypedDataAsync({
+      domain: { name, version, chainId, verifyingContract: asset.address },
+      types: {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Permit',
+      message: { owner, spender: poolAddress, value, nonce, deadline },
     });
+    const { r, s, v, yParity } = parseSignature(signature);
+
+    const request = {
+      address: poolAddress,
+      abi: POOL_ABI,
+      functionName: 'depositWithPermit',
+      args: [value, deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+    } as const;
+    if (await preflight(request, [screeningCheck('liquidity_deposit')])) writeContract(request);
   };
 
-  return { depositLiquidity, isPending, isConfirming, isSuccess, hash };
+  return { depositWithPermit, isPending: isPending || isSigning, isConfirming, isSuccess, hash, error };
 }
 
-export function useWithdraw() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+export function usePoolWithdraw(asset: AssetInfo = NATIVE_ASSET) {
+  const { data: poolAddress } = usePoolAddress(asset.address);
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Withdraw from pool');
 
-  const withdraw = (amount: string) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
-      abi: CONTRACT_ABI,
+  // Withdraw an exact asset amount
+  const withdraw = async (amount: string) => {
+    if (!poolAddress) return;
+    const request = {
+      address: poolAddress,
+      abi: POOL_ABI,
       functionName: 'withdraw',
-      args: [parseEther(amount)],
-    });
+      args: [parseAmount(amount, asset)],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  // Redeem shares for their full value (use to exit completely)
+  const redeem = async (shares: bigint) => {
+    if (!poolAddress) return;
+    const request = {
+      address: poolAddress,
+      abi: POOL_ABI,
+      functionName: 'redeem',
+      args: [shares],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { withdraw, redeem, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Multisig timelock proposals; the proposer's approval is counted automatically
+export function useProposeWithdraw() {
+  const { timelockAddress } = useTimelockConfig();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Propose withdrawal');
+
+  const proposeWithdraw = async (amount: string, recipient: `0x${string}`) => {
+    if (!timelockAddress) return;
+    const request = {
+      address: timelockAddress,
+      abi: TIMELOCK_ABI,
+      functionName: 'proposeWithdraw',
+      args: [parseEther(amount), recipient],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { proposeWithdraw, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useProposeTransferAdmin() {
+  const { timelockAddress } = useTimelockConfig();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Propose admin transfer');
+
+  const proposeTransferAdmin = async (newAdmin: `0x${string}`) => {
+    if (!timelockAddress) return;
+    const request = {
+      address: timelockAddress,
+      abi: TIMELOCK_ABI,
+      functionName: 'proposeTransferAdmin',
+      args: [newAdmin],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { proposeTransferAdmin, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useTimelockAction() {
+  const { timelockAddress } = useTimelockConfig();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Timelock operation');
+
+  const runAction = async (functionName: 'approve' | 'execute' | 'cancel', operationId: bigint) => {
+    if (!timelockAddress) return;
+    const request = {
+      address: timelockAddress,
+      abi: TIMELOCK_ABI,
+      functionName,
+      args: [operationId],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return {
+    approve: (operationId: bigint) => runAction('approve', operationId),
+    execute: (operationId: bigint) => runAction('execute', operationId),
+    cancel: (operationId: bigint) => runAction('cancel', operationId),
+    isPending,
+    isConfirming,
+    isSuccess,
+    hash,
+    error,
+  };
+}
+
+export type RiskTier = { minScore: bigint; maxAmount: bigint; interestRate: bigint };
+export type RiskParams = NonNullable<ReturnType<typeof useRiskParams>['data']>;
+
+export function useSetRiskTiers() {
+  const { data: riskParametersAddress } = useRiskParametersAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Update credit tiers');
+
+  const setTiers = async (tiers: RiskTier[]) => {
+    if (!riskParametersAddress) return;
+    const request = {
+      address: riskParametersAddress,
+      abi: RISK_PARAMS_ABI,
+      functionName: 'setTiers',
+      args: [tiers],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { setTiers, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useSetRiskParams() {
+  const { data: riskParametersAddress } = useRiskParametersAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Update risk parameters');
+
+  const setParams = async (params: RiskParams) => {
+    if (!riskParametersAddress) return;
+    const request = {
+      address: riskParametersAddress,
+      abi: RISK_PARAMS_ABI,
+      functionName: 'setParams',
+      args: [params],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { setParams, isPending, isConfirming, isSuccess, hash, error };
+}
+
+// Asset registry: adding and enabling assets is admin only, limits are for risk managers
+export function useAddAsset() {
+  const { data: registryAddress } = useAssetRegistryAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Add asset');
+
+  const addAsset = async (asset: `0x${string}`, pool: `0x${string}`, minStake: bigint, maxLoanAmount: bigint) => {
+    if (!registryAddress) return;
+    const request = {
+      address: registryAddress,
+      abi: ASSET_REGISTRY_ABI,
+      functionName: 'addAsset',
+      args: [asset, pool, minStake, maxLoanAmount],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { addAsset, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useSetAssetEnabled() {
+  const { data: registryAddress } = useAssetRegistryAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Update asset status');
+
+  const setAssetEnabled = async (asset: `0x${string}`, enabled: boolean) => {
+    if (!registryAddress) return;
+    const request = {
+      address: registryAddress,
+      abi: ASSET_REGISTRY_ABI,
+      functionName: 'setAssetEnabled',
+      args: [asset, enabled],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { setAssetEnabled, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useSetAssetLimits() {
+  const { data: registryAddress } = useAssetRegistryAddress();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Update asset limits');
+
+  const setAssetLimits = async (asset: `0x${string}`, minStake: bigint, maxLoanAmount: bigint) => {
+    if (!registryAddress) return;
+    const request = {
+      address: registryAddress,
+      abi: ASSET_REGISTRY_ABI,
+      functionName: 'setAssetLimits',
+      args: [asset, minStake, maxLoanAmount],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { setAssetLimits, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function usePauseProtocol() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Pause or resume protocol');
+
+  const pause = async (reason: string) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'pause',
+      args: [reason],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  const unpause = async (reason: string) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'unpause',
+      args: [reason],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { pause, unpause, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useGrantRole() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Grant role');
+
+  const grantRole = async (role: RoleName, account: `0x${string}`) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'grantRole',
+      args: [ROLES[role], account],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { grantRole, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useRevokeRole() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Revoke role');
+
+  const revokeRole = async (role: RoleName, account: `0x${string}`) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'revokeRole',
+      args: [ROLES[role], account],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { revokeRole, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useFreezeAccount() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Freeze account');
+
+  const freezeAccount = async (user: `0x${string}`, reason: string) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'freezeAccount',
+      args: [user, reason],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { freezeAccount, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useUnfreezeAccount() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Unfreeze account');
+
+  const unfreezeAccount = async (user: `0x${string}`) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'unfreezeAccount',
+      args: [user],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { unfreezeAccount, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useRegisterMerchant() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Register merchant');
+
+  const registerMerchant = async (merchant: `0x${string}`, name: string) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'registerMerchant',
+      args: [merchant, name],
+    } as const;
+    if (await preflight(request)) writeContract(request);
+  };
+
+  return { registerMerchant, isPending, isConfirming, isSuccess, hash, error };
+}
+
+export function useSetMerchantActive() {
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Update merchant status');
+
+  const setMerchantActive = async (merchant: `0x${string}`, active: boolean) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
+      abi: CONTRACT_ABI,
+      functionName: 'setMerchantActive',
+      args: [merchant, active],
+    } as const;
+    if (await preflight(request)) writeContract(request);
   };
 
-  return { withdraw, isPending, isConfirming, isSuccess, hash };
+  return { setMerchantActive, isPending, isConfirming, isSuccess, hash, error };
 }
 
 export function useSetDemoMode() {
-  const { data: hash, writeContract, isPending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+  const deployment = useDeployment();
+  const { preflight, writeContract, hash, isPending, isConfirming, isSuccess, error } = useContractWrite('Toggle demo mode');
 
-  const setDemoMode = (enabled: boolean) => {
-    writeContract({
-      address: CONTRACT_ADDRESS,
+  const setDemoMode = async (enabled: boolean) => {
+    if (!deployment) return;
+    const request = {
+      address: deployment.trustCircles,
       abi: CONTRACT_ABI,
       functionName: 'setDemoMode',
       args: [enabled],
-    });
+    } as const;
+    if (await preflight(request)) writeContract(request);
   };
 
-  return { setDemoMode, isPending, isConfirming, isSuccess, hash };
+  return { setDemoMode, isPending, isConfirming, isSuccess, hash, error };
 }
 // useContract hook
 // useContract hook
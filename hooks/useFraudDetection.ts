@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { FraudAnalysisResult } from '@/lib/types/fraud';
+import { useState, useCallback } from 'react';
+import { FraudAnalysisResult, LoanApprovalResult } from '@/lib/types/fraud';
 
 interface UseFraudDetectionResult {
   checkFraud: (loanData: any) => Promise<FraudAnalysisResult | null>;
@@ -21,7 +21,6 @@ export function useFraudDetection(): UseFraudDetectionResult {
     previousLoans?: number;
     successfulRepayments?: number;
     circleCount?: number;
-    loanRequestId?: string;
   }): Promise<FraudAnalysisResult | null> => {
     setIsChecking(true);
     setError(null);
@@ -52,6 +51,54 @@ export function useFraudDetection(): UseFraudDetectionResult {
   return { checkFraud, isChecking, error };
 }
 
+interface UseLoanApprovalResult {
+  requestApproval: (loanId: number) => Promise<LoanApprovalResult | null>;
+  getApproval: (loanId: number) => Promise<LoanApprovalResult | null>;
+  isRequesting: boolean;
+  error: string | null;
+}
+
+export function useLoanApproval(): UseLoanApprovalResult {
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scores the loan if needed and returns a signed attestation for low-risk loans
+  const requestApproval = useCallback(async (loanId: number): Promise<LoanApprovalResult | null> => {
+    setIsRequesting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/loan-approvals/${loanId}`, { method: 'POST' });
+
+      if (!response.ok) {
+        throw new Error('Loan approval check failed');
+      }
+
+      return await response.json();
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      console.error('Loan approval error:', err);
+      return null;
+    } finally {
+      setIsRequesting(false);
+    }
+  }, []);
+
+  // Reads the stored decision without scoring (null if not scored yet)
+  const getApproval = useCallback(async (loanId: number): Promise<LoanApprovalResult | null> => {
+    try {
+      const response = await fetch(`/api/loan-approvals/${loanId}`);
+      return response.ok ? await response.json() : null;
+    } catch (err) {
+      console.error('Get loan approval error:', err);
+      return null;
+    }
+  }, []);
+
+  return { requestApproval, getApproval, isRequesting, error };
+}
+
 interface UseSelfieVerificationResult {
   verifySelfie: (walletAddress: string, imageBase64: string) => Promise<any>;
   isVerifying: boolean;
@@ -0,0 +1,68 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { HistoryEntry, IndexedCircle, IndexedLoan, IndexedLoanStatus, Page } from '@/lib/types/indexer';
+
+// Query string from the filters that are set
+function toQuery(params: Record<string, string | number | boolean | undefined>) {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') search.set(key, String(value));
+  });
+  return search.toString();
+}
+
+async function fetchPage<T>(path: string): Promise<Page<T>> {
+  const response = await fetch(path);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: undefined }));
+    throw new Error(error || `Request failed (${response.status})`);
+  }
+  return response.json();
+}
+
+// Read a page of indexed loans, most recent first
+export function useIndexedLoans(filter: {
+  status?: IndexedLoanStatus;
+  borrower?: `0x${string}`;
+  circleId?: number;
+  page?: number;
+  pageSize?: number;
+} = {}) {
+  return useQuery({
+    queryKey: ['indexedLoans', filter],
+    queryFn: () => fetchPage<IndexedLoan>(`/api/loans?${toQuery(filter)}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: 10_000,
+  });
+}
+
+// Read a page of indexed circles, most recent first
+export function useIndexedCircles(filter: {
+  active?: boolean;
+  member?: `0x${string}`;
+  page?: number;
+  pageSize?: number;
+} = {}) {
+  return useQuery({
+    queryKey: ['indexedCircles', filter],
+    queryFn: () => fetchPage<IndexedCircle>(`/api/circles?${toQuery(filter)}`),
+    placeholderData: keepPreviousData,
+    refetchInterval: 30_000,
+  });
+}
+
+// Read a page of a member's on-chain history, most recent first
+export function useUserHistory(
+  address: `0x${string}` | undefined,
+  filter: { types?: string[]; page?: number; pageSize?: number } = {}
+) {
+  const { types, ...paging } = filter;
+
+  return useQuery({
+    queryKey: ['userHistory', address, filter],
+    queryFn: () =>
+      fetchPage<HistoryEntry>(`/api/users/${address}/history?${toQuery({ ...paging, type: types?.join(',') })}`),
+    enabled: !!address,
+    placeholderData: keepPreviousData,
+    refetchInterval: 15_000,
+  });
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { adminMessage } from '@/lib/adminAuth';
+
+// The return origin saved for a merchant, null if none
+export function useMerchantReturnOrigin(merchantAddress?: string) {
+  return useQuery({
+    queryKey: ['merchantReturnOrigin', merchantAddress?.toLowerCase()],
+    queryFn: async (): Promise<string | null> => {
+      const response = await fetch(`/api/merchants?address=${merchantAddress}`);
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        throw new Error(error || `Request failed (${response.status})`);
+      }
+      const { returnOrigin } = await response.json();
+      return returnOrigin;
+    },
+    enabled: !!merchantAddress,
+  });
+}
+
+// Save where a merchant's intents may return shoppers, signed by the connected admin wallet
+export function useSetMerchantReturnOrigin() {
+  const { address: admin } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setReturnOrigin = async (merchantAddress: string, returnOrigin: string): Promise<boolean> => {
+    if (!admin) return false;
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({
+        message: adminMessage({
+          action: 'Set merchant return origin',
+          details: { Merchant: merchantAddress.toLowerCase(), Origin: returnOrigin },
+          issuedAt,
+        }),
+      });
+
+      const response = await fetch('/api/merchants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ merchantAddress, returnOrigin, admin, issuedAt, signature }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        throw new Error(error || 'Failed to save return origin');
+      }
+      return true;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      console.error('Merchant origin error:', err);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { setReturnOrigin, isSaving, error };
+}
@@ -3,15 +3,13 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAccount } from 'wagmi';
-import type { Address } from 'viem';
-
-const ADMIN_ADDRESS: Address = '0x74E36d4A7b33057e3928CE4bf4C8C53A93361C34';
+import { useRoles } from '@/hooks/useContract';
 
 /**
- * Custom hook to redirect users based on their role
- * - Admin users are redirected to /admin
+ * Custom hook to redirect users based on their on-chain role
+ * - Admins and role holders (loan officer, treasurer, risk manager, pauser) are redirected to /admin
  * - Regular users are redirected to /user
- * - Runs automatically on wallet connection
+ * - Runs automatically on wallet connection, once roles have loaded
  * 
  * @example
  * ```tsx
@@ -24,24 +22,25 @@ const ADMIN_ADDRESS: Address = '0x74E36d4A7b33057e3928CE4bf4C8C53A93361C34';
 export function useRoleRedirect() {
   const router = useRouter();
   const { address, isConnected } = useAccount();
+  const roles = useRoles(address);
+  const { hasAnyRole, isLoading } = roles;
 
   useEffect(() => {
-    if (!isConnected || !address) {
+    if (!isConnected || !address || isLoading) {
       return;
     }
 
-    const isAdmin = address.toLowerCase() === ADMIN_ADDRESS.toLowerCase();
-
-    if (isAdmin) {
+    if (hasAnyRole) {
       router.push('/admin');
     } else {
       router.push('/user');
     }
-  }, [address, isConnected, router]);
+  }, [address, isConnected, isLoading, hasAnyRole, router]);
 
   return {
     address,
     isConnected,
-    isAdmin: address?.toLowerCase() === ADMIN_ADDRESS.toLowerCase(),
+    isAdmin: roles.isAdmin,
+    roles,
   };
 }
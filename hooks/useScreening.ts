@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { AdminSignature, adminHeaders, adminMessage } from '@/lib/adminAuth';
+import { BLOCKLIST_VIEW_TTL_MS, blocklistRequest } from '@/lib/blocklistAuth';
+import { BlocklistEntry, ScreeningList } from '@/lib/types/fraud';
+
+export interface BlocklistData {
+  entries: BlocklistEntry[];
+  lists: { file: string; list: ScreeningList; count: number }[]; // Loaded list files
+}
+
+/**
+ * Addresses blocked from the admin page and the screening list files in use.
+ * Nothing loads until the admin signs with `unlock`; the signature is reused
+ * until it expires.
+ */
+export function useBlocklist() {
+  const { address: admin } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [viewer, setViewer] = useState<AdminSignature | null>(null);
+  const [signError, setSignError] = useState<string | null>(null);
+
+  const signed = !!viewer && viewer.admin === admin && Date.now() - viewer.issuedAt < BLOCKLIST_VIEW_TTL_MS;
+
+  const unlock = async () => {
+    if (!admin) return;
+    setSignError(null);
+    try {
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({ message: adminMessage({ ...blocklistRequest('view'), issuedAt }) });
+      setViewer({ admin, issuedAt, signature });
+    } catch (err) {
+      setSignError(err instanceof Error ? err.message : 'Unknown error');
+      console.error('Blocklist signature error:', err);
+    }
+  };
+
+  const query = useQuery({
+    queryKey: ['blocklist', viewer?.admin, viewer?.issuedAt],
+    queryFn: async (): Promise<BlocklistData> => {
+      const response = await fetch('/api/screening/blocklist', { headers: adminHeaders(viewer!) });
+      if (!response.ok) {
+        // Sign again once the signature is refused
+        if (response.status === 401) setViewer(null);
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        throw new Error(error || `Request failed (${response.status})`);
+      }
+      return response.json();
+    },
+    enabled: signed,
+    refetchInterval: 30_000,
+  });
+
+  return { ...query, signed, unlock, signError };
+}
+
+// Block or unblock an address, signed by the connected admin wallet
+export function useUpdateBlocklist() {
+  const { address: admin } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = async (action: 'add' | 'remove', address: string, reason?: string): Promise<boolean> => {
+    if (!admin) return false;
+    setIsUpdating(true);
+    setError(null);
+
+    try {
+      const issuedAt = Date.now();
+      const signature = await signMessageAsync({ message: adminMessage({ ...blocklistRequest(action, address, reason), issuedAt }) });
+
+      const response = await fetch('/api/screening/blocklist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, address, reason, admin, issuedAt, signature }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        throw new Error(error || 'Failed to update blocklist');
+      }
+      return true;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Unknown error';
+      setError(errorMsg);
+      console.error('Blocklist update error:', err);
+      return false;
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const blockAddress = (address: string, reason: string) => update('add', address, reason);
+  const unblockAddress = (address: string) => update('remove', address);
+
+  return { blockAddress, unblockAddress, isUpdating, error };
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi';
+import type { Hash } from 'viem';
+import { decodeTxError } from '@/lib/txErrors';
+import {
+  PreflightCheck,
+  PreflightRequest,
+  getPreflightPrompt,
+  getServerPreflightPrompt,
+  openPreflight,
+  runPreflight,
+  subscribePreflight,
+} from '@/lib/preflight';
+import {
+  getServerTransactions,
+  getTransactions,
+  recordFailedSubmission,
+  subscribeTransactions,
+  trackTransaction,
+} from '@/lib/transactions';
+
+/**
+ * Follow a write from useWriteContract through to its receipt and log it in
+ * the activity log. `isSuccess` is only set once the transaction is mined
+ * without reverting; `error` is a readable message for a rejected,
+ * failed or reverted transaction.
+ */
+export function useTrackedTransaction(label: string, hash: Hash | undefined, writeError: Error | null) {
+  const publicClient = usePublicClient();
+  const [outcome, setOutcome] = useState<{ hash: Hash; status: 'confirmed' | 'failed'; error?: string } | null>(null);
+
+  useEffect(() => {
+    if (!hash || !publicClient) return;
+    let cancelled = false;
+    trackTransaction(publicClient, hash, label).then(result => {
+      if (!cancelled) setOutcome({ hash, ...result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash, label, publicClient]);
+
+  useEffect(() => {
+    if (writeError) recordFailedSubmission(label, writeError);
+  }, [writeError, label]);
+
+  // Ignore the outcome of an earlier transaction from this hook
+  const settled = outcome && outcome.hash === hash ? outcome : null;
+
+  return {
+    isConfirming: !!hash && !settled,
+    isSuccess: settled?.status === 'confirmed',
+    error: settled?.status === 'failed' ? settled.error ?? 'Transaction failed' : writeError ? decodeTxError(writeError) : null,
+  };
+}
+
+/**
+ * useWriteContract with a pre-flight step. Call `preflight(request, checks)`
+ * before `writeContract(request)`: it runs the checks, simulates the write
+ * and shows the reason it would fail or its gas estimate. It resolves true
+ * once the user chooses to continue to their wallet.
+ */
+export function useContractWrite(label: string) {
+  const publicClient = usePublicClient();
+  const { address } = useAccount();
+  const { data: hash, writeContract, isPending, error: writeError } = useWriteContract();
+  const { isConfirming, isSuccess, error } = useTrackedTransaction(label, hash, writeError);
+  const [isChecking, setIsChecking] = useState(false);
+  const [blockedReason, setBlockedReason] = useState<string | null>(null);
+
+  const preflight = async (request: PreflightRequest, checks: PreflightCheck[] = []) => {
+    // Without a connected wallet there is nothing to simulate; the wallet prompts to connect
+    if (!publicClient || !address) return true;
+
+    setIsChecking(true);
+    setBlockedReason(null);
+    try {
+      const result = await runPreflight(publicClient, address, label, request, checks);
+      if (result.status === 'blocked') setBlockedReason(result.reason);
+      const proceed = await openPreflight(result);
+      return proceed && result.status === 'ready';
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return {
+    preflight,
+    writeContract,
+    hash,
+    isPending: isPending || isChecking,
+    isConfirming,
+    isSuccess,
+    error: blockedReason ?? error,
+  };
+}
+
+// The pre-flight result waiting for the user, if any
+export function usePreflightPrompt() {
+  return useSyncExternalStore(subscribePreflight, getPreflightPrompt, getServerPreflightPrompt);
+}
+
+// Read the activity log, most recent first
+export function useTransactions() {
+  return useSyncExternalStore(subscribeTransactions, getTransactions, getServerTransactions);
+}
@@ -0,0 +1,89 @@
+import { isAddress, isHex } from 'viem';
+import { publicClient } from './publicClient';
+import { getTrustCircles } from './sdk';
+
+/**
+ * Admin-only API requests are signed by the admin's wallet. The API checks
+ * the signature and that the signer holds the admin or risk manager role.
+ * Shared by the pages and scripts (to sign) and the API (to verify).
+ */
+
+export type AdminRequest = {
+  action: string; // What is being done, e.g. "Push trust scores"
+  details?: Record<string, string>; // Signed along with the action, e.g. the address being blocked
+  issuedAt: number; // ms since epoch
+};
+
+// What a signed request carries besides its own fields
+export type AdminSignature = {
+  admin: string;
+  issuedAt: number;
+  signature: string;
+};
+
+// Signatures older than this are refused
+export const ADMIN_SIGNATURE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// GET requests carry the signature in headers instead of a body
+const ADMIN_HEADER = 'x-zentra-admin';
+const ISSUED_AT_HEADER = 'x-zentra-issued-at';
+const SIGNATURE_HEADER = 'x-zentra-signature';
+
+export function adminHeaders({ admin, issuedAt, signature }: AdminSignature): Record<string, string> {
+  return { [ADMIN_HEADER]: admin, [ISSUED_AT_HEADER]: String(issuedAt), [SIGNATURE_HEADER]: signature };
+}
+
+export function readAdminHeaders(headers: Headers): Partial<AdminSignature> {
+  return {
+    admin: headers.get(ADMIN_HEADER) ?? undefined,
+    issuedAt: Number(headers.get(ISSUED_AT_HEADER)),
+    signature: headers.get(SIGNATURE_HEADER) ?? undefined,
+  };
+}
+
+export function adminMessage({ action, details = {}, issuedAt }: AdminRequest): string {
+  return [
+    'Zentra admin request',
+    `Action: ${action}`,
+    ...Object.entries(details).map(([key, value]) => `${key}: ${value}`),
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+export type AdminCheck =
+  | { ok: true; admin: `0x${string}` }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Verify a signed admin request (server side). Returns the signer, or the
+ * error and HTTP status to respond with.
+ */
+export async function verifyAdminRequest(
+  { admin, issuedAt, signature }: Partial<AdminSignature>,
+  request: Omit<AdminRequest, 'issuedAt'>,
+  maxAgeMs = ADMIN_SIGNATURE_TTL_MS
+): Promise<AdminCheck> {
+  if (!admin || !isAddress(admin)) {
+    return { ok: false, error: 'A signed admin request is required', status: 401 };
+  }
+
+  if (typeof issuedAt !== 'number' || Math.abs(Date.now() - issuedAt) > maxAgeMs) {
+    return { ok: false, error: 'Signature has expired. Please sign again', status: 401 };
+  }
+
+  const valid = typeof signature === 'string' && isHex(signature) && await publicClient.verifyMessage({
+    address: admin,
+    message: adminMessage({ ...request, issuedAt }),
+    signature,
+  });
+  if (!valid) {
+    return { ok: false, error: 'Invalid signature', status: 401 };
+  }
+
+  const [isAdmin, , , isRiskManager] = await getTrustCircles(publicClient).read.getRoles([admin]);
+  if (!isAdmin && !isRiskManager) {
+    return { ok: false, error: 'Only admins and risk managers can do this', status: 403 };
+  }
+
+  return { ok: true, admin };
+}
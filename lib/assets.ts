@@ -0,0 +1,58 @@
+import { formatUnits, parseUnits, zeroAddress } from 'viem';
+
+// A lendable asset: native POL or an ERC-20 allow-listed in the AssetRegistry
+export type AssetInfo = {
+  address: `0x${string}`; // zeroAddress for native POL
+  symbol: string;
+  decimals: number;
+};
+
+// Registry entry for an asset, with the pool that lends it and its limits
+export type ListedAsset = AssetInfo & {
+  pool: `0x${string}`;
+  minStake: bigint;
+  maxLoanAmount?: bigint; // Per-loan cap; POL loans are only limited by credit tiers
+  enabled: boolean;
+};
+
+export const NATIVE_ASSET: AssetInfo = {
+  address: zeroAddress,
+  symbol: 'POL',
+  decimals: 18,
+};
+
+export function isNativeAsset(asset: AssetInfo | `0x${string}`) {
+  return (typeof asset === 'string' ? asset : asset.address) === zeroAddress;
+}
+
+export function sameAsset(a: `0x${string}` | undefined, b: `0x${string}` | undefined) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+// "12.5 USDC" style amount from the asset's smallest unit
+export function formatAmount(value: bigint, asset: AssetInfo) {
+  return `${formatUnits(value, asset.decimals)} ${asset.symbol}`;
+}
+
+// User input ("12.5") to the asset's smallest unit
+export function parseAmount(value: string, asset: AssetInfo) {
+  return parseUnits(value, asset.decimals);
+}
+
+// EIP-2612 reads needed to sign a permit (viem's erc20Abi covers the rest)
+export const ERC20_PERMIT_ABI = [
+  {
+    inputs: [{ internalType: 'address', name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ internalType: 'string', name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const;
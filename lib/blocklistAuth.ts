@@ -0,0 +1,27 @@
+import type { AdminRequest } from './adminAuth';
+
+/**
+ * Signed admin requests (lib/adminAuth.ts) for the address blocklist on the
+ * admin page. Shared by the page (to sign) and the API (to verify).
+ */
+
+export type BlocklistAction = 'view' | 'add' | 'remove';
+
+// Reading the list is signed once and reused while the admin page is open
+export const BLOCKLIST_VIEW_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const ACTIONS: Record<BlocklistAction, string> = {
+  view: 'View address blocklist',
+  add: 'Block address',
+  remove: 'Unblock address',
+};
+
+export function blocklistRequest(action: BlocklistAction, address?: string, reason?: string): Omit<AdminRequest, 'issuedAt'> {
+  return {
+    action: ACTIONS[action],
+    details: {
+      ...(address ? { Address: address.toLowerCase() } : {}),
+      ...(action === 'add' ? { Reason: reason ?? '' } : {}),
+    },
+  };
+}
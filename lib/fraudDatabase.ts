@@ -8,6 +8,7 @@ import {
   where, 
   getDocs,
   addDoc,
+  deleteDoc,
   serverTimestamp,
   Timestamp 
 } from 'firebase/firestore';
@@ -17,8 +18,11 @@ import {
   FraudEvent, 
   SelfieVerification, 
   LoanFraudCheck,
+  ModelOutputFailure,
+  BlocklistEntry,
   RiskLevel 
 } from './types/fraud';
+import { TrustScoreBreakdown, TrustScoreComponents, scoreComponents } from './fraudDetection';
 
 // Collection names
 export const COLLECTIONS = {
@@ -26,6 +30,8 @@ export const COLLECTIONS = {
   FRAUD_EVENTS: 'fraud_events',
   SELFIE_VERIFICATIONS: 'selfie_verifications',
   LOAN_FRAUD_CHECKS: 'loan_fraud_checks',
+  MODEL_OUTPUT_ERRORS: 'model_output_errors',
+  ADDRESS_BLOCKLIST: 'address_blocklist',
 };
 
 // ==========================================
@@ -55,33 +61,23 @@ export async function getUserFraudProfile(walletAddress: string): Promise<UserFr
 
 export async function createUserFraudProfile(
   walletAddress: string,
-  initialFraudScore: number = 50, // Users start at 50 points
-  trustScores?: {
-    walletAgeScore?: number;
-    repaymentHistoryScore?: number;
-    selfieVerificationScore?: number;
-    circleActivityScore?: number;
-    platformActivityScore?: number;
-    totalTrustScore?: number;
-  }
+  trustScores?: Partial<TrustScoreComponents>
 ): Promise<void> {
   try {
-    const profile: Partial<UserFraudProfile> = {
-      walletAddress: walletAddress.toLowerCase(),
-      fraudScore: initialFraudScore,
-      riskLevel: getRiskLevel(initialFraudScore),
-      isVerified: false,
-      isFlagged: false,
-      verificationBonus: 0,
-      
-      // Individual trust scores
+    // Users start with no trust points
+    const scores = scoreComponents({
       walletAgeScore: trustScores?.walletAgeScore || 0,
       repaymentHistoryScore: trustScores?.repaymentHistoryScore || 0,
       selfieVerificationScore: trustScores?.selfieVerificationScore || 0,
       circleActivityScore: trustScores?.circleActivityScore || 0,
       platformActivityScore: trustScores?.platformActivityScore || 0,
-      totalTrustScore: trustScores?.totalTrustScore || 0,
-      
+    });
+
+    const profile: Partial<UserFraudProfile> = {
+      walletAddress: walletAddress.toLowerCase(),
+      ...scores,
+      isVerified: false,
+      isFlagged: false,
       lastFraudCheck: new Date(),
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -99,45 +95,46 @@ export async function createUserFraudProfile(
   }
 }
 
-export async function updateFraudScore(
+// Profile components with some replaced, rescored
+function rescore(profile: UserFraudProfile, components: Partial<TrustScoreComponents>): TrustScoreBreakdown {
+  return scoreComponents({
+    walletAgeScore: profile.walletAgeScore || 0,
+    repaymentHistoryScore: profile.repaymentHistoryScore || 0,
+    selfieVerificationScore: profile.selfieVerificationScore || 0,
+    circleActivityScore: profile.circleActivityScore || 0,
+    platformActivityScore: profile.platformActivityScore || 0,
+    ...components,
+  });
+}
+
+/**
+ * Replace some of a user's trust score components; trustScore, riskScore
+ * and riskLevel are recomputed from all five
+ */
+export async function updateTrustScores(
   walletAddress: string,
-  newScore: number,
-  reason?: string
-): Promise<void> {
+  components: Partial<TrustScoreComponents>
+): Promise<TrustScoreBreakdown> {
   try {
-    const docRef = doc(db, COLLECTIONS.USERS_FRAUD, walletAddress.toLowerCase());
-    
-    await updateDoc(docRef, {
-      fraudScore: newScore,
-      riskLevel: getRiskLevel(newScore),
-      isFlagged: newScore >= 61,
+    const profile = await getUserFraudProfile(walletAddress);
+    if (!profile) {
+      throw new Error(`No fraud profile for ${walletAddress}`);
+    }
+
+    const scores = rescore(profile, components);
+    await updateDoc(doc(db, COLLECTIONS.USERS_FRAUD, walletAddress.toLowerCase()), {
+      ...scores,
       lastFraudCheck: serverTimestamp(),
       updatedAt: serverTimestamp(),
     });
-
-    // Log the fraud score change
-    if (reason) {
-      await logFraudEvent({
-        walletAddress: walletAddress.toLowerCase(),
-        eventType: 'max_amount_request', // Default, should be dynamic
-        severity: newScore >= 70 ? 'high' : newScore >= 40 ? 'medium' : 'low',
-        evidence: { reason, oldScore: 0, newScore },
-        fraudScoreImpact: 0,
-        detectionMethod: 'ai',
-        resolved: false,
-        createdAt: new Date(),
-      });
-    }
+    return scores;
   } catch (error) {
-    console.error('Error updating fraud score:', error);
+    console.error('Error updating trust scores:', error);
     throw error;
   }
 }
 
-export async function markUserAsVerified(
-  walletAddress: string,
-  verificationBonus: number = 20
-): Promise<void> {
+export async function markUserAsVerified(walletAddress: string): Promise<void> {
   try {
     const docRef = doc(db, COLLECTIONS.USERS_FRAUD, walletAddress.toLowerCase());
     let profile = await getUserFraudProfile(walletAddress);
@@ -145,25 +142,19 @@ export async function markUserAsVerified(
     // Create profile if doesn't exist
     if (!profile) {
       console.log('📝 Creating new fraud profile for user...');
-      await createUserFraudProfile(walletAddress, 50); // Start at 50
+      await createUserFraudProfile(walletAddress);
       profile = await getUserFraudProfile(walletAddress);
     }
     
     if (profile) {
-      // Start: 50, After verification: 60 (adds 10 points)
-      // Always set to 60 for verified users (50 base + 10 selfie)
-      const newScore = 60;
+      const scores = rescore(profile, { selfieVerificationScore: 10 }); // 10 points for selfie verification
       
       await updateDoc(docRef, {
         isVerified: true,
-        verificationBonus,
-        fraudScore: newScore,
-        riskLevel: getRiskLevel(newScore),
-        selfieVerificationScore: 10, // Add 10 points for selfie verification
-        totalTrustScore: 10, // Only selfie score initially
+        ...scores,
         updatedAt: serverTimestamp(),
       });
-      console.log('✅ User marked as verified with score:', newScore);
+      console.log('✅ User marked as verified with trust score:', scores.trustScore);
     }
   } catch (error) {
     console.error('Error marking user as verified:', error);
@@ -281,7 +272,8 @@ export async function getLoanFraudChecks(walletAddress: string): Promise<LoanFra
   try {
     const q = query(
       collection(db, COLLECTIONS.LOAN_FRAUD_CHECKS),
-      where('walletAddress', '==', walletAddress.toLowerCase())
+      where('walletAddress', '==', walletAddress.toLowerCase()),
+      where('source', '==', 'oracle')
     );
     
     const querySnapshot = await getDocs(q);
@@ -295,16 +287,96 @@ export async function getLoanFraudChecks(walletAddress: string): Promise<LoanFra
   }
 }
 
+export async function getLoanFraudCheck(loanRequestId: string): Promise<LoanFraudCheck | null> {
+  try {
+    const q = query(
+      collection(db, COLLECTIONS.LOAN_FRAUD_CHECKS),
+      where('loanRequestId', '==', loanRequestId),
+      where('source', '==', 'oracle')
+    );
+    
+    const querySnapshot = await getDocs(q);
+    if (querySnapshot.empty) {
+      return null;
+    }
+    
+    const data = querySnapshot.docs[0].data();
+    return {
+      ...data,
+      checkedAt: data.checkedAt?.toDate(),
+    } as LoanFraudCheck;
+  } catch (error) {
+    console.error('Error getting loan fraud check:', error);
+    return null;
+  }
+}
+
 // ==========================================
-// HELPER FUNCTIONS
+// MODEL OUTPUT ERROR FUNCTIONS
+// ==========================================
+
+export async function saveModelOutputFailure(failure: ModelOutputFailure): Promise<string> {
+  try {
+    const { walletAddress, ...rest } = failure;
+    const docRef = await addDoc(collection(db, COLLECTIONS.MODEL_OUTPUT_ERRORS), {
+      ...rest,
+      // Keep raw replies well under the document size limit
+      responses: failure.responses.map(response => response.slice(0, 10000)),
+      ...(walletAddress ? { walletAddress: walletAddress.toLowerCase() } : {}),
+      createdAt: serverTimestamp(),
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error saving model output failure:', error);
+    throw error;
+  }
+}
+
+// ==========================================
+// ADDRESS BLOCKLIST FUNCTIONS
 // ==========================================
 
-export function getRiskLevel(fraudScore: number): RiskLevel {
-  if (fraudScore >= 61) return 'high';
-  if (fraudScore >= 31) return 'medium';
-  return 'low';
+// Entries are keyed by lowercase address, so adding one twice replaces it
+export async function getBlocklistEntry(address: string): Promise<BlocklistEntry | null> {
+  const docSnap = await getDoc(doc(db, COLLECTIONS.ADDRESS_BLOCKLIST, address.toLowerCase()));
+  if (!docSnap.exists()) return null;
+
+  const data = docSnap.data();
+  return { ...data, createdAt: data.createdAt?.toDate() } as BlocklistEntry;
+}
+
+export async function getBlocklist(): Promise<BlocklistEntry[]> {
+  try {
+    const querySnapshot = await getDocs(collection(db, COLLECTIONS.ADDRESS_BLOCKLIST));
+    return querySnapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return { ...data, createdAt: data.createdAt?.toDate() } as BlocklistEntry;
+      })
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  } catch (error) {
+    console.error('Error getting blocklist:', error);
+    return [];
+  }
 }
 
+export async function addToBlocklist(address: string, reason: string, addedBy: string): Promise<void> {
+  await setDoc(doc(db, COLLECTIONS.ADDRESS_BLOCKLIST, address.toLowerCase()), {
+    address: address.toLowerCase(),
+    reason,
+    addedBy: addedBy.toLowerCase(),
+    createdAt: serverTimestamp(),
+  });
+}
+
+export async function removeFromBlocklist(address: string): Promise<void> {
+  await deleteDoc(doc(db, COLLECTIONS.ADDRESS_BLOCKLIST, address.toLowerCase()));
+}
+
+// ==========================================
+// HELPER FUNCTIONS
+// ==========================================
+
 export function getRiskColor(riskLevel: RiskLevel): string {
   switch (riskLevel) {
     case 'low': return 'green';
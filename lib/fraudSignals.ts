@@ -0,0 +1,232 @@
+import { getLoanFraudChecks, getUserFraudProfile, logFraudEvent } from './fraudDatabase';
+import { LIST_NAMES, screenAddress } from './screening';
+import { FraudAnalysisResult, FraudEvent, FraudEventType, LoanRiskInput, RiskFactor, ScreeningHit } from './types/fraud';
+
+/**
+ * Deterministic fraud rules run on every loan request next to the risk
+ * model. Each rule that fires gives a RiskFactor for the analysis and a
+ * FraudEvent for the fraud_events log. Signals do not change the trust
+ * score; a high or critical one stops a loan from being auto-approved.
+ *
+ * Blocklist, sanctions and mixer list hits come from address screening
+ * (lib/screening.ts) and are critical. mixer_connection only covers the
+ * wallet itself being a listed mixer: funds received from one would need
+ * transaction history the app does not index. The selfie signals
+ * (failed_verification, deepfake_detected, screenshot_detected) come from
+ * selfie checks.
+ */
+
+type Severity = RiskFactor['severity'];
+
+// A rule result with the raw values behind it, stored as event evidence
+export interface FraudSignal extends RiskFactor {
+  data: Record<string, unknown>;
+}
+
+// What the rules know besides the request itself
+export interface FraudSignalContext {
+  isFlagged: boolean; // Profile flagged for review
+  recentRequests: number; // Oracle-scored on-chain loans for this wallet in the last REQUEST_WINDOW_MS
+  screeningHits: ScreeningHit[]; // Address screening list hits
+  now: Date;
+}
+
+export const REQUEST_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+const SEVERITY_POINTS: Record<Severity, number> = {
+  low: 5,
+  medium: 10,
+  high: 20,
+  critical: 40,
+};
+
+// Purposes that say nothing about what the loan is for
+const GENERIC_PURPOSES = ['', 'not specified', 'loan', 'money', 'cash', 'personal', 'other', 'need money', 'stuff', 'test'];
+const MIN_PURPOSE_LENGTH = 8;
+
+type Rule = (input: LoanRiskInput, context: FraudSignalContext) =>
+  | { type: FraudEventType; severity: Severity; evidence: string; data: Record<string, unknown> }
+  | null;
+
+const RULES: Rule[] = [
+  // Young wallet with little history; skipped when the age is unknown
+  (input) => input.walletAge !== undefined && input.walletAge < 30 && input.totalTransactions < 10
+    ? {
+        type: 'new_wallet',
+        severity: 'medium',
+        evidence: `Wallet is ${input.walletAge} days old with ${input.totalTransactions} transactions`,
+        data: { walletAge: input.walletAge, totalTransactions: input.totalTransactions },
+      }
+    : null,
+
+  // On our blocklist or a sanctions list; being flagged for review alone is high
+  (_input, context) => {
+    const listed = context.screeningHits.filter(hit => hit.list !== 'mixer');
+    if (listed.length > 0) {
+      return {
+        type: 'flagged_address',
+        severity: 'critical',
+        evidence: `Wallet is on the ${Array.from(new Set(listed.map(hit => LIST_NAMES[hit.list]))).join(' and ')} (${listed.map(hit => hit.source).join(', ')})`,
+        data: { hits: listed, isFlagged: context.isFlagged },
+      };
+    }
+    return context.isFlagged
+      ? {
+          type: 'flagged_address',
+          severity: 'high',
+          evidence: 'Wallet is flagged for review',
+          data: { isFlagged: true },
+        }
+      : null;
+  },
+
+  (_input, context) => {
+    const mixers = context.screeningHits.filter(hit => hit.list === 'mixer');
+    return mixers.length > 0
+      ? {
+          type: 'mixer_connection',
+          severity: 'critical',
+          evidence: `Wallet is a known mixer contract${mixers[0].label ? ` (${mixers[0].label})` : ''}`,
+          data: { hits: mixers },
+        }
+      : null;
+  },
+
+  // Borrowing at (or past) the limit
+  (input) => {
+    if (input.maxEligible <= 0) return null;
+    const ratio = input.requestedAmount / input.maxEligible;
+    if (ratio < 0.9) return null;
+    return {
+      type: 'max_amount_request',
+      severity: ratio > 1 ? 'high' : 'medium',
+      evidence: ratio > 1
+        ? `Requested ${input.requestedAmount}, above the ${input.maxEligible} limit`
+        : `Requested ${Math.round(ratio * 100)}% of the ${input.maxEligible} limit`,
+      data: { requestedAmount: input.requestedAmount, maxEligible: input.maxEligible, ratio },
+    };
+  },
+
+  (_input, context) => context.recentRequests >= 3
+    ? {
+        type: 'multiple_requests',
+        severity: context.recentRequests >= 5 ? 'high' : 'medium',
+        evidence: `${context.recentRequests} other loan requests in the last 24 hours`,
+        data: { recentRequests: context.recentRequests, windowMs: REQUEST_WINDOW_MS },
+      }
+    : null,
+
+  (input) => {
+    const purpose = input.loanPurpose.trim().toLowerCase();
+    return GENERIC_PURPOSES.includes(purpose) || purpose.length < MIN_PURPOSE_LENGTH
+      ? {
+          type: 'generic_purpose',
+          severity: 'low',
+          evidence: `Loan purpose "${input.loanPurpose}" is too vague`,
+          data: { loanPurpose: input.loanPurpose },
+        }
+      : null;
+  },
+];
+
+export function detectFraudSignals(input: LoanRiskInput, context: FraudSignalContext): FraudSignal[] {
+  const signals: FraudSignal[] = [];
+  for (const rule of RULES) {
+    const result = rule(input, context);
+    if (result) {
+      signals.push({ ...result, points: SEVERITY_POINTS[result.severity], detectedAt: context.now });
+    }
+  }
+  return signals;
+}
+
+/**
+ * Add signals to a model's analysis. High signals turn an approval into a
+ * review; critical ones block.
+ */
+export function applyFraudSignals(analysis: FraudAnalysisResult, signals: FraudSignal[]): FraudAnalysisResult {
+  if (signals.length === 0) return analysis;
+
+  let recommendation = analysis.recommendation;
+  if (signals.some(signal => signal.severity === 'critical')) {
+    recommendation = 'block';
+  } else if (recommendation === 'approve' && signals.some(signal => signal.severity === 'high')) {
+    recommendation = 'review';
+  }
+
+  return {
+    ...analysis,
+    riskFactors: [
+      ...analysis.riskFactors,
+      ...signals.map(({ data, ...factor }) => factor),
+    ],
+    recommendation,
+    explanation: recommendation === analysis.recommendation
+      ? analysis.explanation
+      : `${analysis.explanation} Changed to ${recommendation} by fraud signals: ${signals
+          .filter(signal => signal.severity === 'high' || signal.severity === 'critical')
+          .map(signal => signal.evidence)
+          .join('; ')}.`,
+  };
+}
+
+// fraud_events entries for the signals
+export function toFraudEvents(
+  walletAddress: string,
+  signals: FraudSignal[],
+  loanRequestId?: string
+): Omit<FraudEvent, 'id'>[] {
+  return signals.map(signal => ({
+    walletAddress: walletAddress.toLowerCase(),
+    eventType: signal.type,
+    severity: signal.severity,
+    evidence: {
+      summary: signal.evidence,
+      ...signal.data,
+      ...(loanRequestId ? { loanRequestId } : {}),
+    },
+    fraudScoreImpact: signal.points,
+    detectionMethod: 'automated_rule',
+    resolved: false,
+    createdAt: signal.detectedAt,
+  }));
+}
+
+/**
+ * Run the rules for a loan request. With the loan's ID (the risk oracle
+ * scoring an on-chain loan), what fires is logged to fraud_events and the
+ * loan does not count as a repeat request of itself; without one (a preview)
+ * nothing is logged.
+ */
+export async function evaluateFraudSignals(input: LoanRiskInput, loanRequestId?: string): Promise<FraudSignal[]> {
+  const now = new Date();
+  const [profile, checks, screening] = await Promise.all([
+    getUserFraudProfile(input.walletAddress),
+    getLoanFraudChecks(input.walletAddress),
+    screenAddress(input.walletAddress, 'loan_request'),
+  ]);
+
+  const recentRequests = checks.filter(check =>
+    check.loanRequestId !== loanRequestId &&
+    check.checkedAt &&
+    now.getTime() - check.checkedAt.getTime() < REQUEST_WINDOW_MS
+  ).length;
+
+  const signals = detectFraudSignals(input, {
+    isFlagged: profile?.isFlagged || false,
+    recentRequests,
+    screeningHits: screening.hits,
+    now,
+  });
+
+  if (!loanRequestId) return signals;
+
+  // Best effort: a failed log should not fail the loan check
+  await Promise.all(
+    toFraudEvents(input.walletAddress, signals, loanRequestId).map(event =>
+      logFraudEvent(event).catch(error => console.error('Failed to log fraud event:', error))
+    )
+  );
+
+  return signals;
+}
@@ -0,0 +1,411 @@
+import { erc20Abi, zeroAddress } from 'viem';
+import { CONTRACT_ADDRESS, CONTRACT_ABI, CONTRACT_DEPLOYMENT_BLOCK, CREDIT_LINES_ABI } from './contract';
+import { publicClient } from './publicClient';
+import { getTrustCircles } from './sdk';
+import { AssetInfo, NATIVE_ASSET, isNativeAsset } from './assets';
+import { HistoryEntry, IndexedCircle, IndexedLoan, IndexedLoanStatus, Page } from './types/indexer';
+
+// Reads within this window are served from the index without asking the chain for new blocks
+const SYNC_INTERVAL_MS = 5_000;
+
+// Blocks per getContractEvents call; public RPCs reject wide log ranges
+const BLOCK_RANGE = BigInt(2_000);
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Events that are kept in the member's history, with the argument naming the member
+const HISTORY_SUBJECTS: Record<string, string> = {
+  CircleCreated: 'creator',
+  MemberJoined: 'member',
+  LeaveRequested: 'member',
+  LeaveCancelled: 'member',
+  MemberLeft: 'member',
+  LoanRequested: 'borrower',
+  LoanApproved: 'borrower',
+  LoanDisbursed: 'borrower',
+  InstallmentPaid: 'borrower',
+  LoanRepaid: 'borrower',
+  LoanDefaulted: 'borrower',
+  MerchantPurchase: 'borrower',
+  BondSlashed: 'member',
+  ScoreUpdated: 'user',
+  AccountFrozen: 'user',
+  AccountUnfrozen: 'user',
+  CreditDrawn: 'borrower',
+  CreditRepaid: 'borrower',
+  StatementIssued: 'borrower',
+  CreditLineDefaulted: 'borrower',
+};
+
+export const HISTORY_EVENT_TYPES = Object.keys(HISTORY_SUBJECTS);
+
+type EventLog = {
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+};
+
+// In-memory index, filled from contract events. It lives for the lifetime
+// of the server process and catches up from the last ingested block on the
+// next read, so a restart only costs one full scan.
+const index = {
+  nextBlock: CONTRACT_DEPLOYMENT_BLOCK,
+  syncedAt: 0,
+  loans: new Map<number, IndexedLoan>(),
+  circles: new Map<number, IndexedCircle>(),
+  memberships: new Map<string, number>(), // Lowercased member -> circle
+  history: new Map<string, HistoryEntry[]>(), // Lowercased member -> entries, oldest first
+  assets: new Map<string, AssetInfo>(),
+  creditLines: undefined as `0x${string}` | undefined,
+};
+
+let syncing: Promise<void> | null = null;
+
+/**
+ * Bring the index up to the latest block. Concurrent callers share one
+ * sync, and calls within SYNC_INTERVAL_MS of the last one return at once.
+ */
+export async function syncIndex() {
+  if (Date.now() - index.syncedAt < SYNC_INTERVAL_MS) return;
+  if (!syncing) {
+    syncing = ingestNewBlocks().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+async function ingestNewBlocks() {
+  const latest = await publicClient.getBlockNumber();
+
+  if (latest < index.nextBlock) {
+    index.syncedAt = Date.now();
+    return;
+  }
+
+  if (!index.creditLines) {
+    const creditLines = await getTrustCircles(publicClient).read.creditLines();
+    index.creditLines = creditLines === zeroAddress ? undefined : creditLines;
+  }
+
+  // Progress is kept after each range, so a failed sync resumes where it stopped
+  while (index.nextBlock <= latest) {
+    const rangeEnd = index.nextBlock + BLOCK_RANGE - BigInt(1);
+    const toBlock = rangeEnd < latest ? rangeEnd : latest;
+    await ingestRange(index.nextBlock, toBlock);
+    index.nextBlock = toBlock + BigInt(1);
+  }
+
+  index.syncedAt = Date.now();
+}
+
+async function ingestRange(fromBlock: bigint, toBlock: bigint) {
+  const [loanLogs, creditLogs] = await Promise.all([
+    publicClient.getContractEvents({
+      address: CONTRACT_ADDRESS,
+      abi: CONTRACT_ABI,
+      fromBlock,
+      toBlock,
+      strict: true,
+    }),
+    index.creditLines
+      ? publicClient.getContractEvents({
+          address: index.creditLines,
+          abi: CREDIT_LINES_ABI,
+          fromBlock,
+          toBlock,
+          strict: true,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const logs = [...loanLogs, ...creditLogs]
+    .map(log => log as unknown as EventLog)
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : Number(a.blockNumber - b.blockNumber)
+    );
+
+  // Do every lookup before touching the index, so a failed range can simply be retried
+  const timestamps = new Map<bigint, number>();
+  const blockNumbers = Array.from(new Set(logs.map(log => log.blockNumber)));
+  for (let i = 0; i < blockNumbers.length; i += 20) {
+    const blocks = await Promise.all(
+      blockNumbers.slice(i, i + 20).map(blockNumber => publicClient.getBlock({ blockNumber }))
+    );
+    blocks.forEach(block => timestamps.set(block.number, Number(block.timestamp)));
+  }
+
+  const circleAssets = new Map<number, AssetInfo>();
+  for (const log of logs) {
+    if (log.eventName === 'CircleCreated') {
+      const circleId = log.args.circleId as bigint;
+      const [, , , , , , asset] = await getTrustCircles(publicClient).read.circles([circleId]);
+      circleAssets.set(Number(circleId), await resolveAsset(asset));
+    } else if (log.eventName === 'MerchantPurchase') {
+      await resolveAsset(log.args.asset as `0x${string}`);
+    }
+  }
+
+  for (const log of logs) {
+    applyEvent(log, timestamps.get(log.blockNumber) ?? 0, circleAssets);
+  }
+}
+
+// Symbol and decimals of a lendable asset, read once per token
+async function resolveAsset(address: `0x${string}`): Promise<AssetInfo> {
+  if (isNativeAsset(address)) return NATIVE_ASSET;
+
+  const key = address.toLowerCase();
+  const cached = index.assets.get(key);
+  if (cached) return cached;
+
+  const [symbol, decimals] = await Promise.all([
+    publicClient.readContract({ address, abi: erc20Abi, functionName: 'symbol' }),
+    publicClient.readContract({ address, abi: erc20Abi, functionName: 'decimals' }),
+  ]);
+  const asset = { address, symbol, decimals };
+  index.assets.set(key, asset);
+  return asset;
+}
+
+function applyEvent(log: EventLog, timestamp: number, circleAssets: Map<number, AssetInfo>) {
+  const { args } = log;
+
+  switch (log.eventName) {
+    case 'CircleCreated': {
+      const id = Number(args.circleId);
+      const creator = args.creator as string;
+      // The creator joins with the circle; no MemberJoined is emitted for them
+      index.circles.set(id, {
+        id,
+        name: args.name as string,
+        creator,
+        asset: circleAssets.get(id) ?? NATIVE_ASSET,
+        members: [creator],
+        isActive: false,
+        averageScore: null,
+        createdAt: timestamp,
+        txHash: log.transactionHash,
+      });
+      index.memberships.set(creator.toLowerCase(), id);
+      break;
+    }
+    case 'MemberJoined': {
+      const circle = index.circles.get(Number(args.circleId));
+      const member = args.member as string;
+      circle?.members.push(member);
+      index.memberships.set(member.toLowerCase(), Number(args.circleId));
+      break;
+    }
+    case 'MemberLeft': {
+      const circle = index.circles.get(Number(args.circleId));
+      const member = (args.member as string).toLowerCase();
+      if (circle) circle.members = circle.members.filter(m => m.toLowerCase() !== member);
+      index.memberships.delete(member);
+      break;
+    }
+    case 'CircleActivated':
+    case 'CircleDeactivated': {
+      const circle = index.circles.get(Number(args.circleId));
+      if (circle) circle.isActive = log.eventName === 'CircleActivated';
+      break;
+    }
+    case 'CircleScoreUpdated': {
+      const circle = index.circles.get(Number(args.circleId));
+      if (circle) circle.averageScore = Number(args.newAverage);
+      break;
+    }
+    case 'LoanRequested': {
+      const id = Number(args.loanId);
+      const borrower = args.borrower as string;
+      const circleId = index.memberships.get(borrower.toLowerCase()) ?? 0;
+      index.loans.set(id, {
+        id,
+        borrower,
+        circleId,
+        amount: String(args.amount),
+        purpose: args.purpose as string,
+        asset: index.circles.get(circleId)?.asset ?? NATIVE_ASSET,
+        status: 'pending',
+        amountRepaid: '0',
+        installmentsPaid: 0,
+        requestedAt: timestamp,
+        updatedAt: timestamp,
+        txHash: log.transactionHash,
+      });
+      break;
+    }
+    case 'LoanApproved':
+      updateLoan(args.loanId, timestamp, loan => {
+        loan.status = 'approved';
+      });
+      break;
+    case 'LoanDisbursed':
+      updateLoan(args.loanId, timestamp, loan => {
+        loan.status = 'disbursed';
+      });
+      break;
+    case 'InstallmentPaid':
+      updateLoan(args.loanId, timestamp, loan => {
+        loan.amountRepaid = String(BigInt(loan.amountRepaid) + (args.amount as bigint));
+        loan.installmentsPaid = Number(args.installmentsPaid);
+      });
+      break;
+    case 'LoanRepaid':
+      updateLoan(args.loanId, timestamp, loan => {
+        loan.status = 'repaid';
+      });
+      break;
+    case 'MerchantPurchase':
+      updateLoan(args.loanId, timestamp, loan => {
+        loan.merchant = args.merchant as string;
+        loan.orderRef = args.orderRef as string;
+        loan.asset = index.assets.get((args.asset as string).toLowerCase()) ?? loan.asset;
+      });
+      break;
+    case 'LoanDefaulted': {
+      const id = Number(args.loanId);
+      // Credit line defaults are booked as a loan without a LoanRequested event
+      if (!index.loans.has(id)) {
+        const borrower = args.borrower as string;
+        const circleId = index.memberships.get(borrower.toLowerCase()) ?? 0;
+        index.loans.set(id, {
+          id,
+          borrower,
+          circleId,
+          amount: String(args.outstandingPrincipal),
+          purpose: 'Credit line',
+          asset: index.circles.get(circleId)?.asset ?? NATIVE_ASSET,
+          status: 'defaulted',
+          amountRepaid: '0',
+          installmentsPaid: 0,
+          requestedAt: timestamp,
+          updatedAt: timestamp,
+          txHash: log.transactionHash,
+        });
+      }
+      updateLoan(args.loanId, timestamp, loan => {
+        loan.status = 'defaulted';
+        loan.outstandingAtDefault = String(args.outstandingPrincipal);
+      });
+      break;
+    }
+  }
+
+  const subjectKey = HISTORY_SUBJECTS[log.eventName];
+  if (subjectKey) {
+    const subject = (args[subjectKey] as string).toLowerCase();
+    const data: HistoryEntry['data'] = {};
+    for (const [key, value] of Object.entries(args)) {
+      if (key === subjectKey) continue;
+      data[key] = typeof value === 'bigint' ? value.toString() : (value as string | boolean);
+    }
+
+    const entries = index.history.get(subject) ?? [];
+    entries.push({
+      type: log.eventName,
+      data,
+      blockNumber: Number(log.blockNumber),
+      logIndex: log.logIndex,
+      timestamp,
+      txHash: log.transactionHash,
+    });
+    index.history.set(subject, entries);
+  }
+}
+
+function updateLoan(loanId: unknown, timestamp: number, update: (loan: IndexedLoan) => void) {
+  const loan = index.loans.get(Number(loanId));
+  if (!loan) return;
+  update(loan);
+  loan.updatedAt = timestamp;
+}
+
+/**
+ * Page and page size from `?page=&pageSize=`; null if either is not a
+ * positive integer or the page size is over MAX_PAGE_SIZE
+ */
+export function parsePagination(searchParams: URLSearchParams) {
+  const page = Number(searchParams.get('page') ?? 1);
+  const pageSize = Number(searchParams.get('pageSize') ?? DEFAULT_PAGE_SIZE);
+
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return null;
+  }
+  return { page, pageSize };
+}
+
+function paginate<T>(items: T[], page: number, pageSize: number): Page<T> {
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    total: items.length,
+    indexedBlock: Number(index.nextBlock) - 1,
+  };
+}
+
+/**
+ * Loans, most recent first
+ */
+export async function queryLoans(
+  filter: { status?: IndexedLoanStatus; borrower?: string; circleId?: number },
+  page: number,
+  pageSize: number
+): Promise<Page<IndexedLoan>> {
+  await syncIndex();
+
+  const borrower = filter.borrower?.toLowerCase();
+  const loans = Array.from(index.loans.values())
+    .filter(loan =>
+      (!filter.status || loan.status === filter.status) &&
+      (!borrower || loan.borrower.toLowerCase() === borrower) &&
+      (filter.circleId === undefined || loan.circleId === filter.circleId)
+    )
+    .sort((a, b) => b.id - a.id);
+
+  return paginate(loans, page, pageSize);
+}
+
+/**
+ * Circles, most recent first
+ */
+export async function queryCircles(
+  filter: { active?: boolean; member?: string },
+  page: number,
+  pageSize: number
+): Promise<Page<IndexedCircle>> {
+  await syncIndex();
+
+  const member = filter.member?.toLowerCase();
+  const circles = Array.from(index.circles.values())
+    .filter(circle =>
+      (filter.active === undefined || circle.isActive === filter.active) &&
+      (!member || circle.members.some(m => m.toLowerCase() === member))
+    )
+    .sort((a, b) => b.id - a.id);
+
+  return paginate(circles, page, pageSize);
+}
+
+/**
+ * A member's events (loans, scores, circle membership, credit line), most
+ * recent first, optionally limited to some event types
+ */
+export async function queryUserHistory(
+  address: string,
+  filter: { types?: string[] },
+  page: number,
+  pageSize: number
+): Promise<Page<HistoryEntry>> {
+  await syncIndex();
+
+  const entries = (index.history.get(address.toLowerCase()) ?? [])
+    .filter(entry => !filter.types?.length || filter.types.includes(entry.type))
+    .reverse();
+
+  return paginate(entries, page, pageSize);
+}
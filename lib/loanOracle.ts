@@ -0,0 +1,169 @@
+import { createWalletClient, encodeAbiParameters, http, keccak256, toHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { LOAN_ORACLE_ADDRESS } from './contract';
+import { publicClient } from './publicClient';
+import { getLoanOracle, getTrustCircles, readMember } from './sdk';
+import { getUserFraudProfile } from './fraudDatabase';
+import { LOW_RISK_MIN_TRUST, MAX_TRUST_SCORE } from './fraudDetection';
+
+// Signed approvals must be submitted on-chain within this window
+export const ATTESTATION_TTL_SECONDS = 15 * 60; // 15 minutes
+
+// Lowest trust score the oracle signs for, whatever the model recommends
+export const AUTO_APPROVE_MIN_SCORE = LOW_RISK_MIN_TRUST;
+
+// On-chain individual scores: 50 to start, capped at 100, plus up to 20 oracle points (matching TrustCircles)
+const STARTING_SCORE = 50;
+const MAX_SCORE = 100;
+export const MAX_OFFCHAIN_POINTS = 20;
+
+// Matches LoanOracle.SCORE_UPDATE_TYPEHASH
+const SCORE_UPDATE_TYPEHASH = keccak256(toHex('ScoreUpdate(address user,uint256 points,uint256 nonce,uint256 expiresAt)'));
+
+export interface LoanAttestation {
+  expiresAt: number; // Unix seconds
+  signature: `0x${string}`;
+}
+
+/**
+ * Whether this server can sign attestations: it needs the oracle key
+ * (ORACLE_PRIVATE_KEY, matching LoanOracle.oracleSigner()) and the
+ * LoanOracle address
+ */
+export function isOracleConfigured() {
+  return !!process.env.ORACLE_PRIVATE_KEY && !!LOAN_ORACLE_ADDRESS;
+}
+
+function oracleAccount() {
+  return privateKeyToAccount(process.env.ORACLE_PRIVATE_KEY as `0x${string}`);
+}
+
+/**
+ * Sign an approval for a pending loan, mirroring LoanOracle.attestationHash.
+ * Server-only: the key must never reach the browser.
+ */
+export async function signLoanApproval(loan: {
+  loanId: bigint;
+  borrower: `0x${string}`;
+  amount: bigint;
+  asset: `0x${string}`;
+}): Promise<LoanAttestation> {
+  if (!isOracleConfigured()) {
+    throw new Error('Loan oracle not configured');
+  }
+
+  const account = oracleAccount();
+  const expiresAt = Math.floor(Date.now() / 1000) + ATTESTATION_TTL_SECONDS;
+
+  const hash = keccak256(
+    encodeAbiParameters(
+      [
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'uint256' },
+      ],
+      [
+        BigInt(publicClient.chain.id),
+        LOAN_ORACLE_ADDRESS!,
+        loan.loanId,
+        loan.borrower,
+        loan.amount,
+        loan.asset,
+        BigInt(expiresAt),
+      ]
+    )
+  );
+
+  // EIP-191 personal message over the raw hash, as LoanOracle._recover expects
+  const signature = await account.signMessage({ message: { raw: hash } });
+
+  return { expiresAt, signature };
+}
+
+/**
+ * Off-chain points for a trust score (0-60), scaled to 0-MAX_OFFCHAIN_POINTS.
+ * TrustCircles adds them to its own individual score, so they cannot undo
+ * default penalties or replace repayment bonuses.
+ */
+export function toOffChainPoints(trustScore: number) {
+  const clamped = Math.min(MAX_TRUST_SCORE, Math.max(0, trustScore || 0));
+  return Math.round((clamped / MAX_TRUST_SCORE) * MAX_OFFCHAIN_POINTS);
+}
+
+// Individual score a new member with this trust score has on-chain
+export function toOnChainScore(trustScore: number) {
+  return Math.min(MAX_SCORE, STARTING_SCORE + toOffChainPoints(trustScore));
+}
+
+/**
+ * Push a member's Firestore trust score on-chain as off-chain points. The
+ * oracle signs the update and relays it through LoanOracle.updateScore (the
+ * oracle key pays gas). Members who have not joined a circle yet, or are
+ * frozen, are skipped; call again after they join.
+ */
+export async function pushTrustScore(walletAddress: `0x${string}`): Promise<{
+  status: 'updated' | 'unchanged' | 'skipped';
+  points?: number;
+  txHash?: `0x${string}`;
+  reason?: string;
+}> {
+  if (!isOracleConfigured()) {
+    return { status: 'skipped', reason: 'Loan oracle not configured' };
+  }
+
+  const profile = await getUserFraudProfile(walletAddress);
+  if (!profile) {
+    return { status: 'skipped', reason: 'No trust profile' };
+  }
+
+  const [{ isActive }, currentPoints] = await Promise.all([
+    readMember(publicClient, walletAddress),
+    getTrustCircles(publicClient).read.offChainPoints([walletAddress]),
+  ]);
+
+  if (!isActive) {
+    return { status: 'skipped', reason: 'Not an active member' };
+  }
+
+  const points = toOffChainPoints(profile.trustScore || 0);
+  if (BigInt(points) === currentPoints) {
+    return { status: 'unchanged', points };
+  }
+
+  const nonce = await getLoanOracle(publicClient).read.scoreNonces([walletAddress]);
+  const expiresAt = BigInt(Math.floor(Date.now() / 1000) + ATTESTATION_TTL_SECONDS);
+
+  // Mirrors LoanOracle.scoreUpdateHash
+  const hash = keccak256(
+    encodeAbiParameters(
+      [
+        { type: 'bytes32' },
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'uint256' },
+        { type: 'uint256' },
+      ],
+      [SCORE_UPDATE_TYPEHASH, BigInt(publicClient.chain.id), LOAN_ORACLE_ADDRESS!, walletAddress, BigInt(points), nonce, expiresAt]
+    )
+  );
+
+  const account = oracleAccount();
+  const signature = await account.signMessage({ message: { raw: hash } });
+
+  const walletClient = createWalletClient({
+    account,
+    chain: publicClient.chain,
+    transport: http(publicClient.chain.rpcUrls.default.http[0]),
+  });
+  const oracle = getLoanOracle({ public: publicClient, wallet: walletClient });
+  const txHash = await oracle.write.updateScore([walletAddress, BigInt(points), expiresAt, signature], { account, chain: publicClient.chain });
+  await publicClient.waitForTransactionReceipt({ hash: txHash });
+
+  return { status: 'updated', points, txHash };
+}
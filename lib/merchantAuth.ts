@@ -0,0 +1,63 @@
+import { isHex } from 'viem';
+import { publicClient } from './publicClient';
+import { getTrustCircles } from './sdk';
+
+/**
+ * Merchant API requests are signed by the merchant's registered wallet, so
+ * nobody else can create or cancel payment intents in its name. A merchant's
+ * server signs with the key of the address the admin registered.
+ */
+
+export type MerchantRequest = {
+  action: string; // What is being done, e.g. "Create payment intent"
+  merchant: string; // Registered merchant address, which must be the signer
+  details?: Record<string, string>; // Signed along with the action, e.g. the amount
+  issuedAt: number; // ms since epoch
+};
+
+// Signatures older than this are refused
+export const MERCHANT_SIGNATURE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+export function merchantMessage({ action, merchant, details = {}, issuedAt }: MerchantRequest): string {
+  return [
+    'Zentra merchant request',
+    `Action: ${action}`,
+    `Merchant: ${merchant.toLowerCase()}`,
+    ...Object.entries(details).map(([key, value]) => `${key}: ${value}`),
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+export type MerchantCheck =
+  | { ok: true; name: string }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Verify a signed merchant request (server side). The merchant must be
+ * registered and active on-chain; returns its registered name, or the error
+ * and HTTP status to respond with.
+ */
+export async function verifyMerchantRequest(
+  { issuedAt, signature }: { issuedAt?: unknown; signature?: unknown },
+  request: Omit<MerchantRequest, 'issuedAt'>
+): Promise<MerchantCheck> {
+  if (typeof issuedAt !== 'number' || Math.abs(Date.now() - issuedAt) > MERCHANT_SIGNATURE_TTL_MS) {
+    return { ok: false, error: 'A signed merchant request is required. Signatures expire after 5 minutes', status: 401 };
+  }
+
+  const valid = typeof signature === 'string' && isHex(signature) && await publicClient.verifyMessage({
+    address: request.merchant as `0x${string}`,
+    message: merchantMessage({ ...request, issuedAt }),
+    signature,
+  });
+  if (!valid) {
+    return { ok: false, error: 'Invalid merchant signature', status: 401 };
+  }
+
+  const [name, isActive] = await getTrustCircles(publicClient).read.merchants([request.merchant as `0x${string}`]);
+  if (!isActive) {
+    return { ok: false, error: 'Merchant is not registered or not active', status: 403 };
+  }
+
+  return { ok: true, name };
+}
@@ -0,0 +1,188 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  addDoc,
+  setDoc,
+  updateDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { PaymentIntent, CreatePaymentIntentRequest } from './types/merchant';
+import { AssetInfo, NATIVE_ASSET } from './assets';
+
+// Collection names
+export const COLLECTIONS = {
+  PAYMENT_INTENTS: 'payment_intents',
+  MERCHANTS: 'merchants', // Off-chain settings for registered merchants, by lowercase address
+};
+
+// Intents a borrower has not paid within this window can no longer be used
+export const PAYMENT_INTENT_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+// ==========================================
+// PAYMENT INTENT FUNCTIONS
+// ==========================================
+
+export async function createPaymentIntent(
+  request: CreatePaymentIntentRequest,
+  merchantName: string
+): Promise<string> {
+  try {
+    const intent: Omit<PaymentIntent, 'id' | 'createdAt' | 'expiresAt'> = {
+      merchantAddress: request.merchantAddress.toLowerCase(),
+      merchantName,
+      amount: request.amount,
+      asset: (request.asset ?? NATIVE_ASSET).address.toLowerCase(),
+      assetSymbol: (request.asset ?? NATIVE_ASSET).symbol,
+      assetDecimals: (request.asset ?? NATIVE_ASSET).decimals,
+      description: request.description,
+      status: 'pending',
+    };
+
+    const docRef = await addDoc(collection(db, COLLECTIONS.PAYMENT_INTENTS), {
+      ...intent,
+      // Firestore rejects undefined fields
+      ...(request.returnUrl ? { returnUrl: request.returnUrl } : {}),
+      createdAt: serverTimestamp(),
+      expiresAt: Timestamp.fromMillis(Date.now() + PAYMENT_INTENT_TTL_MS),
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error creating payment intent:', error);
+    throw error;
+  }
+}
+
+export async function getPaymentIntent(intentId: string): Promise<PaymentIntent | null> {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTIONS.PAYMENT_INTENTS, intentId));
+
+    if (!docSnap.exists()) {
+      return null;
+    }
+
+    const data = docSnap.data();
+    const intent = {
+      id: docSnap.id,
+      ...data,
+      createdAt: data.createdAt?.toDate(),
+      expiresAt: data.expiresAt?.toDate(),
+      paidAt: data.paidAt?.toDate(),
+      cancelledAt: data.cancelledAt?.toDate(),
+    } as PaymentIntent;
+
+    // Expiry is evaluated lazily on read
+    if (intent.status === 'pending' && intent.expiresAt && intent.expiresAt.getTime() < Date.now()) {
+      intent.status = 'expired';
+    }
+
+    return intent;
+  } catch (error) {
+    console.error('Error getting payment intent:', error);
+    return null;
+  }
+}
+
+export async function markPaymentIntentPaid(
+  intentId: string,
+  payment: {
+    borrowerAddress: string;
+    loanId: number;
+    installments: number;
+    txHash: string;
+  }
+): Promise<void> {
+  try {
+    await updateDoc(doc(db, COLLECTIONS.PAYMENT_INTENTS, intentId), {
+      status: 'paid',
+      borrowerAddress: payment.borrowerAddress.toLowerCase(),
+      loanId: payment.loanId,
+      installments: payment.installments,
+      txHash: payment.txHash,
+      paidAt: serverTimestamp(),
+    });
+  } catch (error) {
+    console.error('Error marking payment intent paid:', error);
+    throw error;
+  }
+}
+
+// Only pending intents can be cancelled; returns false otherwise
+export async function cancelPaymentIntent(intentId: string): Promise<boolean> {
+  try {
+    const intent = await getPaymentIntent(intentId);
+    if (!intent || intent.status !== 'pending') return false;
+
+    await updateDoc(doc(db, COLLECTIONS.PAYMENT_INTENTS, intentId), {
+      status: 'cancelled',
+      cancelledAt: serverTimestamp(),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error cancelling payment intent:', error);
+    throw error;
+  }
+}
+
+// ==========================================
+// MERCHANT SETTINGS
+// ==========================================
+
+// The only origin a merchant's intents may send shoppers back to
+export async function getMerchantReturnOrigin(merchantAddress: string): Promise<string | null> {
+  try {
+    const docSnap = await getDoc(doc(db, COLLECTIONS.MERCHANTS, merchantAddress.toLowerCase()));
+    return docSnap.exists() ? docSnap.data().returnOrigin ?? null : null;
+  } catch (error) {
+    console.error('Error getting merchant return origin:', error);
+    return null;
+  }
+}
+
+export async function setMerchantReturnOrigin(merchantAddress: string, returnOrigin: string, updatedBy: string): Promise<void> {
+  try {
+    await setDoc(doc(db, COLLECTIONS.MERCHANTS, merchantAddress.toLowerCase()), {
+      returnOrigin,
+      updatedBy: updatedBy.toLowerCase(),
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error setting merchant return origin:', error);
+    throw error;
+  }
+}
+
+// ==========================================
+// HELPER FUNCTIONS
+// ==========================================
+
+// Origin of an http(s) URL, or null if it is not one
+export function toHttpOrigin(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// Intents created before token support are priced in POL
+export function getIntentAsset(intent: PaymentIntent): AssetInfo {
+  if (!intent.asset) return NATIVE_ASSET;
+  return {
+    address: intent.asset as `0x${string}`,
+    symbol: intent.assetSymbol ?? NATIVE_ASSET.symbol,
+    decimals: intent.assetDecimals ?? NATIVE_ASSET.decimals,
+  };
+}
+
+export function buildReturnUrl(intent: PaymentIntent): string | null {
+  if (!intent.returnUrl) return null;
+
+  const url = new URL(intent.returnUrl);
+  url.searchParams.set('zentra_intent', intent.id);
+  url.searchParams.set('zentra_status', intent.status);
+  return url.toString();
+}
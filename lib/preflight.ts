@@ -0,0 +1,223 @@
+import type { Abi, EstimateContractGasParameters, PublicClient, SimulateContractParameters } from 'viem';
+import { getCreditLines, getTrustCircles } from './sdk';
+import { decodeTxError } from './txErrors';
+import type { ScreeningAction } from './types/fraud';
+
+/**
+ * Client-side checks run before a write is simulated. Each returns why the
+ * write would fail, or null. They read the same state as the contract's
+ * requires but give a more specific reason than the first failing one
+ * (e.g. a non-member's loan request reverts with "Account frozen").
+ */
+export type PreflightCheck = (client: PublicClient, account: `0x${string}`) => Promise<string | null>;
+
+// Shown in the pre-flight dialog: either why the write would fail, or its estimated cost
+export type PreflightResult =
+  | { label: string; status: 'blocked'; reason: string }
+  | { label: string; status: 'ready'; gas: bigint; fee: bigint };
+
+export type PreflightPrompt = PreflightResult & { id: number };
+
+async function readMembership(client: PublicClient, account: `0x${string}`) {
+  const trustCircles = getTrustCircles(client);
+  const [paused, [circleId, , , maxLoanAmount, , , , , hasActiveLoan, isActive]] = await Promise.all([
+    trustCircles.read.paused(),
+    trustCircles.read.getUserStats([account]),
+  ]);
+  return { paused, circleId, maxLoanAmount, hasActiveLoan, isActive };
+}
+
+async function inactiveCircleReason(client: PublicClient, circleId: bigint) {
+  const trustCircles = getTrustCircles(client);
+  const [[, , memberCount, , , isActive], minMembers] = await Promise.all([
+    trustCircles.read.getCircleDetails([circleId]),
+    trustCircles.read.MIN_CIRCLE_MEMBERS(),
+  ]);
+  if (isActive) return null;
+  const missing = minMembers - memberCount;
+  return `Your circle is not active yet. It needs ${missing} more member${missing === BigInt(1) ? '' : 's'}`;
+}
+
+// Why this member cannot borrow at all right now, whatever the product
+async function borrowingReason(client: PublicClient, member: Awaited<ReturnType<typeof readMembership>>) {
+  if (member.paused) return 'Zentra is paused. Only repayments go through right now';
+  if (member.circleId === BigInt(0)) return 'Join a trust circle before borrowing';
+  if (!member.isActive) return 'This account is frozen. Contact the Zentra team';
+  return inactiveCircleReason(client, member.circleId);
+}
+
+/**
+ * Borrowing through requestLoan or checkout. `amount` is checked against the
+ * borrowing limit when given.
+ */
+export function borrowerCheck(amount?: bigint): PreflightCheck {
+  return async (client, account) => {
+    const member = await readMembership(client, account);
+    const reason = await borrowingReason(client, member);
+    if (reason) return reason;
+
+    if (member.hasActiveLoan) return 'Repay your active loan before borrowing again';
+    if (amount !== undefined && amount > member.maxLoanAmount) {
+      return 'That amount is above your current borrowing limit';
+    }
+    return null;
+  };
+}
+
+/**
+ * Drawing on a credit line. The first draw opens the line and needs no
+ * active loan; later draws add to the open line (which counts as that
+ * loan) as long as its statement is not overdue.
+ */
+export function creditDrawCheck(amount?: bigint): PreflightCheck {
+  return async (client, account) => {
+    const member = await readMembership(client, account);
+    const reason = await borrowingReason(client, member);
+    if (reason) return reason;
+
+    const creditLines = getCreditLines(client, await getTrustCircles(client).read.creditLines());
+    const [, , availableCredit, , , dueDate, , overdue] = await creditLines.read.getStatement([account]);
+
+    const lineOpen = dueDate !== BigInt(0);
+    if (!lineOpen && member.hasActiveLoan) return 'Repay your active loan before opening a credit line';
+    if (overdue) return 'Your credit line payment is overdue. Pay the minimum due first';
+    if (amount !== undefined && amount > availableCredit) {
+      return 'That amount is above your available credit';
+    }
+    return null;
+  };
+}
+
+// Creating or joining a circle; `circleId` is the circle being joined
+export function newMemberCheck(circleId?: bigint): PreflightCheck {
+  return async (client, account) => {
+    const member = await readMembership(client, account);
+    if (member.paused) return 'Zentra is paused. Only repayments go through right now';
+    if (member.circleId !== BigInt(0)) return 'You are already a member of a circle. Leave it first';
+    if (circleId === undefined) return null;
+
+    const [name, , memberCount] = await getTrustCircles(client).read.getCircleDetails([circleId]);
+    if (!name) return `No circle exists with ID ${circleId}`;
+    if (memberCount >= BigInt(10)) return 'This circle has no open seats';
+    return null;
+  };
+}
+
+/**
+ * Address screening (/api/screening) before a join, loan or deposit. Blocks
+ * when screening cannot be reached, since the check is the point. It runs in
+ * the browser, so a wallet calling the contracts directly skips it; the risk
+ * oracle screens again before it signs a loan approval.
+ */
+export function screeningCheck(action: ScreeningAction): PreflightCheck {
+  return async (_client, account) => {
+    let result: { allowed: boolean };
+    try {
+      const response = await fetch('/api/screening', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: account, action }),
+      });
+      if (!response.ok) throw new Error(`Screening failed (${response.status})`);
+      result = await response.json();
+    } catch (err) {
+      console.error('Address screening error:', err);
+      return 'Address screening is unavailable right now. Please try again';
+    }
+    return result.allowed ? null : 'This address is not allowed to use Zentra. Contact the Zentra team';
+  };
+}
+
+// The parts of a writeContract request needed to simulate it
+export interface PreflightRequest {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  value?: bigint;
+}
+
+/**
+ * Run the checks in order, then simulate the write and estimate its gas and
+ * fee. Any failure, including a revert in the simulation, blocks the write
+ * with a readable reason.
+ */
+export async function runPreflight(
+  client: PublicClient,
+  account: `0x${string}`,
+  label: string,
+  request: PreflightRequest,
+  checks: PreflightCheck[] = []
+): Promise<PreflightResult> {
+  try {
+    for (const check of checks) {
+      const reason = await check(client, account);
+      if (reason) return { label, status: 'blocked', reason };
+    }
+
+    await client.simulateContract({ ...request, account } as SimulateContractParameters<
+      Abi,
+      string,
+      readonly unknown[],
+      undefined,
+      undefined,
+      `0x${string}`
+    >);
+    const [gas, fees] = await Promise.all([
+      client.estimateContractGas({ ...request, account } as EstimateContractGasParameters),
+      client.estimateFeesPerGas(),
+    ]);
+    return { label, status: 'ready', gas, fee: gas * fees.maxFeePerGas };
+  } catch (err) {
+    return { label, status: 'blocked', reason: decodeTxError(err) };
+  }
+}
+
+// ============ DIALOG STATE ============
+
+// The write waiting on the dialog; confirming or cancelling settles its promise
+let prompt: PreflightPrompt | null = null;
+let settle: ((proceed: boolean) => void) | null = null;
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+function show(next: PreflightPrompt | null) {
+  prompt = next;
+  listeners.forEach(listener => listener());
+}
+
+// For useSyncExternalStore
+export function subscribePreflight(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getPreflightPrompt() {
+  return prompt;
+}
+
+export function getServerPreflightPrompt() {
+  return null;
+}
+
+/**
+ * Show a pre-flight result. Resolves true if the user chose to continue to
+ * their wallet; a blocked write always resolves false once dismissed.
+ * A newer prompt cancels one still open.
+ */
+export function openPreflight(result: PreflightResult): Promise<boolean> {
+  settle?.(false);
+  return new Promise(resolve => {
+    settle = resolve;
+    show({ ...result, id: nextId++ });
+  });
+}
+
+export function closePreflight(proceed: boolean) {
+  const resolve = settle;
+  settle = null;
+  show(null);
+  resolve?.(proceed);
+}
@@ -0,0 +1,21 @@
+import { createPublicClient, http } from 'viem';
+import { getChain } from '@/config/chains';
+import { DEFAULT_CHAIN_ID } from '@/config/deployments';
+
+const chain = getChain(DEFAULT_CHAIN_ID);
+if (!chain) {
+  throw new Error(`NEXT_PUBLIC_CHAIN_ID ${DEFAULT_CHAIN_ID} is not a supported chain`);
+}
+
+/**
+ * Read-only chain client for API routes and scripts, on the default chain
+ * (components should use the wagmi hooks instead)
+ */
+export const publicClient = createPublicClient({
+  chain,
+  transport: http(chain.rpcUrls.default.http[0], {
+    timeout: 30_000,
+    retryCount: 3,
+    retryDelay: 1_000,
+  }),
+});
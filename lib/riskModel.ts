@@ -0,0 +1,116 @@
+import { FraudAnalysisResult, LoanRiskInput, RiskModelName, RiskModelProvider, SelfieAnalysisResult } from './types/fraud';
+import { saveModelOutputFailure } from './fraudDatabase';
+import { geminiRiskModel } from './riskModels/gemini';
+import { localRiskModel } from './riskModels/local';
+import { mockRiskModel } from './riskModels/mock';
+import { ModelOutputError } from './riskModels/modelOutput';
+
+const PROVIDERS: Record<RiskModelName, RiskModelProvider> = {
+  gemini: geminiRiskModel,
+  local: localRiskModel,
+  mock: mockRiskModel,
+};
+
+let override: RiskModelProvider | null = null;
+
+/**
+ * The risk model set by RISK_MODEL_PROVIDER: 'gemini' (default), 'local'
+ * for the rule-based model or 'mock' for canned results. 'local' and
+ * 'mock' make no network calls and always give the same output.
+ */
+export function getRiskModel(): RiskModelProvider {
+  if (override) return override;
+
+  const name = process.env.RISK_MODEL_PROVIDER || 'gemini';
+  const provider = PROVIDERS[name as RiskModelName] as RiskModelProvider | undefined;
+  if (!provider) {
+    throw new Error(`Unknown RISK_MODEL_PROVIDER "${name}" (use gemini, local or mock)`);
+  }
+  return provider;
+}
+
+// Use another provider (e.g. createMockRiskModel({ ... }) in tests); null restores the configured one
+export function setRiskModel(provider: RiskModelProvider | null) {
+  override = provider;
+}
+
+// Keep unusable model output for review (best effort)
+async function recordModelOutputError(model: RiskModelName, error: ModelOutputError, walletAddress?: string) {
+  try {
+    await saveModelOutputFailure({
+      model,
+      task: error.task,
+      issues: error.issues,
+      responses: error.responses,
+      walletAddress,
+      createdAt: new Date(),
+    });
+  } catch (saveError) {
+    console.error('Failed to record model output error:', saveError);
+  }
+}
+
+/**
+ * Score a loan request. If a remote model fails, the local model scores it
+ * instead; `model` on the result says which one did.
+ */
+export async function analyzeLoanRisk(input: LoanRiskInput): Promise<FraudAnalysisResult> {
+  const provider = getRiskModel();
+  try {
+    return { ...(await provider.analyzeLoan(input)), model: provider.name };
+  } catch (error) {
+    if (provider.name === 'local') throw error;
+    if (error instanceof ModelOutputError) {
+      await recordModelOutputError(provider.name, error, input.walletAddress);
+    }
+    console.error(`Risk model "${provider.name}" failed, using the local model:`, error);
+    return { ...(await localRiskModel.analyzeLoan(input)), model: 'local' };
+  }
+}
+
+/**
+ * Check a selfie for identity verification. A selfie the model cannot give
+ * a usable answer for goes to manual review.
+ */
+export async function verifySelfie(imageBase64: string, walletAddress?: string): Promise<SelfieAnalysisResult> {
+  // Basic image validation
+  if (!imageBase64 || imageBase64.length < 1000) {
+    return {
+      is_verified: false,
+      is_real_person: false,
+      is_live_photo: false,
+      face_detected: false,
+      quality_score: 0,
+      liveness_score: 0,
+      authenticity_score: 0,
+      deepfake_probability: 100,
+      verification_recommendation: 'reject',
+      rejection_reasons: ['Invalid image data - image too small or corrupted'],
+      confidence: 0,
+      detailed_analysis: 'The provided image data is invalid or too small. Please capture a clear selfie.'
+    };
+  }
+
+  const provider = getRiskModel();
+  try {
+    return await provider.verifySelfie(imageBase64);
+  } catch (error) {
+    if (!(error instanceof ModelOutputError)) throw error;
+
+    await recordModelOutputError(provider.name, error, walletAddress);
+    return {
+      is_verified: false,
+      is_real_person: false,
+      is_live_photo: false,
+      face_detected: false,
+      quality_score: 0,
+      liveness_score: 0,
+      authenticity_score: 0,
+      deepfake_probability: 0,
+      verification_recommendation: 'manual_review',
+      rejection_reasons: ['Automatic verification returned an unreadable result. Queued for manual review.'],
+      confidence: 0,
+      detailed_analysis: 'The verification model did not return a usable analysis. A reviewer will verify this selfie.'
+    };
+  }
+}
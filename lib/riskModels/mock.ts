@@ -0,0 +1,45 @@
+import { toVersionedScore } from '../fraudDetection';
+import { FraudAnalysisResult, RiskModelProvider, SelfieAnalysisResult } from '../types/fraud';
+
+/**
+ * Canned results for tests and demos: every loan is a low-risk approval and
+ * every selfie passes, unless overridden. Pass overrides to
+ * createMockRiskModel to exercise the review and rejection paths.
+ */
+
+const MOCK_LOAN_ANALYSIS: FraudAnalysisResult = {
+  ...toVersionedScore(45),
+  riskFactors: [],
+  trustFactors: [{ type: 'mock', points: 45, evidence: 'Mock risk model' }],
+  recommendation: 'approve',
+  explanation: 'Trust score: 45/60. Mock risk model result.',
+  confidence: 100,
+};
+
+const MOCK_SELFIE_ANALYSIS: SelfieAnalysisResult = {
+  is_verified: true,
+  is_real_person: true,
+  is_live_photo: true,
+  face_detected: true,
+  quality_score: 90,
+  liveness_score: 90,
+  authenticity_score: 90,
+  deepfake_probability: 0,
+  verification_recommendation: 'approve',
+  rejection_reasons: [],
+  confidence: 100,
+  detailed_analysis: 'Mock risk model result.',
+};
+
+export function createMockRiskModel(overrides: {
+  loan?: Partial<FraudAnalysisResult>;
+  selfie?: Partial<SelfieAnalysisResult>;
+} = {}): RiskModelProvider {
+  return {
+    name: 'mock',
+    analyzeLoan: async () => ({ ...MOCK_LOAN_ANALYSIS, ...overrides.loan }),
+    verifySelfie: async () => ({ ...MOCK_SELFIE_ANALYSIS, ...overrides.selfie }),
+  };
+}
+
+export const mockRiskModel = createMockRiskModel();
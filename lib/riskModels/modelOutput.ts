@@ -0,0 +1,186 @@
+import { ModelOutputTask, ModelValidationIssue } from '../types/fraud';
+
+/**
+ * Runtime checks for JSON produced by language models. Each response is
+ * parsed and checked against a schema: numbers outside their range are
+ * clamped (or rejected where a wrong scale would mislead), fields not in the
+ * schema are dropped, and anything else wrong fails validation. A failed
+ * response gets one repair prompt; if that fails too, ModelOutputError
+ * carries the issues and raw responses so they can be recorded.
+ */
+
+export type FieldSchema = { optional?: boolean } & (
+  | { type: 'number'; min: number; max: number; outOfRange?: 'clamp' | 'reject' }
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'array'; items: FieldSchema }
+  | { type: 'object'; fields: Record<string, FieldSchema> }
+);
+
+export type ObjectSchema = Extract<FieldSchema, { type: 'object' }>;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; clamped: string[] }
+  | { ok: false; issues: ModelValidationIssue[] };
+
+export class ModelOutputError extends Error {
+  constructor(
+    readonly task: ModelOutputTask,
+    readonly issues: ModelValidationIssue[],
+    readonly responses: string[] // Raw model output, first attempt then repair
+  ) {
+    super(`Unusable ${task} response: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'ModelOutputError';
+  }
+}
+
+function describe(schema: FieldSchema): string {
+  switch (schema.type) {
+    case 'number': return `a number from ${schema.min} to ${schema.max}`;
+    case 'enum': return `one of ${schema.values.map(value => `"${value}"`).join(', ')}`;
+    case 'array': return 'an array';
+    case 'object': return 'an object';
+    default: return `a ${schema.type}`;
+  }
+}
+
+function check(
+  schema: FieldSchema,
+  value: unknown,
+  path: string,
+  issues: ModelValidationIssue[],
+  clamped: string[]
+): unknown {
+  if (value === undefined || value === null) {
+    if (!schema.optional) issues.push({ path, message: `is missing (expected ${describe(schema)})` });
+    return undefined;
+  }
+
+  switch (schema.type) {
+    case 'number': {
+      // Models sometimes quote numbers
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        issues.push({ path, message: `must be ${describe(schema)}` });
+        return undefined;
+      }
+      if (number < schema.min || number > schema.max) {
+        if (schema.outOfRange === 'reject') {
+          issues.push({ path, message: `is ${number}, outside ${schema.min}-${schema.max}` });
+          return undefined;
+        }
+        clamped.push(path);
+        return Math.min(schema.max, Math.max(schema.min, number));
+      }
+      return number;
+    }
+
+    case 'boolean':
+    case 'string':
+      if (typeof value !== schema.type) {
+        issues.push({ path, message: `must be ${describe(schema)}` });
+        return undefined;
+      }
+      return value;
+
+    case 'enum':
+      if (typeof value !== 'string' || !schema.values.includes(value)) {
+        issues.push({ path, message: `is ${JSON.stringify(value)}, expected ${describe(schema)}` });
+        return undefined;
+      }
+      return value;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'must be an array' });
+        return undefined;
+      }
+      return value.map((item, index) => check(schema.items, item, `${path}[${index}]`, issues, clamped));
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: 'must be an object' });
+        return undefined;
+      }
+      const result: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const checked = check(field, (value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues, clamped);
+        if (checked !== undefined) result[key] = checked;
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Parse a model's reply (optionally wrapped in a ```json block) and check it
+ * against the schema
+ */
+export function validateModelOutput<T>(text: string, schema: ObjectSchema): ValidationResult<T> {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { ok: false, issues: [{ path: '$', message: 'is not a single valid JSON object' }] };
+  }
+
+  const issues: ModelValidationIssue[] = [];
+  const clamped: string[] = [];
+  const value = check(schema, parsed, '', issues, clamped);
+
+  return issues.length > 0
+    ? { ok: false, issues: issues.map(issue => ({ ...issue, path: issue.path || '$' })) }
+    : { ok: true, value: value as T, clamped };
+}
+
+function repairPrompt(prompt: string, response: string, issues: ModelValidationIssue[]) {
+  return `${prompt}
+
+Your previous response could not be used:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Previous response:
+${response.slice(0, 4000)}
+
+Reply again with ONLY the corrected JSON object in the format above.`;
+}
+
+/**
+ * Ask the model for JSON matching the schema, with one repair prompt if the
+ * first reply does not validate. Throws ModelOutputError if neither does.
+ */
+export async function generateValidated<T>({
+  task,
+  schema,
+  prompt,
+  generate,
+}: {
+  task: ModelOutputTask;
+  schema: ObjectSchema;
+  prompt: string;
+  generate: (prompt: string) => Promise<string>;
+}): Promise<T> {
+  const responses: string[] = [];
+  let issues: ModelValidationIssue[] = [];
+
+  for (const attempt of [prompt, null]) {
+    const text = await generate(attempt ?? repairPrompt(prompt, responses[0], issues));
+    responses.push(text);
+
+    const result = validateModelOutput<T>(text, schema);
+    if (result.ok) {
+      if (result.clamped.length > 0) {
+        console.warn(`⚠️ ${task}: clamped out-of-range values at ${result.clamped.join(', ')}`);
+      }
+      return result.value;
+    }
+
+    issues = result.issues;
+    console.warn(`⚠️ ${task}: invalid model response (${attempt === null ? 'after repair' : 'sending repair prompt'}):`, issues);
+  }
+
+  throw new ModelOutputError(task, issues, responses);
+}
@@ -0,0 +1,108 @@
+import {
+  collection,
+  deleteField,
+  getDocs,
+  serverTimestamp,
+  writeBatch,
+  DocumentReference,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { COLLECTIONS } from './fraudDatabase';
+import { SCORE_VERSION, scoreComponents, toVersionedScore } from './fraudDetection';
+
+/**
+ * One-time rewrite of stored scores onto the current scales.
+ *
+ * Before scoreVersion, profiles had a fraudScore written three ways (50 plus
+ * trust points by the contract sync, a flat 60 after a selfie, a model's 0-60
+ * score after a loan check) next to totalTrustScore. Migrated profiles keep
+ * their component scores and review flag and take every other score from
+ * their sum. Loan
+ * checks already held a 0-60 model trust score in fraudScore, so only the
+ * fields change. Documents already at SCORE_VERSION are skipped, so running
+ * it again is harmless.
+ */
+
+export interface ScoreMigrationResult {
+  profiles: number; // Profiles rewritten
+  loanChecks: number; // Loan fraud checks rewritten
+  skipped: number; // Documents already at SCORE_VERSION
+  dryRun: boolean;
+}
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 500;
+
+type Update = { ref: DocumentReference; data: Record<string, unknown> };
+
+function profileUpdate(data: Record<string, any>): Record<string, unknown> {
+  const scores = scoreComponents({
+    walletAgeScore: data.walletAgeScore || 0,
+    repaymentHistoryScore: data.repaymentHistoryScore || 0,
+    // Some verified profiles were reset without their selfie points
+    selfieVerificationScore: data.isVerified ? 10 : data.selfieVerificationScore || 0,
+    circleActivityScore: data.circleActivityScore || 0,
+    platformActivityScore: data.platformActivityScore || 0,
+  });
+
+  return {
+    ...scores,
+    // isFlagged is left as stored: a reviewer may have flagged the account
+    fraudScore: deleteField(),
+    totalTrustScore: deleteField(),
+    verificationBonus: deleteField(),
+    updatedAt: serverTimestamp(),
+  };
+}
+
+function loanCheckUpdate(data: Record<string, any>): Record<string, unknown> {
+  const score = toVersionedScore(data.trustScore ?? data.fraudScore);
+  const update: Record<string, unknown> = { ...score, fraudScore: deleteField() };
+
+  // The stored model analysis carries the same score
+  if (data.geminiAnalysis) {
+    for (const [field, value] of Object.entries(score)) {
+      update[`geminiAnalysis.${field}`] = value;
+    }
+    update['geminiAnalysis.fraudScore'] = deleteField();
+  }
+  return update;
+}
+
+export async function migrateScores({ dryRun = false } = {}): Promise<ScoreMigrationResult> {
+  const result: ScoreMigrationResult = { profiles: 0, loanChecks: 0, skipped: 0, dryRun };
+  const updates: Update[] = [];
+
+  const profiles = await getDocs(collection(db, COLLECTIONS.USERS_FRAUD));
+  for (const snap of profiles.docs) {
+    if (snap.data().scoreVersion === SCORE_VERSION) {
+      result.skipped++;
+      continue;
+    }
+    updates.push({ ref: snap.ref, data: profileUpdate(snap.data()) });
+    result.profiles++;
+  }
+
+  const checks = await getDocs(collection(db, COLLECTIONS.LOAN_FRAUD_CHECKS));
+  for (const snap of checks.docs) {
+    if (snap.data().scoreVersion === SCORE_VERSION) {
+      result.skipped++;
+      continue;
+    }
+    updates.push({ ref: snap.ref, data: loanCheckUpdate(snap.data()) });
+    result.loanChecks++;
+  }
+
+  if (dryRun) return result;
+
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    for (const { ref, data } of updates.slice(i, i + BATCH_SIZE)) {
+      batch.update(ref, data);
+    }
+    await batch.commit();
+  }
+
+  console.log('✅ Score migration complete:', result);
+  return result;
+}
@@ -0,0 +1,266 @@
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { getBlocklistEntry, logFraudEvent } from './fraudDatabase';
+import { FraudEvent, ScreeningAction, ScreeningHit, ScreeningList, ScreeningResult } from './types/fraud';
+
+/**
+ * Address screening against locally loaded lists: our own blocklist, known
+ * mixer contracts and sanctions files. Lists are CSV or JSON files in
+ * SCREENING_LISTS_DIR (default config/screening); the file name says which
+ * list it is (blocklist*.json, mixers.csv, sanctions-ofac.csv, ...).
+ * Addresses blocked from the admin page live in Firestore and are checked
+ * next to the files.
+ *
+ * Server only: it reads the file system.
+ */
+
+// A list file as loaded: lowercase address -> label
+export interface LoadedList {
+  file: string;
+  list: ScreeningList;
+  addresses: Map<string, string | undefined>;
+}
+
+// What the admin page shows for each loaded file
+export interface ScreeningListSummary {
+  file: string;
+  list: ScreeningList;
+  count: number;
+}
+
+const LIST_KINDS: ScreeningList[] = ['blocklist', 'mixer', 'sanctions'];
+
+// For evidence text, e.g. "on the sanctions list"
+export const LIST_NAMES: Record<ScreeningList, string> = {
+  blocklist: 'blocklist',
+  mixer: 'mixer list',
+  sanctions: 'sanctions list',
+};
+
+// Files are re-read at most this often, so edits show up without a restart
+const CACHE_TTL_MS = 60 * 1000;
+
+// A hit counts as much as a critical fraud signal
+const HIT_POINTS = 40;
+
+// Hits from the public endpoint are logged at most once per address and action in this window
+const RECORD_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+const ADDRESS_PATTERN = /0x[0-9a-fA-F]{40}/g;
+
+let cache: { lists: LoadedList[]; loadedAt: number } | null = null;
+
+// "address:action" -> when its hits were last logged; only listed addresses get an entry
+const recordedAt = new Map<string, number>();
+
+function listsDir() {
+  return path.resolve(process.cwd(), process.env.SCREENING_LISTS_DIR || 'config/screening');
+}
+
+function listKind(file: string): ScreeningList | null {
+  const name = file.toLowerCase();
+  return LIST_KINDS.find(kind => name.startsWith(kind)) ?? null;
+}
+
+function isAddress(value: unknown): value is string {
+  return typeof value === 'string' && /^0x[0-9a-fA-F]{40}$/.test(value.trim());
+}
+
+// Accepts ["0x..."], [{ address, label }] or { addresses: [...] }
+function parseJson(text: string, file: string) {
+  const addresses = new Map<string, string | undefined>();
+  const parsed = JSON.parse(text);
+  const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.addresses;
+  if (!Array.isArray(items)) {
+    throw new Error(`${file}: expected an array of addresses or { "addresses": [...] }`);
+  }
+
+  for (const item of items) {
+    if (isAddress(item)) {
+      addresses.set(item.trim().toLowerCase(), undefined);
+    } else if (item && typeof item === 'object') {
+      const { address, label, name } = item as Record<string, unknown>;
+      if (isAddress(address)) {
+        addresses.set(address.trim().toLowerCase(), typeof label === 'string' ? label : typeof name === 'string' ? name : undefined);
+      }
+    }
+  }
+  return addresses;
+}
+
+// One CSV row, honouring quoted fields
+function splitCsvRow(row: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * With an `address` header column, reads that column (and `label` or
+ * `name`). Otherwise takes every address found anywhere in the file, which
+ * covers sanctions exports that list addresses inside free text.
+ */
+function parseCsv(text: string) {
+  const addresses = new Map<string, string | undefined>();
+  const rows = text.split(/\r?\n/).filter(row => row.trim() !== '');
+  const header = rows.length > 0 ? splitCsvRow(rows[0]).map(column => column.toLowerCase()) : [];
+  const addressColumn = header.indexOf('address');
+
+  if (addressColumn === -1) {
+    for (const match of text.match(ADDRESS_PATTERN) ?? []) {
+      addresses.set(match.toLowerCase(), undefined);
+    }
+    return addresses;
+  }
+
+  const labelColumn = header.indexOf('label') !== -1 ? header.indexOf('label') : header.indexOf('name');
+  for (const row of rows.slice(1)) {
+    const fields = splitCsvRow(row);
+    if (isAddress(fields[addressColumn])) {
+      addresses.set(fields[addressColumn].toLowerCase(), labelColumn !== -1 ? fields[labelColumn] || undefined : undefined);
+    }
+  }
+  return addresses;
+}
+
+async function readLists(): Promise<LoadedList[]> {
+  const dir = listsDir();
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (error: any) {
+    // No lists configured
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const lists: LoadedList[] = [];
+  for (const file of files.sort()) {
+    const extension = path.extname(file).toLowerCase();
+    if (extension !== '.json' && extension !== '.csv') continue;
+
+    const list = listKind(file);
+    if (!list) {
+      console.warn(`⚠️ Skipping screening file ${file}: name must start with ${LIST_KINDS.join(', ')}`);
+      continue;
+    }
+
+    // A broken sanctions file should stop screening, not be skipped quietly
+    const text = await readFile(path.join(dir, file), 'utf8');
+    const addresses = extension === '.json' ? parseJson(text, file) : parseCsv(text);
+    lists.push({ file, list, addresses });
+  }
+  return lists;
+}
+
+export async function loadScreeningLists({ refresh = false } = {}): Promise<LoadedList[]> {
+  if (!refresh && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.lists;
+  }
+  const lists = await readLists();
+  cache = { lists, loadedAt: Date.now() };
+  return lists;
+}
+
+export async function getScreeningListSummary(): Promise<ScreeningListSummary[]> {
+  const lists = await loadScreeningLists();
+  return lists.map(({ file, list, addresses }) => ({ file, list, count: addresses.size }));
+}
+
+/**
+ * Check an address against every list. Only looks; use screenAndRecord
+ * where hits should be logged.
+ */
+export async function screenAddress(address: string, action: ScreeningAction): Promise<ScreeningResult> {
+  const key = address.toLowerCase();
+  const [lists, entry] = await Promise.all([loadScreeningLists(), getBlocklistEntry(key)]);
+
+  const hits: ScreeningHit[] = [];
+  for (const { file, list, addresses } of lists) {
+    if (addresses.has(key)) {
+      const label = addresses.get(key);
+      hits.push({ list, address: key, source: file, ...(label ? { label } : {}) });
+    }
+  }
+  if (entry) {
+    hits.push({ list: 'blocklist', address: key, label: entry.reason, source: 'admin' });
+  }
+
+  return { address: key, action, allowed: hits.length === 0, hits };
+}
+
+// fraud_events entries for a screening result
+export function toScreeningEvents(result: ScreeningResult): Omit<FraudEvent, 'id'>[] {
+  return result.hits.map(hit => ({
+    walletAddress: result.address,
+    eventType: hit.list === 'mixer' ? 'mixer_connection' : 'flagged_address',
+    severity: 'critical',
+    evidence: {
+      summary: `Address is on the ${LIST_NAMES[hit.list]} (${hit.source})${hit.label ? `: ${hit.label}` : ''}`,
+      list: hit.list,
+      source: hit.source,
+      action: result.action,
+      ...(hit.label ? { label: hit.label } : {}),
+    },
+    fraudScoreImpact: HIT_POINTS,
+    detectionMethod: 'automated_rule',
+    resolved: false,
+    createdAt: new Date(),
+  }));
+}
+
+// Best effort: the result stands even if logging fails
+async function recordHits(result: ScreeningResult) {
+  await Promise.all(
+    toScreeningEvents(result).map(event =>
+      logFraudEvent(event).catch(error => console.error('Failed to log screening hit:', error))
+    )
+  );
+}
+
+// Screen an address for an action and log any hits to fraud_events
+export async function screenAndRecord(address: string, action: ScreeningAction): Promise<ScreeningResult> {
+  const result = await screenAddress(address, action);
+  await recordHits(result);
+  return result;
+}
+
+/**
+ * Screen for the public endpoint, where the caller picks the address: hits
+ * are logged like screenAndRecord, but at most once per address and action
+ * per RECORD_INTERVAL_MS, so repeated calls cannot flood fraud_events.
+ */
+export async function screenAndRecordThrottled(address: string, action: ScreeningAction): Promise<ScreeningResult> {
+  const result = await screenAddress(address, action);
+  if (result.allowed) return result;
+
+  const key = `${result.address}:${action}`;
+  const now = Date.now();
+  if (now - (recordedAt.get(key) ?? 0) < RECORD_INTERVAL_MS) return result;
+  recordedAt.set(key, now);
+
+  await recordHits(result);
+  return result;
+}
@@ -0,0 +1,170 @@
+import { getContract, isAddressEqual, parseEventLogs, type ContractEventName, type Log, type PublicClient, type WalletClient } from 'viem';
+import { getDeployment } from '@/config/deployments';
+import {
+  CONTRACT_ADDRESS,
+  LOAN_ORACLE_ADDRESS,
+  CONTRACT_ABI,
+  POOL_ABI,
+  TIMELOCK_ABI,
+  RISK_PARAMS_ABI,
+  ADMISSIONS_ABI,
+  ASSET_REGISTRY_ABI,
+  CREDIT_LINES_ABI,
+  LOAN_ORACLE_ABI,
+} from './contract';
+
+/**
+ * Typed contract SDK: the framework-agnostic core shared by API routes and
+ * server code. Each getter binds a contract to a viem client and returns
+ * typed `read`, `simulate`, `estimateGas`, `getEvents` and (with a wallet
+ * client) `write` methods. Addresses come from the deployment registry for
+ * the client's chain. React components use the hooks in
+ * hooks/useContract.ts, which are built on the same generated ABIs.
+ */
+
+// A public client for reads, plus a wallet client for writes
+export type SdkClient = PublicClient | { public: PublicClient; wallet: WalletClient };
+
+// The client's chain deployment; clients without a chain use the default one
+function deploymentAddresses(client: SdkClient) {
+  const chainId = ('public' in client ? client.public : client).chain?.id;
+  if (chainId === undefined) {
+    return { trustCircles: CONTRACT_ADDRESS, loanOracle: LOAN_ORACLE_ADDRESS };
+  }
+  const deployment = getDeployment(chainId);
+  if (!deployment) {
+    throw new Error(`No deployment for chain ${chainId} in config/deployments.json`);
+  }
+  return deployment;
+}
+
+export function getTrustCircles(client: SdkClient) {
+  return getContract({ address: deploymentAddresses(client).trustCircles, abi: CONTRACT_ABI, client });
+}
+
+export function getLiquidityPool(client: SdkClient, address: `0x${string}`) {
+  return getContract({ address, abi: POOL_ABI, client });
+}
+
+export function getTreasuryTimelock(client: SdkClient, address: `0x${string}`) {
+  return getContract({ address, abi: TIMELOCK_ABI, client });
+}
+
+export function getRiskParameters(client: SdkClient, address: `0x${string}`) {
+  return getContract({ address, abi: RISK_PARAMS_ABI, client });
+}
+
+export function getCircleAdmissions(client: SdkClient, address: `0x${string}`) {
+  return getContract({ address, abi: ADMISSIONS_ABI, client });
+}
+
+export function getAssetRegistry(client: SdkClient, address: `0x${string}`) {
+  return getContract({ address, abi: ASSET_REGISTRY_ABI, client });
+}
+
+export function getCreditLines(client: SdkClient, address: `0x${string}`) {
+  return getContract({ address, abi: CREDIT_LINES_ABI, client });
+}
+
+// LoanOracle is not linked from TrustCircles; its address comes from the deployment registry
+export function getLoanOracle(client: SdkClient) {
+  const { loanOracle } = deploymentAddresses(client);
+  if (!loanOracle) {
+    throw new Error('No LoanOracle address for this chain in config/deployments.json');
+  }
+  return getContract({ address: loanOracle, abi: LOAN_ORACLE_ABI, client });
+}
+
+/**
+ * Addresses of the satellite contracts TrustCircles links to
+ */
+export async function readSatelliteAddresses(client: PublicClient) {
+  const trustCircles = getTrustCircles(client);
+  const [liquidityPool, treasuryTimelock, riskParameters, circleAdmissions, assetRegistry, creditLines] = await Promise.all([
+    trustCircles.read.liquidityPool(),
+    trustCircles.read.treasuryTimelock(),
+    trustCircles.read.riskParameters(),
+    trustCircles.read.circleAdmissions(),
+    trustCircles.read.assetRegistry(),
+    trustCircles.read.creditLines(),
+  ]);
+  return { liquidityPool, treasuryTimelock, riskParameters, circleAdmissions, assetRegistry, creditLines };
+}
+
+// ============ TYPED RECORDS ============
+
+export interface LoanDetails {
+  borrower: `0x${string}`;
+  amount: bigint;
+  totalRepayment: bigint;
+  dueDate: bigint;
+  approved: boolean;
+  disbursed: boolean;
+  repaid: boolean;
+  purpose: string;
+  defaulted: boolean;
+  asset: `0x${string}`; // zeroAddress for POL
+}
+
+export interface MemberRecord {
+  circleId: bigint;
+  individualScore: bigint;
+  trustBond: bigint;
+  totalBorrowed: bigint;
+  totalRepaid: bigint;
+  loansCompleted: bigint;
+  isActive: boolean;
+  hasActiveLoan: boolean;
+}
+
+/**
+ * A loan by ID; `borrower` is the zero address if it does not exist
+ */
+export async function readLoan(client: PublicClient, loanId: bigint): Promise<LoanDetails> {
+  const [borrower, amount, totalRepayment, dueDate, approved, disbursed, repaid, purpose, defaulted, asset] =
+    await getTrustCircles(client).read.getLoanDetails([loanId]);
+  return { borrower, amount, totalRepayment, dueDate, approved, disbursed, repaid, purpose, defaulted, asset };
+}
+
+/**
+ * A member's stored record (raw individual score, not the blended trust score)
+ */
+export async function readMember(client: PublicClient, address: `0x${string}`): Promise<MemberRecord> {
+  const [circleId, individualScore, trustBond, totalBorrowed, totalRepaid, loansCompleted, isActive, hasActiveLoan] =
+    await getTrustCircles(client).read.members([address]);
+  return { circleId, individualScore, trustBond, totalBorrowed, totalRepaid, loansCompleted, isActive, hasActiveLoan };
+}
+
+// ============ EVENT DECODERS ============
+
+// Decode raw logs (e.g. from a receipt), optionally only one event. Logs from other
+// contracts, or matching no event in the ABI, are skipped.
+export function decodeTrustCirclesEvents<eventName extends ContractEventName<typeof CONTRACT_ABI> | undefined = undefined>(
+  logs: Log[],
+  eventName?: eventName
+) {
+  return parseEventLogs({ abi: CONTRACT_ABI, eventName, logs: logs.filter(log => isAddressEqual(log.address, CONTRACT_ADDRESS)) });
+}
+
+export function decodeCreditLinesEvents<eventName extends ContractEventName<typeof CREDIT_LINES_ABI> | undefined = undefined>(
+  logs: Log[],
+  address: `0x${string}`,
+  eventName?: eventName
+) {
+  return parseEventLogs({ abi: CREDIT_LINES_ABI, eventName, logs: logs.filter(log => isAddressEqual(log.address, address)) });
+}
+
+export function decodeLoanOracleEvents<eventName extends ContractEventName<typeof LOAN_ORACLE_ABI> | undefined = undefined>(
+  logs: Log[],
+  eventName?: eventName
+) {
+  return parseEventLogs({
+    abi: LOAN_ORACLE_ABI,
+    eventName,
+    logs: logs.filter(log => !!LOAN_ORACLE_ADDRESS && isAddressEqual(log.address, LOAN_ORACLE_ADDRESS)),
+  });
+}
+
+export type TrustCirclesEvent = ReturnType<typeof decodeTrustCirclesEvents>[number];
+export type CreditLinesEvent = ReturnType<typeof decodeCreditLinesEvents>[number];
+export type LoanOracleEvent = ReturnType<typeof decodeLoanOracleEvents>[number];
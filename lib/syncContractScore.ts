@@ -1,108 +1,56 @@
-import { getUserFraudProfile } from './fraudDatabase';
-import { updateDoc, doc } from 'firebase/firestore';
-import { db } from './firebase';
+import { publicClient } from './publicClient';
+import { getTrustCircles, readMember } from './sdk';
+import { getUserFraudProfile, updateTrustScores } from './fraudDatabase';
 import { calculateTrustScoreBreakdown } from './fraudDetection';
 
-// Collection names
-const COLLECTIONS = {
-  USERS_FRAUD: 'Profiles',
-};
-
 /**
- * Sync blockchain contract data with fraud profile
+ * Sync a member's on-chain loan history into their fraud profile. Reads
+ * TrustCircles directly rather than trusting data from the browser.
  * Call this whenever contract data changes (repayment, new loan, etc.)
  */
-export async function syncContractScoreToFraudProfile(
-  walletAddress: string,
-  contractData: {
-    individualScore: number;
-    circleScore: number;
-    finalScore: number;
-    loansTaken?: number;
-    loansRepaid?: number;
-    totalBorrowed?: bigint;
-    totalRepaid?: bigint;
-    memberSince?: bigint;
-  }
-) {
+export async function syncContractScoreToFraudProfile(walletAddress: `0x${string}`) {
   try {
     console.log('🔄 Syncing contract data to fraud profile for:', walletAddress);
 
-    // Get existing fraud profile
-    const existingProfile = await getUserFraudProfile(walletAddress);
+    const [existingProfile, member, userLoans] = await Promise.all([
+      getUserFraudProfile(walletAddress),
+      readMember(publicClient, walletAddress),
+      getTrustCircles(publicClient).read.getUserLoans([walletAddress]),
+    ]);
 
-    // Calculate wallet age in days
-    const walletAgeDays = contractData.memberSince 
-      ? Math.floor((Date.now() - Number(contractData.memberSince) * 1000) / (1000 * 60 * 60 * 24))
-      : 0;
+    // Loans taken so far, not counting the one still open
+    const loansTaken = userLoans.length - (member.hasActiveLoan ? 1 : 0);
+    const loansRepaid = Number(member.loansCompleted);
 
-    // Calculate repayment success rate
-    const loansTaken = contractData.loansTaken || 0;
-    const loansRepaid = contractData.loansRepaid || 0;
-    const repaymentSuccessRate = loansTaken > 0 ? loansRepaid / loansTaken : 0;
-
-    // Calculate trust score breakdown
+    // Wallet age is not on-chain, so its stored points are kept as they are
     const trustScores = calculateTrustScoreBreakdown({
-      walletAge: walletAgeDays,
       previousLoans: loansTaken,
       successfulRepayments: loansRepaid,
       isVerified: existingProfile?.isVerified || false,
-      circleCount: 0,
-      platformActivityDays: walletAgeDays,
+      circleCount: member.circleId > BigInt(0) ? 1 : 0,
     });
 
-    // Calculate new fraud score
-    // If user just verified with no loans/activity, don't auto-add scores
-    // Only add scores when there's actual activity
-    let newFraudScore = 50;
-    
-    // Add selfie verification score (10 points if verified)
-    if (existingProfile?.selfieVerificationScore) {
-      newFraudScore += existingProfile.selfieVerificationScore;
-    }
-    
-    // Only add other scores if user has actual activity
-    // Add repayment history contribution (only if has loans)
-    if (loansTaken > 0 && loansRepaid > 0) {
-      newFraudScore += trustScores.repaymentHistoryScore;
-    }
-    
-    // Add wallet age contribution (only if wallet is old enough)
-    if (walletAgeDays >= 30) {
-      newFraudScore += trustScores.walletAgeScore;
-    }
-    
-    // Add platform activity contribution (only if has activity)
-    if (walletAgeDays >= 7) {
-      newFraudScore += trustScores.platformActivityScore;
-    }
-
-    // Update fraud profile with new scores
-    if (existingProfile) {
-      const docRef = doc(db, COLLECTIONS.USERS_FRAUD, walletAddress.toLowerCase());
-      await updateDoc(docRef, {
-        fraudScore: newFraudScore,
-        walletAgeScore: trustScores.walletAgeScore,
-        repaymentHistoryScore: trustScores.repaymentHistoryScore,
-        platformActivityScore: trustScores.platformActivityScore,
-        totalTrustScore: trustScores.totalTrustScore,
-        updatedAt: new Date(),
-      });
-    }
+    // Update fraud profile with new scores; wallet age, platform, selfie and circle points are kept
+    const scores = existingProfile
+      ? await updateTrustScores(walletAddress, {
+          repaymentHistoryScore: trustScores.repaymentHistoryScore,
+        })
+      : trustScores;
 
     console.log('✅ Fraud profile synced successfully');
     console.log('📊 New scores:', {
-      fraudScore: newFraudScore,
-      walletAge: trustScores.walletAgeScore,
-      repaymentHistory: trustScores.repaymentHistoryScore,
-      selfieVerification: existingProfile?.selfieVerificationScore || 0,
-      total: trustScores.totalTrustScore,
+      trustScore: scores.trustScore,
+      riskScore: scores.riskScore,
+      walletAge: scores.walletAgeScore,
+      repaymentHistory: scores.repaymentHistoryScore,
+      selfieVerification: scores.selfieVerificationScore,
     });
 
     return {
       success: true,
-      fraudScore: newFraudScore,
-      trustScores,
+      trustScore: scores.trustScore,
+      riskScore: scores.riskScore,
+      trustScores: scores,
     };
 
   } catch (error) {
@@ -119,13 +67,13 @@ export async function getCombinedUserScore(walletAddress: string) {
     const fraudProfile = await getUserFraudProfile(walletAddress);
     
     return {
-      individualScore: fraudProfile?.fraudScore || 0,
+      trustScore: fraudProfile?.trustScore || 0,
+      riskScore: fraudProfile?.riskScore ?? 100,
       walletAgeScore: fraudProfile?.walletAgeScore || 0,
       repaymentHistoryScore: fraudProfile?.repaymentHistoryScore || 0,
       selfieVerificationScore: fraudProfile?.selfieVerificationScore || 0,
       circleActivityScore: fraudProfile?.circleActivityScore || 0,
       platformActivityScore: fraudProfile?.platformActivityScore || 0,
-      totalTrustScore: fraudProfile?.totalTrustScore || 0,
       isVerified: fraudProfile?.isVerified || false,
       riskLevel: fraudProfile?.riskLevel || 'high',
     };
@@ -0,0 +1,152 @@
+import type { Hash, PublicClient } from 'viem';
+import { getChain } from '@/config/chains';
+import { DEFAULT_CHAIN_ID } from '@/config/deployments';
+import { decodeTxError } from './txErrors';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TrackedTransaction {
+  id: string;
+  label: string; // What the user did, e.g. "Request loan"
+  status: TransactionStatus;
+  hash?: Hash; // Missing if the transaction was never sent (e.g. rejected in the wallet)
+  chainId?: number;
+  error?: string;
+  createdAt: number; // Unix ms
+  updatedAt: number;
+}
+
+// Activity log kept in the browser, most recent first
+const STORAGE_KEY = 'zentra:transactions';
+const MAX_ENTRIES = 50;
+
+const EMPTY: TrackedTransaction[] = [];
+let transactions: TrackedTransaction[] | null = null;
+const listeners = new Set<() => void>();
+const receipts = new Map<Hash, Promise<{ status: 'confirmed' | 'failed'; error?: string }>>();
+
+function load(): TrackedTransaction[] {
+  if (transactions) return transactions;
+  if (typeof window === 'undefined') return EMPTY;
+
+  // Entries still pending from an earlier visit are resumed by <TransactionToasts />
+  let stored: TrackedTransaction[] = [];
+  try {
+    stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    // Corrupt entry; start a fresh log
+  }
+  transactions = stored;
+  return stored;
+}
+
+function save(next: TrackedTransaction[]) {
+  transactions = next.slice(0, MAX_ENTRIES);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  } catch {
+    // Storage full or disabled; the log still works for this session
+  }
+  listeners.forEach(listener => listener());
+}
+
+function upsert(entry: Omit<TrackedTransaction, 'createdAt' | 'updatedAt'>) {
+  const now = Date.now();
+  const current = load();
+  const existing = current.find(tx => tx.id === entry.id);
+  save(
+    existing
+      ? current.map(tx => (tx.id === entry.id ? { ...tx, ...entry, updatedAt: now } : tx))
+      : [{ ...entry, createdAt: now, updatedAt: now }, ...current]
+  );
+}
+
+// For useSyncExternalStore
+export function subscribeTransactions(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getTransactions() {
+  return load();
+}
+
+export function getServerTransactions() {
+  return EMPTY;
+}
+
+export function clearTransactions() {
+  save(load().filter(tx => tx.status === 'pending'));
+}
+
+// Undefined on chains without a block explorer (e.g. a local Hardhat node)
+export function explorerTxUrl(hash: Hash, chainId: number = DEFAULT_CHAIN_ID) {
+  const explorer = getChain(chainId)?.blockExplorers?.default.url;
+  return explorer ? `${explorer}/tx/${hash}` : undefined;
+}
+
+/**
+ * Log a write that failed before it reached the chain (rejected in the
+ * wallet, or reverted in the wallet's simulation)
+ */
+export function recordFailedSubmission(label: string, error: unknown) {
+  upsert({
+    id: `failed-${Date.now()}`,
+    label,
+    status: 'failed',
+    error: decodeTxError(error),
+  });
+}
+
+/**
+ * Follow a submitted transaction until it is mined. A reverted transaction
+ * is replayed with eth_call at its block to recover the revert reason.
+ * Tracking the same hash twice shares one receipt wait.
+ */
+export function trackTransaction(publicClient: PublicClient, hash: Hash, label: string) {
+  const tracked = receipts.get(hash);
+  if (tracked) return tracked;
+
+  const chainId = publicClient.chain?.id;
+  upsert({ id: hash, label, status: 'pending', hash, chainId });
+
+  const result = (async () => {
+    let outcome: { status: 'confirmed' | 'failed'; error?: string };
+    try {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status === 'success') {
+        outcome = { status: 'confirmed' };
+      } else {
+        outcome = { status: 'failed', error: await revertReason(publicClient, hash, receipt.blockNumber) };
+      }
+    } catch (err) {
+      outcome = { status: 'failed', error: decodeTxError(err) };
+    }
+
+    upsert({ id: hash, label, hash, chainId, ...outcome });
+    return outcome;
+  })();
+
+  receipts.set(hash, result);
+  return result;
+}
+
+async function revertReason(publicClient: PublicClient, hash: Hash, blockNumber: bigint) {
+  try {
+    const tx = await publicClient.getTransaction({ hash });
+    // Replays against the state before its block; earlier transactions in the
+    // same block are not applied, which rarely changes the reason
+    await publicClient.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      blockNumber: blockNumber - BigInt(1),
+    });
+  } catch (err) {
+    return decodeTxError(err);
+  }
+  return 'Transaction reverted';
+}
@@ -0,0 +1,83 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  RawContractError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+} from 'viem';
+
+// Friendlier wording for the contracts' most common revert reasons; anything
+// not listed is shown as the contract wrote it
+const REVERT_MESSAGES: Record<string, string> = {
+  'Amount exceeds limit': 'That amount is above your current borrowing limit',
+  'Exceeds available credit': 'That amount is more than your available credit',
+  'Circle full': 'This circle has no open seats',
+  'Circle not active': 'This circle is not active yet. It needs more members',
+  "Circle doesn't exist": 'No circle exists with that ID',
+  'Already in a circle': 'You are already a member of a circle',
+  'Not in a circle': 'Join a trust circle first',
+  'Stake below minimum': 'Your bond is below the minimum stake for this asset',
+  'Already have active loan': 'Repay your active loan before requesting another',
+  'Repay your loan first': 'Repay your active loan first',
+  'Insufficient liquidity': 'The pool does not have enough liquidity right now',
+  'Insufficient allowance': 'Approve the token before sending this transaction',
+  'Insufficient balance': 'Your balance is too low for this amount',
+  'Incorrect amount': 'The amount sent does not match what the contract expects',
+  'Account frozen': 'This account is frozen. Contact the Zentra team',
+  'Protocol paused': 'Zentra is paused. Only repayments go through right now',
+  'Missing role': 'Your wallet does not have the role this action needs',
+  'Only admin': 'Only the protocol admin can do this',
+  'Attestation expired': 'The approval signature expired. Please try again',
+  'Invalid attestation': 'The approval signature is not valid for this loan',
+  'Already approved': 'This loan has already been approved',
+  'Already repaid': 'This loan is already repaid',
+  'Not overdue enough': 'This loan is still within its grace period',
+  'Merchant not active': 'This merchant is not accepting payments',
+  'Cooldown not over': 'Your leave request is still in its cooldown period',
+};
+
+function friendlyReason(reason: string) {
+  return REVERT_MESSAGES[reason] ?? reason;
+}
+
+/**
+ * Human-readable message for a failed write: wallet rejections, missing gas
+ * money and contract reverts (decoded from the revert data)
+ */
+export function decodeTxError(error: unknown): string {
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error.message : 'Transaction failed';
+  }
+
+  if (error.walk(e => e instanceof UserRejectedRequestError)) {
+    return 'Transaction rejected in your wallet';
+  }
+
+  if (error.walk(e => e instanceof InsufficientFundsError)) {
+    return 'Not enough POL to cover this transaction and its gas';
+  }
+
+  const reverted = error.walk(e => e instanceof ContractFunctionRevertedError);
+  if (reverted instanceof ContractFunctionRevertedError && reverted.reason) {
+    return friendlyReason(reverted.reason);
+  }
+
+  // Raw revert data, e.g. from replaying a mined transaction with eth_call
+  const raw = error.walk(e => e instanceof RawContractError);
+  if (raw instanceof RawContractError) {
+    const data = typeof raw.data === 'object' ? raw.data.data : raw.data;
+    if (data) {
+      try {
+        const { errorName, args } = decodeErrorResult({ data });
+        if (errorName === 'Error' && typeof args?.[0] === 'string') {
+          return friendlyReason(args[0]);
+        }
+      } catch {
+        // Not a standard revert string; fall through
+      }
+    }
+  }
+
+  return error.shortMessage;
+}
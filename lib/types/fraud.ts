@@ -13,35 +13,38 @@ export type FraudEventType =
   | 'deepfake_detected'
   | 'screenshot_detected';
 
-export interface UserFraudProfile {
-  walletAddress: string;
-  fraudScore: number; // 0-100
+// A score on both scales, tagged with the engine version that produced it (lib/fraudDetection.ts)
+export interface VersionedScore {
+  trustScore: number; // 0-60, higher is more trustworthy
+  riskScore: number; // 0-100, higher is riskier
   riskLevel: RiskLevel;
+  scoreVersion: number;
+}
+
+export interface UserFraudProfile extends VersionedScore {
+  walletAddress: string;
   isVerified: boolean;
   isFlagged: boolean;
-  verificationBonus: number; // Points reduced from fraud score
   
-  // Individual trust score breakdown
+  // Individual trust score breakdown (trustScore is their sum)
   walletAgeScore: number; // 0-15 points
   repaymentHistoryScore: number; // 0-15 points
   selfieVerificationScore: number; // 0-10 points
   circleActivityScore: number; // 0-10 points
   platformActivityScore: number; // 0-10 points
-  totalTrustScore: number; // Sum of all individual scores (0-60 max)
   
   lastFraudCheck: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface FraudAnalysisResult {
-  fraudScore: number;
-  riskLevel: RiskLevel;
+export interface FraudAnalysisResult extends VersionedScore {
   riskFactors: RiskFactor[];
   trustFactors: TrustFactor[];
   recommendation: 'approve' | 'review' | 'block';
   explanation: string;
   confidence: number; // 0-100
+  model?: RiskModelName; // Provider that produced the analysis
 }
 
 export interface RiskFactor {
@@ -72,20 +75,102 @@ export interface FraudEvent {
   resolvedAt?: Date;
 }
 
-export interface LoanFraudCheck {
+export interface LoanFraudCheck extends VersionedScore {
   loanRequestId: string;
+  source: 'oracle'; // Only the risk oracle's checks of on-chain loans are stored and read back
   walletAddress: string;
   requestedAmount: number;
   maxEligible: number;
   loanPurpose: string;
-  fraudScore: number;
-  riskLevel: RiskLevel;
   approvalStatus: 'approved' | 'denied' | 'review';
   denialReason?: string;
   geminiAnalysis: FraudAnalysisResult;
   checkedAt: Date;
 }
 
+// Risk Model Types
+export type RiskModelName = 'gemini' | 'local' | 'mock';
+
+// What a risk model scores a loan request on
+export interface LoanRiskInput {
+  walletAddress: string;
+  walletAge?: number; // in days; left out when unknown (e.g. scored from on-chain data only)
+  totalTransactions: number;
+  requestedAmount: number;
+  maxEligible: number;
+  loanPurpose: string;
+  previousLoans: number;
+  successfulRepayments: number;
+  hasVerification: boolean;
+  circleCount: number;
+}
+
+// A fraud and identity model, selected with RISK_MODEL_PROVIDER (lib/riskModel.ts)
+export interface RiskModelProvider {
+  name: RiskModelName;
+  analyzeLoan(input: LoanRiskInput): Promise<FraudAnalysisResult>;
+  verifySelfie(imageBase64: string): Promise<SelfieAnalysisResult>;
+}
+
+// What a model response was for, in validation errors
+export type ModelOutputTask = 'loan_analysis' | 'selfie_verification';
+
+export interface ModelValidationIssue {
+  path: string; // Field in the model's JSON, e.g. trust_factors[0].points
+  message: string;
+}
+
+// A model response that failed validation even after a repair prompt (model_output_errors)
+export interface ModelOutputFailure {
+  model: RiskModelName;
+  task: ModelOutputTask;
+  issues: ModelValidationIssue[];
+  responses: string[]; // Raw model output, first attempt then repair
+  walletAddress?: string;
+  createdAt: Date;
+}
+
+// Address screening (lib/screening.ts)
+export type ScreeningList = 'blocklist' | 'mixer' | 'sanctions';
+export type ScreeningAction = 'circle_join' | 'loan_request' | 'liquidity_deposit';
+
+export interface ScreeningHit {
+  list: ScreeningList;
+  address: string;
+  label?: string; // e.g. the mixer's name or the reason an admin gave
+  source: string; // List file name, or 'admin' for the Firestore blocklist
+}
+
+export interface ScreeningResult {
+  address: string;
+  action: ScreeningAction;
+  allowed: boolean;
+  hits: ScreeningHit[];
+}
+
+// An address blocked from the admin page (address_blocklist)
+export interface BlocklistEntry {
+  address: string;
+  reason: string;
+  addedBy: string;
+  createdAt: Date;
+}
+
+// Risk oracle decision for a pending loan (/api/loan-approvals/[loanId])
+export interface LoanApprovalResult {
+  loanId: string;
+  decision: 'approve' | 'review' | 'block';
+  trustScore: number;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  explanation?: string;
+  oracle?: `0x${string}` | null;
+  attestation?: {
+    expiresAt: number;
+    signature: `0x${string}`;
+  } | null;
+}
+
 // Selfie Verification Types
 export interface SelfieVerification {
   id: string;
@@ -131,7 +216,8 @@ export interface GeminiFraudResponse {
   confidence: number;
 }
 
-export interface GeminiSelfieResponse {
+// Selfie check result from any risk model (field names follow the model's JSON output)
+export interface SelfieAnalysisResult {
   is_verified: boolean;
   is_real_person: boolean;
   is_live_photo: boolean;
@@ -0,0 +1,54 @@
+// Indexed on-chain history for Zentra BNPL (see lib/indexer.ts)
+
+import { AssetInfo } from '../assets';
+
+export type IndexedLoanStatus = 'pending' | 'approved' | 'disbursed' | 'repaid' | 'defaulted';
+
+// Amounts are in the loan asset's smallest unit, as decimal strings (JSON has no bigint)
+export interface IndexedLoan {
+  id: number;
+  borrower: string;
+  circleId: number; // 0 if the borrower's circle is unknown
+  amount: string;
+  purpose: string;
+  asset: AssetInfo;
+  status: IndexedLoanStatus;
+  amountRepaid: string;
+  installmentsPaid: number;
+  merchant?: string; // Checkout purchases
+  orderRef?: string;
+  outstandingAtDefault?: string;
+  requestedAt: number; // Unix seconds
+  updatedAt: number;
+  txHash: string; // Request transaction
+}
+
+export interface IndexedCircle {
+  id: number;
+  name: string;
+  creator: string;
+  asset: AssetInfo;
+  members: string[];
+  isActive: boolean;
+  averageScore: number | null; // Until the first score update
+  createdAt: number;
+  txHash: string;
+}
+
+// One event in a member's history; `data` holds the event's other arguments
+export interface HistoryEntry {
+  type: string; // Event name, e.g. "LoanRequested"
+  data: Record<string, string | number | boolean>;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number; // 1-based
+  pageSize: number;
+  total: number;
+  indexedBlock: number; // Latest block the index has ingested
+}
@@ -0,0 +1,37 @@
+// Merchant Checkout Types for Zentra BNPL
+
+import { AssetInfo } from '../assets';
+
+export type PaymentIntentStatus = 'pending' | 'paid' | 'expired' | 'cancelled';
+
+export interface PaymentIntent {
+  id: string;
+  merchantAddress: string;
+  merchantName: string; // On-chain registered name
+  amount: string; // In the intent's asset, decimal string (e.g. "12.5")
+  asset?: string; // Token address; missing or zero address means POL
+  assetSymbol?: string;
+  assetDecimals?: number;
+  description: string;
+  returnUrl?: string; // Where the borrower is sent after checkout
+  status: PaymentIntentStatus;
+  
+  // Filled in once the on-chain purchase is confirmed
+  borrowerAddress?: string;
+  loanId?: number;
+  installments?: number;
+  txHash?: string;
+  
+  createdAt: Date;
+  expiresAt: Date;
+  paidAt?: Date;
+  cancelledAt?: Date; // Set when the merchant cancels a pending intent
+}
+
+export interface CreatePaymentIntentRequest {
+  merchantAddress: string;
+  amount: string;
+  asset?: AssetInfo; // Defaults to POL
+  description: string;
+  returnUrl?: string;
+}
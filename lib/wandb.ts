@@ -1,4 +1,7 @@
 import * as wandb from 'wandb';
+import { getChain } from '@/config/chains';
+import { DEFAULT_CHAIN_ID } from '@/config/deployments';
+import { CONTRACT_ADDRESS } from './contract';
 
 let wandbRun: any = null;
 let isInitializing = false;
@@ -44,8 +47,8 @@ export async function initWandB() {
         },
         
         // Contract Details
-        contract_address: '0xa3f87b884347388f59edcc8e229C0BbC1AE821bC',
-        blockchain: 'polygon-amoy',
+        contract_address: CONTRACT_ADDRESS,
+        blockchain: getChain(DEFAULT_CHAIN_ID)?.name,
       },
     });
 
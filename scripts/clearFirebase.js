@@ -1,3 +1,6 @@
+// Deployed addresses by chain, written by scripts/deploy.js
+const deployments = require('../config/deployments.json');
+
 console.log('🔥 Firebase Data Clearing Guide');
 console.log('================================\n');
 console.log('To reset your application to fresh state:\n');
@@ -9,9 +12,10 @@ console.log('- Delete the "Profiles" collection');
 console.log('- This will remove all user verification data\n');
 
 console.log('✅ STEP 2: Contract Updated');
-console.log('New Contract Address: 0xa3f87b884347388f59edcc8e229C0BbC1AE821bC');
-console.log('Admin Address: 0x74E36d4A7b33057e3928CE4bf4C8C53A93361C34');
-console.log('View on Polygonscan: https://amoy.polygonscan.com/address/0xa3f87b884347388f59edcc8e229C0BbC1AE821bC\n');
+for (const [chainId, deployment] of Object.entries(deployments)) {
+  console.log(`${deployment.network} (chain ${chainId}) Contract Address: ${deployment.trustCircles}`);
+}
+console.log('Admin Address: 0x74E36d4A7b33057e3928CE4bf4C8C53A93361C34\n');
 
 console.log('🚀 STEP 3: Restart Your Application');
 console.log('Run: npm run dev\n');
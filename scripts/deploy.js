@@ -1,13 +1,42 @@
 const { ethers } = require("ethers");
 const fs = require("fs");
+const path = require("path");
+const hre = require("hardhat");
 require("dotenv").config();
 
+// Deployed addresses by chain ID; the app reads it through config/deployments.ts
+const REGISTRY_PATH = path.join(__dirname, "../config/deployments.json");
+
+// Networks where a MockUSDC faucet token may stand in for a missing STABLECOIN_ADDRESS
+const MOCK_STABLECOIN_NETWORKS = ["localhost", "amoy"];
+
+// The app's chain list (config/chains.ts), transpiled on load so block explorers are defined in one place
+function loadChains() {
+  const ts = require("typescript");
+  const source = fs.readFileSync(path.join(__dirname, "../config/chains.ts"), "utf8");
+  const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS } });
+  const chainsModule = { exports: {} };
+  new Function("exports", "require", "module", outputText)(chainsModule.exports, require, chainsModule);
+  return chainsModule.exports;
+}
+
 async function main() {
-  console.log("🚀 Deploying TrustCircles contract to Polygon Amoy...");
+  // Pick the network with --network (amoy, polygon or localhost)
+  const { name: network, config } = hre.network;
+  if (!config.url) {
+    throw new Error("Run with --network amoy, --network polygon or --network localhost");
+  }
+  if (!process.env.STABLECOIN_ADDRESS && !MOCK_STABLECOIN_NETWORKS.includes(network)) {
+    throw new Error(`Set STABLECOIN_ADDRESS to deploy to ${network}; MockUSDC is only deployed on ${MOCK_STABLECOIN_NETWORKS.join(" and ")}`);
+  }
+  console.log(`🚀 Deploying TrustCircles contract to ${network}...`);
   
-  // Setup provider and wallet
-  const provider = new ethers.JsonRpcProvider("https://rpc-amoy.polygon.technology/");
-  const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+  // Setup provider and wallet; a local node can deploy with its own unlocked account
+  const provider = new ethers.JsonRpcProvider(config.url);
+  const wallet = process.env.PRIVATE_KEY || network !== "localhost"
+    ? new ethers.Wallet(process.env.PRIVATE_KEY, provider)
+    : await provider.getSigner();
+  const { chainId } = await provider.getNetwork();
   
   console.log("📍 Deploying from address:", wallet.address);
   
@@ -19,7 +48,6 @@ async function main() {
   const contractSource = fs.readFileSync(contractPath, "utf8");
   
   // Compile using hardhat
-  const hre = require("hardhat");
   await hre.run("compile");
   
   const artifact = require("../artifacts/contracts/TrustCircles.sol/TrustCircles.json");
@@ -32,12 +60,108 @@ async function main() {
   await contract.waitForDeployment();
   
   const contractAddress = await contract.getAddress();
+  const deploymentBlock = (await contract.deploymentTransaction().wait()).blockNumber;
+  
+  // Deploy the lender pool that funds loans and link it
+  const poolArtifact = require("../artifacts/contracts/LiquidityPool.sol/LiquidityPool.json");
+  const poolFactory = new ethers.ContractFactory(poolArtifact.abi, poolArtifact.bytecode, wallet);
+  console.log("⏳ Deploying liquidity pool...");
+  
+  const pool = await poolFactory.deploy(contractAddress, ethers.ZeroAddress, "Zentra Pool Share", "zPOOL");
+  await pool.waitForDeployment();
+  
+  const poolAddress = await pool.getAddress();
+  const linkTx = await contract.setLiquidityPool(poolAddress);
+  await linkTx.wait();
+  
+  // Deploy the multisig timelock that gates withdrawals and admin transfers.
+  // TIMELOCK_SIGNERS is a comma-separated address list (defaults to the deployer alone)
+  const signers = process.env.TIMELOCK_SIGNERS
+    ? process.env.TIMELOCK_SIGNERS.split(",").map((signer) => signer.trim())
+    : [wallet.address];
+  const threshold = Number(process.env.TIMELOCK_THRESHOLD || Math.min(2, signers.length));
+  const delay = Number(process.env.TIMELOCK_DELAY_SECONDS || 2 * 24 * 60 * 60);
+  
+  const timelockArtifact = require("../artifacts/contracts/TreasuryTimelock.sol/TreasuryTimelock.json");
+  const timelockFactory = new ethers.ContractFactory(timelockArtifact.abi, timelockArtifact.bytecode, wallet);
+  console.log(`⏳ Deploying treasury timelock (${threshold}-of-${signers.length}, ${delay}s delay)...`);
+  
+  const timelock = await timelockFactory.deploy(contractAddress, signers, threshold, delay);
+  await timelock.waitForDeployment();
+  
+  const timelockAddress = await timelock.getAddress();
+  const timelockTx = await contract.setTreasuryTimelock(timelockAddress);
+  await timelockTx.wait();
+  
+  // Deploy the risk oracle verifier and let it approve loans and set scores. ORACLE_SIGNER_ADDRESS
+  // is the address of the server's ORACLE_PRIVATE_KEY (defaults to the deployer)
+  const oracleSigner = process.env.ORACLE_SIGNER_ADDRESS || wallet.address;
+  const oracleArtifact = require("../artifacts/contracts/LoanOracle.sol/LoanOracle.json");
+  const oracleFactory = new ethers.ContractFactory(oracleArtifact.abi, oracleArtifact.bytecode, wallet);
+  console.log("⏳ Deploying loan oracle...");
+  
+  const loanOracle = await oracleFactory.deploy(contractAddress, oracleSigner);
+  await loanOracle.waitForDeployment();
+  
+  const loanOracleAddress = await loanOracle.getAddress();
+  for (const role of [await contract.LOAN_OFFICER_ROLE(), await contract.RISK_MANAGER_ROLE()]) {
+    const oracleRoleTx = await contract.grantRole(role, loanOracleAddress);
+    await oracleRoleTx.wait();
+  }
+  
+  // Allow-list a stablecoin with its own pool. STABLECOIN_ADDRESS points at an
+  // existing token; without it a MockUSDC faucet token is deployed for testing
+  // (localhost and amoy only, checked above)
+  let stablecoinAddress = process.env.STABLECOIN_ADDRESS;
+  if (!stablecoinAddress) {
+    const usdcArtifact = require("../artifacts/contracts/MockUSDC.sol/MockUSDC.json");
+    const usdcFactory = new ethers.ContractFactory(usdcArtifact.abi, usdcArtifact.bytecode, wallet);
+    console.log("⏳ Deploying mock USDC...");
+    
+    const usdc = await usdcFactory.deploy();
+    await usdc.waitForDeployment();
+    stablecoinAddress = await usdc.getAddress();
+  }
+  
+  console.log("⏳ Deploying stablecoin pool...");
+  const stablePool = await poolFactory.deploy(contractAddress, stablecoinAddress, "Zentra USDC Pool Share", "zUSDC");
+  await stablePool.waitForDeployment();
+  
+  const stablePoolAddress = await stablePool.getAddress();
+  const decimals = await stablePool.decimals();
+  
+  const registryArtifact = require("../artifacts/contracts/AssetRegistry.sol/AssetRegistry.json");
+  const registry = new ethers.Contract(await contract.assetRegistry(), registryArtifact.abi, wallet);
+  const assetTx = await registry.addAsset(
+    stablecoinAddress,
+    stablePoolAddress,
+    ethers.parseUnits(process.env.STABLECOIN_MIN_STAKE || "10", decimals),
+    ethers.parseUnits(process.env.STABLECOIN_MAX_LOAN || "1000", decimals)
+  );
+  await assetTx.wait();
+  
+  // Record the deployment so the app resolves these addresses on this chain
+  const deployments = fs.existsSync(REGISTRY_PATH) ? JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8")) : {};
+  deployments[chainId.toString()] = {
+    network,
+    trustCircles: contractAddress,
+    loanOracle: loanOracleAddress,
+    deploymentBlock,
+  };
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(deployments, null, 2) + "\n");
   
   console.log("\n✅ TrustCircles deployed successfully!");
   console.log("📍 Contract Address:", contractAddress);
+  console.log("🏦 Liquidity Pool:", poolAddress);
+  console.log("🔐 Treasury Timelock:", timelockAddress);
+  console.log("🤖 Loan Oracle:", loanOracleAddress, "(signer", oracleSigner + ")");
+  console.log("💵 Stablecoin:", stablecoinAddress, "(pool", stablePoolAddress + ")");
   console.log("👤 Admin Address:", wallet.address);
-  console.log("🔗 View on Polygonscan:", `https://amoy.polygonscan.com/address/${contractAddress}`);
-  console.log("\n💾 Save this address for your frontend integration!");
+  const explorer = loadChains().getChain(Number(chainId))?.blockExplorers?.default;
+  if (explorer) {
+    console.log(`🔗 View on ${explorer.name}:`, `${explorer.url}/address/${contractAddress}`);
+  }
+  console.log(`\n💾 Saved to config/deployments.json for chain ${chainId}`);
 }
 
 main()
@@ -0,0 +1,59 @@
+const fs = require("fs");
+const path = require("path");
+
+// Contracts the SDK exposes, with the ABI constant each one is exported as
+const CONTRACTS = [
+  { name: "TrustCircles", constant: "CONTRACT_ABI", comment: "Circles, members, loans and merchant checkout" },
+  { name: "LiquidityPool", constant: "POOL_ABI", comment: "LiquidityPool share token; its address is read from TrustCircles.liquidityPool()" },
+  { name: "TreasuryTimelock", constant: "TIMELOCK_ABI", comment: "Multisig timelock for withdrawals and admin transfers; its address is read from TrustCircles.treasuryTimelock()" },
+  { name: "RiskParameters", constant: "RISK_PARAMS_ABI", comment: "Credit tiers and scoring parameters; its address is read from TrustCircles.riskParameters()" },
+  { name: "CircleAdmissions", constant: "ADMISSIONS_ABI", comment: "Join requests and member vouching; its address is read from TrustCircles.circleAdmissions()" },
+  { name: "AssetRegistry", constant: "ASSET_REGISTRY_ABI", comment: "Allow-listed ERC-20 assets and their pools; its address is read from TrustCircles.assetRegistry()" },
+  { name: "CreditLines", constant: "CREDIT_LINES_ABI", comment: "Revolving credit lines drawn against trust score limits; its address is read from TrustCircles.creditLines()" },
+  { name: "LoanOracle", constant: "LOAN_ORACLE_ABI", comment: "Risk oracle attestations; deployed next to TrustCircles, its address comes from config/deployments.json" },
+];
+
+const root = path.join(__dirname, "..");
+
+function readArtifact(name) {
+  const file = path.join(root, "artifacts", "contracts", `${name}.sol`, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing artifact for ${name} (run "npx hardhat compile" first)`);
+  }
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * Regenerate the SDK's ABIs from the compiled Hardhat artifacts:
+ * - lib/abis.ts: typed `as const` ABIs imported by lib/sdk.ts, lib/contract.ts and the hooks
+ * - lib/<Name>ABI.json: plain ABIs for scripts and external tools
+ * - lib/TrustCircles.json: the full TrustCircles artifact (ABI and bytecode)
+ */
+function main() {
+  console.log("🔧 Generating contract SDK from Hardhat artifacts...");
+
+  let source =
+    "// Generated by scripts/generate-sdk.js from the compiled contracts. Do not edit by hand;\n" +
+    "// run `npm run generate:sdk` after changing a contract.\n";
+
+  for (const { name, constant, comment } of CONTRACTS) {
+    const artifact = readArtifact(name);
+    source += `\n// ${comment}\nexport const ${constant} = ${JSON.stringify(artifact.abi, null, 2)} as const;\n`;
+
+    fs.writeFileSync(path.join(root, "lib", `${name}ABI.json`), JSON.stringify(artifact.abi, null, 2) + "\n");
+    if (name === "TrustCircles") {
+      fs.writeFileSync(path.join(root, "lib", "TrustCircles.json"), JSON.stringify(artifact, null, 2) + "\n");
+    }
+    console.log(`  ✓ ${name} → ${constant}`);
+  }
+
+  fs.writeFileSync(path.join(root, "lib", "abis.ts"), source);
+  console.log("✅ Wrote lib/abis.ts");
+}
+
+try {
+  main();
+} catch (error) {
+  console.error("❌ SDK generation failed:", error.message);
+  process.exit(1);
+}